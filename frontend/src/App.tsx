@@ -5,7 +5,7 @@ import {
   Zap, Shield, Globe, ArrowRight
 } from 'lucide-react';
 import axios from 'axios';
-import { FormattedMessage } from './components/FormattedMessage';
+import { FormattedMessage, WebAnswer } from './components/FormattedMessage';
 import './App.css';
 
 interface Message {
@@ -13,6 +13,7 @@ interface Message {
   content: string;
   timestamp: Date;
   direction: 'inbound' | 'outbound';
+  answer?: WebAnswer; // Structured answer for replies in this session (history has only the markdown)
 }
 
 const API_URL = import.meta.env.VITE_API_URL || 
@@ -31,6 +32,9 @@ function App() {
   const [phoneInput, setPhoneInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
+  // Partial answer and the agents working on it while a response streams in
+  const [streamingContent, setStreamingContent] = useState('');
+  const [streamingAgents, setStreamingAgents] = useState<string[]>([]);
   const [locationRequested, setLocationRequested] = useState(false);
   const [isPageTransitioning, setIsPageTransitioning] = useState(false);
   const [language, setLanguage] = useState<'en' | 'sw'>(() => {
@@ -65,6 +69,7 @@ function App() {
       askPlaceholder: 'Ask your farming question...',
       send: 'Send',
       aiGenerated: 'Responses are AI-generated',
+      consulting: 'Consulting',
       footer: 'Empowering Kenyan Farmers with AI Technology',
     },
     sw: {
@@ -90,6 +95,7 @@ function App() {
       askPlaceholder: 'Uliza swali lako la kilimo...',
       send: 'Tuma',
       aiGenerated: 'Majibu yanatengenezwa na AI',
+      consulting: 'Inashauriana na',
       footer: 'Kuwawezesha Wakulima wa Kenya kwa Teknolojia ya AI',
     },
   };
@@ -146,7 +152,7 @@ function App() {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages, isTyping]);
+  }, [messages, isTyping, streamingContent]);
 
   useEffect(() => {
     if (phoneNumber && inputRef.current) {
@@ -228,17 +234,65 @@ function App() {
     setIsTyping(true);
 
     try {
-      const response = await axios.post(`${API_URL}/api/chat`, {
-        phoneNumber,
-        message: messageToSend,
-        language,
+      const response = await fetch(`${API_URL}/api/chat/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          phoneNumber,
+          message: messageToSend,
+          language,
+        }),
       });
 
-      await new Promise(resolve => setTimeout(resolve, 500));
+      if (!response.ok || !response.body) {
+        throw new Error(`Chat stream failed with status ${response.status}`);
+      }
+
+      // Server-Sent Events: "event: <type>" and "data: <json>" lines, blank line between events
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      let finalResponse = '';
+      let finalAnswer: WebAnswer | undefined;
+
+      const handleEvent = (type: string, data: any) => {
+        if (type === 'agents') {
+          setStreamingAgents(data.agents);
+        } else if (type === 'token') {
+          setStreamingContent(prev => prev + data.text);
+        } else if (type === 'done') {
+          finalResponse = data.response;
+          finalAnswer = data.answer;
+        } else if (type === 'error') {
+          throw new Error(data.error);
+        }
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffered += decoder.decode(value, { stream: true });
+        const events = buffered.split('\n\n');
+        buffered = events.pop() || '';
+
+        for (const event of events) {
+          const type = event.match(/^event: (.*)$/m)?.[1];
+          const data = event.match(/^data: (.*)$/m)?.[1];
+          if (type && data) {
+            handleEvent(type, JSON.parse(data));
+          }
+        }
+      }
+
+      if (!finalResponse) {
+        throw new Error('Chat stream ended without a response');
+      }
 
       const botMessage: Message = {
         id: (Date.now() + 1).toString(),
-        content: response.data.response,
+        content: finalResponse,
+        answer: finalAnswer,
         timestamp: new Date(),
         direction: 'outbound',
       };
@@ -256,6 +310,8 @@ function App() {
     } finally {
       setIsLoading(false);
       setIsTyping(false);
+      setStreamingContent('');
+      setStreamingAgents([]);
     }
   };
 
@@ -602,7 +658,7 @@ function App() {
                             </div>
                             <div className="flex-1 bg-white rounded-2xl px-5 py-4 shadow-sm border border-gray-100">
                               <div className="text-gray-800 text-sm leading-relaxed">
-                                <FormattedMessage content={message.content} direction={message.direction} />
+                                <FormattedMessage content={message.content} direction={message.direction} answer={message.answer} />
                               </div>
                             </div>
                           </div>
@@ -622,8 +678,24 @@ function App() {
                   })
                 )}
                 
+                {/* Streaming Answer */}
+                {isTyping && streamingContent && (
+                  <div className="flex justify-start mb-4">
+                    <div className="flex items-start gap-3 max-w-[85%]">
+                      <div className="w-9 h-9 rounded-full bg-gradient-to-br from-emerald-500 to-teal-500 flex items-center justify-center flex-shrink-0 shadow-sm">
+                        <Bot className="w-5 h-5 text-white" />
+                      </div>
+                      <div className="flex-1 bg-white rounded-2xl px-5 py-4 shadow-sm border border-gray-100">
+                        <div className="text-gray-800 text-sm leading-relaxed">
+                          <FormattedMessage content={streamingContent} direction="outbound" />
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 {/* Typing Indicator */}
-                {isTyping && (
+                {isTyping && !streamingContent && (
                   <div className="flex justify-start mb-4">
                     <div className="flex items-start gap-3 max-w-[85%]">
                       <div className="w-9 h-9 rounded-full bg-gradient-to-br from-emerald-500 to-teal-500 flex items-center justify-center flex-shrink-0 shadow-sm">
@@ -635,6 +707,11 @@ function App() {
                           <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
                           <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce" style={{ animationDelay: '0.4s' }}></div>
                         </div>
+                        {streamingAgents.length > 0 && (
+                          <p className="mt-2 text-xs text-gray-500">
+                            {t.consulting} {streamingAgents.join(', ')}...
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
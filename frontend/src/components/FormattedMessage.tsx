@@ -1,26 +1,125 @@
 import React from 'react';
 import { Info, Lightbulb, AlertTriangle } from 'lucide-react';
 
+// Structured answer from /api/chat and the stream's "done" event (WebAnswer on the server)
+export type AnswerBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: string[] }
+  | { type: 'callout'; kind: 'tip' | 'warning' | 'info'; text: string };
+
+export interface WebAnswer {
+  blocks: AnswerBlock[];
+  sources: string;
+  followUp: AnswerBlock[];
+}
+
 interface FormattedMessageProps {
   content: string;
   direction: 'inbound' | 'outbound';
+  answer?: WebAnswer; // Laid out from its blocks instead of parsing the markdown content
 }
 
+const processInline = (str: string): React.ReactNode => {
+  // Simple markdown formatting
+  let processed = str
+    .replace(/\*\*(.+?)\*\*/g, '<strong class="font-semibold text-gray-900">$1</strong>')
+    .replace(/(?<!\*)\*([^*]+?)\*(?!\*)/g, '<em class="italic">$1</em>')
+    .replace(/`([^`]+?)`/g, '<code class="bg-gray-100 px-1.5 py-0.5 rounded text-sm font-mono text-emerald-700">$1</code>');
+  
+  return <span dangerouslySetInnerHTML={{ __html: processed }} />;
+};
+
+// The same elements are used for markdown and for answer blocks
+const paragraph = (key: string, text: string) => (
+  <p key={key} className="mb-3 last:mb-0 leading-relaxed text-sm text-gray-800">
+    {processInline(text)}
+  </p>
+);
+
+const list = (key: string, items: React.ReactNode[]) => (
+  <div key={key} className="my-4 space-y-2">
+    {items}
+  </div>
+);
+
+const numberedItem = (key: string, num: string | number, content: string) => (
+  <div key={key} className="flex gap-3">
+    <span className="flex-shrink-0 w-6 h-6 rounded-full bg-emerald-500 text-white text-xs font-semibold flex items-center justify-center">
+      {num}
+    </span>
+    <span className="flex-1 text-sm text-gray-800 leading-relaxed">{processInline(content)}</span>
+  </div>
+);
+
+const bulletItem = (key: string, content: string) => (
+  <div key={key} className="flex gap-3">
+    <span className="flex-shrink-0 w-1.5 h-1.5 rounded-full bg-emerald-500 mt-2"></span>
+    <span className="flex-1 text-sm text-gray-800 leading-relaxed">{processInline(content)}</span>
+  </div>
+);
+
+const CALLOUTS = {
+  tip: { Icon: Lightbulb, box: 'bg-yellow-50 border-yellow-400', icon: 'text-yellow-600', text: 'text-yellow-900' },
+  warning: { Icon: AlertTriangle, box: 'bg-orange-50 border-orange-400', icon: 'text-orange-600', text: 'text-orange-900' },
+  info: { Icon: Info, box: 'bg-blue-50 border-blue-400', icon: 'text-blue-600', text: 'text-blue-900' },
+};
+
+const callout = (key: string, kind: keyof typeof CALLOUTS, content: string) => {
+  const { Icon, box, icon, text } = CALLOUTS[kind];
+  return (
+    <div key={key} className={`my-4 rounded-lg border-l-4 p-3 ${box}`}>
+      <div className="flex gap-2 items-start">
+        <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${icon}`} />
+        <div className={`text-sm leading-relaxed ${text}`}>{processInline(content)}</div>
+      </div>
+    </div>
+  );
+};
+
+const heading = (key: string, level: 2 | 3, content: string) => level === 2 ? (
+  <h2 key={key} className="text-lg font-semibold mt-4 mb-2 first:mt-0 text-gray-900">
+    {content}
+  </h2>
+) : (
+  <h3 key={key} className="text-base font-semibold mt-4 mb-2 first:mt-0 text-gray-900">
+    {content}
+  </h3>
+);
+
+// Answer blocks, already split into headings, lists and callouts by the server
+const formatBlocks = (blocks: AnswerBlock[], prefix: string): React.ReactNode[] =>
+  blocks.map((block, i) => {
+    const key = `${prefix}-${i}`;
+    switch (block.type) {
+      case 'heading':
+        return heading(key, 2, block.text);
+      case 'paragraph':
+        return paragraph(key, block.text);
+      case 'list':
+        return list(key, block.items.map((item, j) =>
+          block.ordered ? numberedItem(`${key}-${j}`, block.start + j, item) : bulletItem(`${key}-${j}`, item)
+        ));
+      case 'callout':
+        return callout(key, block.kind, block.text);
+    }
+  });
+
+const formatAnswer = (answer: WebAnswer): React.ReactNode[] => [
+  ...formatBlocks(answer.blocks, 'block'),
+  answer.sources && (
+    <p key="sources" className="mt-3 text-xs text-gray-500">
+      {answer.sources}
+    </p>
+  ),
+  ...formatBlocks(answer.followUp, 'follow-up'),
+];
+
 // Simple, clean text formatter - NO Q&A, just clean formatting
 const formatContent = (text: string): React.ReactNode[] => {
   const result: React.ReactNode[] = [];
   let keyCounter = 0;
 
-  const processInline = (str: string): React.ReactNode => {
-    // Simple markdown formatting
-    let processed = str
-      .replace(/\*\*(.+?)\*\*/g, '<strong class="font-semibold text-gray-900">$1</strong>')
-      .replace(/(?<!\*)\*([^*]+?)\*(?!\*)/g, '<em class="italic">$1</em>')
-      .replace(/`([^`]+?)`/g, '<code class="bg-gray-100 px-1.5 py-0.5 rounded text-sm font-mono text-emerald-700">$1</code>');
-    
-    return <span dangerouslySetInnerHTML={{ __html: processed }} />;
-  };
-
   const lines = text.split('\n');
   let currentParagraph: string[] = [];
   let inList = false;
@@ -31,11 +130,7 @@ const formatContent = (text: string): React.ReactNode[] => {
     if (currentParagraph.length > 0) {
       const paraText = currentParagraph.join(' ').trim();
       if (paraText) {
-        result.push(
-          <p key={`para-${keyCounter++}`} className="mb-3 last:mb-0 leading-relaxed text-sm text-gray-800">
-            {processInline(paraText)}
-          </p>
-        );
+        result.push(paragraph(`para-${keyCounter++}`, paraText));
       }
       currentParagraph = [];
     }
@@ -43,11 +138,7 @@ const formatContent = (text: string): React.ReactNode[] => {
 
   const flushList = () => {
     if (listItems.length > 0) {
-      result.push(
-        <div key={`list-${keyCounter++}`} className="my-4 space-y-2">
-          {listItems}
-        </div>
-      );
+      result.push(list(`list-${keyCounter++}`, listItems));
       listItems = [];
       inList = false;
     }
@@ -66,14 +157,7 @@ const formatContent = (text: string): React.ReactNode[] => {
         listType = 'ordered';
       }
       const [, num, content] = numberedMatch;
-      listItems.push(
-        <div key={`item-${keyCounter++}`} className="flex gap-3">
-          <span className="flex-shrink-0 w-6 h-6 rounded-full bg-emerald-500 text-white text-xs font-semibold flex items-center justify-center">
-            {num}
-          </span>
-          <span className="flex-1 text-sm text-gray-800 leading-relaxed">{processInline(content)}</span>
-        </div>
-      );
+      listItems.push(numberedItem(`item-${keyCounter++}`, num, content));
       return;
     }
 
@@ -86,12 +170,7 @@ const formatContent = (text: string): React.ReactNode[] => {
         listType = 'unordered';
       }
       const content = trimmed.replace(/^[-•]\s+/, '');
-      listItems.push(
-        <div key={`item-${keyCounter++}`} className="flex gap-3">
-          <span className="flex-shrink-0 w-1.5 h-1.5 rounded-full bg-emerald-500 mt-2"></span>
-          <span className="flex-1 text-sm text-gray-800 leading-relaxed">{processInline(content)}</span>
-        </div>
-      );
+      listItems.push(bulletItem(`item-${keyCounter++}`, content));
       return;
     }
 
@@ -100,14 +179,7 @@ const formatContent = (text: string): React.ReactNode[] => {
       flushParagraph();
       flushList();
       const content = trimmed.replace(/💡|tip:/gi, '').trim();
-      result.push(
-        <div key={`tip-${keyCounter++}`} className="my-4 rounded-lg bg-yellow-50 border-l-4 border-yellow-400 p-3">
-          <div className="flex gap-2 items-start">
-            <Lightbulb className="w-4 h-4 text-yellow-600 mt-0.5 flex-shrink-0" />
-            <div className="text-sm text-yellow-900 leading-relaxed">{processInline(content)}</div>
-          </div>
-        </div>
-      );
+      result.push(callout(`tip-${keyCounter++}`, 'tip', content));
       return;
     }
 
@@ -115,14 +187,7 @@ const formatContent = (text: string): React.ReactNode[] => {
       flushParagraph();
       flushList();
       const content = trimmed.replace(/⚠️|warning:/gi, '').trim();
-      result.push(
-        <div key={`warning-${keyCounter++}`} className="my-4 rounded-lg bg-orange-50 border-l-4 border-orange-400 p-3">
-          <div className="flex gap-2 items-start">
-            <AlertTriangle className="w-4 h-4 text-orange-600 mt-0.5 flex-shrink-0" />
-            <div className="text-sm text-orange-900 leading-relaxed">{processInline(content)}</div>
-          </div>
-        </div>
-      );
+      result.push(callout(`warning-${keyCounter++}`, 'warning', content));
       return;
     }
 
@@ -130,14 +195,7 @@ const formatContent = (text: string): React.ReactNode[] => {
       flushParagraph();
       flushList();
       const content = trimmed.replace(/ℹ️|info:/gi, '').trim();
-      result.push(
-        <div key={`info-${keyCounter++}`} className="my-4 rounded-lg bg-blue-50 border-l-4 border-blue-400 p-3">
-          <div className="flex gap-2 items-start">
-            <Info className="w-4 h-4 text-blue-600 mt-0.5 flex-shrink-0" />
-            <div className="text-sm text-blue-900 leading-relaxed">{processInline(content)}</div>
-          </div>
-        </div>
-      );
+      result.push(callout(`info-${keyCounter++}`, 'info', content));
       return;
     }
 
@@ -146,11 +204,7 @@ const formatContent = (text: string): React.ReactNode[] => {
       flushParagraph();
       flushList();
       const content = trimmed.replace(/^###\s+/, '');
-      result.push(
-        <h3 key={`h3-${keyCounter++}`} className="text-base font-semibold mt-4 mb-2 first:mt-0 text-gray-900">
-          {content}
-        </h3>
-      );
+      result.push(heading(`h3-${keyCounter++}`, 3, content));
       return;
     }
 
@@ -158,11 +212,7 @@ const formatContent = (text: string): React.ReactNode[] => {
       flushParagraph();
       flushList();
       const content = trimmed.replace(/^##\s+/, '');
-      result.push(
-        <h2 key={`h2-${keyCounter++}`} className="text-lg font-semibold mt-4 mb-2 first:mt-0 text-gray-900">
-          {content}
-        </h2>
-      );
+      result.push(heading(`h2-${keyCounter++}`, 2, content));
       return;
     }
 
@@ -181,8 +231,8 @@ const formatContent = (text: string): React.ReactNode[] => {
   return result.length > 0 ? result : [<p key="default" className="leading-relaxed text-sm text-gray-800">{text}</p>];
 };
 
-export const FormattedMessage: React.FC<FormattedMessageProps> = ({ content }) => {
-  const formatted = formatContent(content);
+export const FormattedMessage: React.FC<FormattedMessageProps> = ({ content, answer }) => {
+  const formatted = answer ? formatAnswer(answer) : formatContent(content);
   
   return (
     <div className="formatted-message">
@@ -0,0 +1,157 @@
+import { Express, Request, Response } from 'express';
+import { requireAdmin } from '../middleware/admin-auth';
+import { ZodError } from 'zod';
+import { jobQueue } from '../utils/job-queue';
+import { alertScheduler, AlertRun, SCHEDULED_ALERT_TYPES } from '../services/alert-scheduler';
+import { ScheduledAlertType } from '../services/alerts';
+import { outbreakService } from '../services/outbreaks';
+import { OutbreakInputSchema, OutbreakUpdateSchema } from '../models/outbreak';
+import { pestSightingService } from '../services/pest-sightings';
+import { findCounty } from '../utils/counties';
+import { logger } from '../utils/logger';
+
+/**
+ * Operator endpoints (X-Admin-Key required)
+ */
+export function setupAdminRoutes(app: Express): void {
+  // Webhook job queue sizes
+  app.get('/api/admin/queue', requireAdmin, async (_req: Request, res: Response) => {
+    try {
+      res.json(await jobQueue.getStats());
+    } catch (error) {
+      logger.error('Error getting queue stats:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Jobs that failed every attempt, most recent first
+  app.get('/api/admin/queue/dead-letters', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(parseInt(String(req.query.limit || '50')) || 50, 200);
+      res.json({ jobs: await jobQueue.getDeadLetters(limit) });
+    } catch (error) {
+      logger.error('Error listing dead letters:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Run alert checks now, e.g. from Cloud Scheduler (?type=weather, pest or market; all by default)
+  app.post('/api/admin/alerts/run', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const requested = req.query.type || req.body?.type;
+      const type = SCHEDULED_ALERT_TYPES.find(alertType => alertType === requested);
+      if (requested && !type) {
+        res.status(400).json({ error: `Unknown alert type: ${requested}`, types: SCHEDULED_ALERT_TYPES });
+        return;
+      }
+
+      const types = type ? [type] : SCHEDULED_ALERT_TYPES;
+      const runs: AlertRun[] = [];
+      const alreadyRunning: ScheduledAlertType[] = [];
+      for (const alertType of types) {
+        const run = await alertScheduler.run(alertType, 'http');
+        if (run) {
+          runs.push(run);
+        } else {
+          alreadyRunning.push(alertType);
+        }
+      }
+      res.status(runs.length > 0 ? 200 : 409).json({ runs, alreadyRunning });
+    } catch (error) {
+      logger.error('Error running alert checks:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Alert check history, newest first (?type=weather, ?limit=50)
+  app.get('/api/admin/alerts/runs', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(parseInt(String(req.query.limit || '50')) || 50, 200);
+      const type = SCHEDULED_ALERT_TYPES.find(alertType => alertType === req.query.type);
+      res.json({ runs: await alertScheduler.listRuns(limit, type) });
+    } catch (error) {
+      logger.error('Error listing alert runs:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Declared pest and disease outbreaks, newest first (?status=active or expired)
+  app.get('/api/admin/outbreaks', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const status = req.query.status === 'active' || req.query.status === 'expired' ? req.query.status : undefined;
+      res.json({ outbreaks: await outbreakService.list(status) });
+    } catch (error) {
+      logger.error('Error listing outbreaks:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Declare an outbreak; farmers growing its crops in its counties are alerted until it expires
+  app.post('/api/admin/outbreaks', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const parsed = OutbreakInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ error: 'Invalid outbreak', issues: formatIssues(parsed.error) });
+        return;
+      }
+      res.status(201).json(await outbreakService.create(parsed.data));
+    } catch (error) {
+      logger.error('Error creating outbreak:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.patch('/api/admin/outbreaks/:id', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const parsed = OutbreakUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ error: 'Invalid outbreak update', issues: formatIssues(parsed.error) });
+        return;
+      }
+      const outbreak = await outbreakService.update(req.params.id, parsed.data);
+      if (!outbreak) {
+        res.status(404).json({ error: 'Outbreak not found' });
+        return;
+      }
+      res.json(outbreak);
+    } catch (error) {
+      logger.error('Error updating outbreak:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // End an outbreak before its validUntil date
+  app.post('/api/admin/outbreaks/:id/expire', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const outbreak = await outbreakService.expire(req.params.id);
+      if (!outbreak) {
+        res.status(404).json({ error: 'Outbreak not found' });
+        return;
+      }
+      res.json(outbreak);
+    } catch (error) {
+      logger.error('Error expiring outbreak:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Pests farmers reported, newest first (?days=30, ?county=Nakuru)
+  app.get('/api/admin/pest-sightings', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const days = Math.min(parseInt(String(req.query.days || '30')) || 30, 365);
+      const county = req.query.county ? findCounty(String(req.query.county)) : undefined;
+      if (county === null) {
+        res.status(400).json({ error: `Unknown county: ${req.query.county}` });
+        return;
+      }
+      res.json({ sightings: await pestSightingService.list(days, county) });
+    } catch (error) {
+      logger.error('Error listing pest sightings:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+}
+
+function formatIssues(error: ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`);
+}
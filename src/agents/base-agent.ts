@@ -4,6 +4,15 @@ import { ragService } from '../rag/service';
 import { QueryAnalyzer } from '../utils/query-analyzer';
 import { InputValidator } from '../utils/input-validator';
 import { logger } from '../utils/logger';
+import { Citation } from '../models/citation';
+import { dedupeCitations } from '../utils/citations';
+import { TokenHandler } from '../llm';
+import { SMS_ANSWER_LENGTH } from '../formatting';
+
+export interface AgentAnswer {
+  response: string;
+  citations: Citation[]; // Sources the agent used on top of the retrieved knowledge base documents
+}
 
 export abstract class BaseAgent {
   abstract name: string;
@@ -12,7 +21,8 @@ export abstract class BaseAgent {
   async process(
     query: string, 
     context: UserContext,
-    conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
+    conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>,
+    onToken?: TokenHandler
   ): Promise<AgentResponse> {
     try {
       // Validate and sanitize input
@@ -23,6 +33,7 @@ export abstract class BaseAgent {
           agent: this.name,
           response: 'I apologize, but I couldn\'t understand your question. Could you please rephrase it?',
           confidence: 0,
+          citations: [],
           metadata: { errors: validation.errors },
         };
       }
@@ -34,20 +45,22 @@ export abstract class BaseAgent {
       const queryAnalysis = QueryAnalyzer.analyze(normalizedQuery);
       
       // Retrieve relevant context from RAG
-      const relevantDocs = await ragService.retrieve(normalizedQuery, {
+      const retrievedDocs = await ragService.retrieveDocuments(normalizedQuery, {
         crop: context.crop,
         region: context.region || context.user.county,
         soilType: context.soilType || context.user.soilType,
         farmStage: context.farmStage,
       });
+      const relevantDocs = retrievedDocs.map(doc => doc.text);
       
       // Generate response using agent-specific logic with conversation context
-      const response = await this.generateResponse(
+      const answer = await this.generateResponse(
         normalizedQuery, 
         context, 
         relevantDocs, 
         conversationHistory,
-        queryAnalysis
+        queryAnalysis,
+        onToken
       );
       
       // Calculate improved confidence
@@ -55,8 +68,12 @@ export abstract class BaseAgent {
       
       return {
         agent: this.name,
-        response,
+        response: answer.response,
         confidence,
+        citations: dedupeCitations([
+          ...answer.citations,
+          ...retrievedDocs.flatMap(doc => doc.citations),
+        ]),
         metadata: {
           retrievedDocs: relevantDocs.length,
           queryComplexity: queryAnalysis.complexity,
@@ -70,6 +87,7 @@ export abstract class BaseAgent {
         agent: this.name,
         response: 'I apologize, but I encountered an error processing your question. Please try again.',
         confidence: 0,
+        citations: [],
         metadata: { error: true },
       };
     }
@@ -80,8 +98,28 @@ export abstract class BaseAgent {
     context: UserContext,
     relevantDocs: string[],
     conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>,
-    queryAnalysis?: ReturnType<typeof QueryAnalyzer.analyze>
-  ): Promise<string>;
+    queryAnalysis?: ReturnType<typeof QueryAnalyzer.analyze>,
+    onToken?: TokenHandler
+  ): Promise<AgentAnswer>;
+  
+  /**
+   * Agents always answer in English: AgentOrchestrator translates the combined answer once, into
+   * the language the farmer is answered in for this message
+   */
+  protected formatLanguageInstruction(): string {
+    return 'Respond in English';
+  }
+  
+  /**
+   * Closing prompt instructions for channels that cannot show a full answer ('' otherwise)
+   */
+  protected formatChannelInstructions(context: UserContext): string {
+    if (context.channel !== 'sms') return '';
+    
+    return `
+
+SMS REPLY: The farmer is reading this by SMS on a basic phone. Ignore the formatting instructions above and answer in at most ${SMS_ANSWER_LENGTH} characters of plain text: no headings, bold, tables or emoji. Put the single most important action first, with quantities.`;
+  }
   
   protected calculateConfidence(
     _query: string, 
@@ -1,9 +1,12 @@
-import { BaseAgent } from './base-agent';
+import { BaseAgent, AgentAnswer } from './base-agent';
 import { UserContext } from '../models/user';
 import { generateText } from '../utils/genkit-helper';
 import { logger } from '../utils/logger';
+import { TokenHandler } from '../llm';
+import { QueryAnalysis } from '../utils/query-analyzer';
 import { weatherService } from '../services/weather';
 import { climateAlertSystemInstructions } from './system-instructions';
+import { conversationMemoryService } from '../services/conversation-memory';
 
 export class ClimateAlertAgent extends BaseAgent {
   name = 'Climate Alert';
@@ -13,8 +16,10 @@ export class ClimateAlertAgent extends BaseAgent {
     query: string,
     context: UserContext,
     relevantDocs: string[],
-    conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
-  ): Promise<string> {
+    conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>,
+    _queryAnalysis?: QueryAnalysis,
+    onToken?: TokenHandler
+  ): Promise<AgentAnswer> {
     try {
       const region = context.region || context.user.county || 'Nairobi';
       const locationContext = context.coordinates 
@@ -25,6 +30,7 @@ export class ClimateAlertAgent extends BaseAgent {
       
       // Get real-time weather data
       const weatherData = await weatherService.getForecast(region);
+      const citations = weatherService.citeForecast(weatherData);
       
       const prompt = `FARMER CONTEXT:
 - Location: ${locationContext}
@@ -38,7 +44,7 @@ ${relevantDocs.length > 0 ? relevantDocs.join('\n\n') : 'General agricultural kn
 
 FARMER'S QUESTION: "${query}"
 
-${conversationHistory && conversationHistory.length > 0 ? `CONVERSATION CONTEXT:
+${conversationMemoryService.formatForPrompt(context.user)}${conversationHistory && conversationHistory.length > 0 ? `CONVERSATION CONTEXT:
 ${conversationHistory.slice(-3).map(msg => `${msg.role === 'user' ? 'Farmer' : 'You'}: ${msg.content}`).join('\n')}
 
 Use this context to understand if this is a follow-up about weather or farming timing.
@@ -62,7 +68,7 @@ Format your response with:
 - Alerts for extreme conditions
 - Seasonal advice
 
-Respond in ${context.user.preferredLanguage === 'sw' ? 'Kiswahili' : 'English'} with clear, well-structured advice.`;
+${this.formatLanguageInstruction()} with clear, well-structured advice.${this.formatChannelInstructions(context)}`;
 
       // Disable cache if conversation history exists (conversational context)
       const useCache = !conversationHistory || conversationHistory.length === 0;
@@ -71,12 +77,16 @@ Respond in ${context.user.preferredLanguage === 'sw' ? 'Kiswahili' : 'English'}
         'gemini-2.0-flash-exp', 
         useCache, 
         climateAlertSystemInstructions,
-        0.2
+        0.2,
+        onToken
       );
-      return response;
+      return { response, citations };
     } catch (error) {
       logger.error('Error in climate alert agent:', error);
-      return 'I apologize, but I encountered an error getting weather information. Please try again later.';
+      return {
+        response: 'I apologize, but I encountered an error getting weather information. Please try again later.',
+        citations: [],
+      };
     }
   }
 }
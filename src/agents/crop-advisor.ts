@@ -1,11 +1,14 @@
-import { BaseAgent } from './base-agent';
+import { BaseAgent, AgentAnswer } from './base-agent';
 import { UserContext } from '../models/user';
 import { generateText } from '../utils/genkit-helper';
 import { logger } from '../utils/logger';
+import { TokenHandler } from '../llm';
 import { dataSourceService } from '../services/data-source';
 import { soilService } from '../services/soil';
 import { cropAdvisorSystemInstructions } from './system-instructions';
 import { QueryAnalyzer } from '../utils/query-analyzer';
+import { Citation } from '../models/citation';
+import { conversationMemoryService } from '../services/conversation-memory';
 
 export class CropAdvisorAgent extends BaseAgent {
   name = 'Crop Advisor';
@@ -16,23 +19,29 @@ export class CropAdvisorAgent extends BaseAgent {
     context: UserContext,
     relevantDocs: string[],
     conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>,
-    queryAnalysis?: ReturnType<typeof QueryAnalyzer.analyze>
-  ): Promise<string> {
+    queryAnalysis?: ReturnType<typeof QueryAnalyzer.analyze>,
+    onToken?: TokenHandler
+  ): Promise<AgentAnswer> {
     try {
       const crop = context.crop || context.user.crops[0] || 'general crops';
       const region = context.region || context.user.county || 'Kenya';
       const soilType = context.soilType || context.user.soilType || 'unknown';
+      const citations: Citation[] = [];
       
       // Get planting calendar and soil tips from data sources
       const plantingCalendar = dataSourceService.getPlantingCalendar(region);
       const calendarInfo = plantingCalendar 
         ? dataSourceService.formatPlantingCalendar(plantingCalendar)
         : '';
+      if (plantingCalendar) {
+        citations.push(...dataSourceService.citePlantingCalendars([plantingCalendar]));
+      }
       
       const soilTips = dataSourceService.getSoilTips();
       const soilInfo = soilTips.length > 0 
         ? dataSourceService.formatSoilTips(soilTips)
         : '';
+      citations.push(...dataSourceService.citeSoilTips(soilTips));
 
       // Get real-time soil data from ISRIC SoilGrids API (with timeout)
       let soilDataInfo = '';
@@ -53,6 +62,7 @@ export class CropAdvisorAgent extends BaseAgent {
           const soilProperties = await Promise.race([soilPromise, timeoutPromise]) as any;
           const recommendations = soilService.getRecommendations(soilProperties, crop);
           soilDataInfo = soilService.formatForPrompt(soilProperties, recommendations);
+          citations.push(...soilService.citeSoilProperties(soilProperties));
         } catch (error) {
           logger.warn('Could not fetch soil data from ISRIC, using local data only:', error);
           // Continue without soil data - not critical
@@ -82,7 +92,7 @@ ${relevantDocs.length > 0 ? `ADDITIONAL KNOWLEDGE BASE:\n${relevantDocs.join('\n
 
 FARMER'S QUESTION: "${query}"
 
-${conversationHistory && conversationHistory.length > 0 ? `CONVERSATION CONTEXT:
+${conversationMemoryService.formatForPrompt(context.user)}${conversationHistory && conversationHistory.length > 0 ? `CONVERSATION CONTEXT:
 ${conversationHistory.slice(-3).map(msg => `${msg.role === 'user' ? 'Farmer' : 'You'}: ${msg.content}`).join('\n')}
 
 Use this conversation history to:
@@ -118,7 +128,7 @@ ${queryAnalysis?.complexity === 'simple' ? 'Format: Brief, friendly response (2-
 - Specific recommendations
 - Encouraging and supportive tone`}
 
-Respond in ${context.user.preferredLanguage === 'sw' ? 'Kiswahili' : 'English'} with clear, well-structured advice.`;
+${this.formatLanguageInstruction()} with clear, well-structured advice.${this.formatChannelInstructions(context)}`;
 
       // Disable cache if conversation history exists (conversational context)
       const useCache = !conversationHistory || conversationHistory.length === 0;
@@ -127,12 +137,16 @@ Respond in ${context.user.preferredLanguage === 'sw' ? 'Kiswahili' : 'English'}
         'gemini-2.0-flash-exp', 
         useCache, 
         cropAdvisorSystemInstructions,
-        0.2 // Lower temperature for more focused, consistent responses
+        0.2, // Lower temperature for more focused, consistent responses
+        onToken
       );
-      return response;
+      return { response, citations };
     } catch (error) {
       logger.error('Error in crop advisor agent:', error);
-      return 'I apologize, but I encountered an error processing your crop question. Please try rephrasing or contact an extension officer.';
+      return {
+        response: 'I apologize, but I encountered an error processing your crop question. Please try rephrasing or contact an extension officer.',
+        citations: [],
+      };
     }
   }
 }
@@ -1,7 +1,10 @@
-import { BaseAgent } from './base-agent';
+import { BaseAgent, AgentAnswer } from './base-agent';
 import { UserContext } from '../models/user';
 import { generateText } from '../utils/genkit-helper';
 import { logger } from '../utils/logger';
+import { TokenHandler } from '../llm';
+import { QueryAnalysis } from '../utils/query-analyzer';
+import { conversationMemoryService } from '../services/conversation-memory';
 
 export class ExtensionSupportAgent extends BaseAgent {
   name = 'Extension Officer Support';
@@ -11,8 +14,10 @@ export class ExtensionSupportAgent extends BaseAgent {
     query: string,
     context: UserContext,
     relevantDocs: string[],
-    conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
-  ): Promise<string> {
+    conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>,
+    _queryAnalysis?: QueryAnalysis,
+    onToken?: TokenHandler
+  ): Promise<AgentAnswer> {
     try {
       // Check if this is a simple query that doesn't need detailed response
       const isSimpleQuery = query.toLowerCase().trim().length < 30 && 
@@ -26,7 +31,7 @@ ${relevantDocs.join('\n\n')}
 
 Extension Officer Question: ${query}
 
-${conversationHistory && conversationHistory.length > 0 ? `CONVERSATION CONTEXT:
+${conversationMemoryService.formatForPrompt(context.user)}${conversationHistory && conversationHistory.length > 0 ? `CONVERSATION CONTEXT:
 ${conversationHistory.slice(-3).map(msg => `${msg.role === 'user' ? 'Extension Officer' : 'You'}: ${msg.content}`).join('\n')}
 
 Use this context to understand if this is a follow-up question.
@@ -50,7 +55,7 @@ ${isSimpleQuery ? '' : `Format your response with:
 - Training materials suggestions
 - Contact information for specialized support
 
-`}Respond in ${context.user.preferredLanguage === 'sw' ? 'Kiswahili' : 'English'}.`;
+`}${this.formatLanguageInstruction()}.${this.formatChannelInstructions(context)}`;
 
       // Disable cache if conversation history exists (conversational context)
       const useCache = !conversationHistory || conversationHistory.length === 0;
@@ -59,12 +64,16 @@ ${isSimpleQuery ? '' : `Format your response with:
         'gemini-2.0-flash-exp', 
         useCache, 
         undefined, // No system instructions for extension support (general purpose)
-        0.2
+        0.2,
+        onToken
       );
-      return response;
+      return { response, citations: [] };
     } catch (error) {
       logger.error('Error in extension support agent:', error);
-      return 'I apologize, but I encountered an error. Please contact the KALRO support team.';
+      return {
+        response: 'I apologize, but I encountered an error. Please contact the KALRO support team.',
+        citations: [],
+      };
     }
   }
 }
@@ -1,9 +1,12 @@
-import { BaseAgent } from './base-agent';
+import { BaseAgent, AgentAnswer } from './base-agent';
 import { UserContext } from '../models/user';
 import { generateText } from '../utils/genkit-helper';
 import { logger } from '../utils/logger';
+import { TokenHandler } from '../llm';
+import { QueryAnalysis } from '../utils/query-analyzer';
 import { dataSourceService } from '../services/data-source';
 import { livestockHealthSystemInstructions } from './system-instructions';
+import { conversationMemoryService } from '../services/conversation-memory';
 
 export class LivestockHealthAgent extends BaseAgent {
   name = 'Livestock Health';
@@ -13,8 +16,10 @@ export class LivestockHealthAgent extends BaseAgent {
     query: string,
     context: UserContext,
     relevantDocs: string[],
-    conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
-  ): Promise<string> {
+    conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>,
+    _queryAnalysis?: QueryAnalysis,
+    onToken?: TokenHandler
+  ): Promise<AgentAnswer> {
     try {
       const livestock = context.user.livestock.join(', ') || 'livestock';
       const region = context.region || context.user.county || 'Kenya';
@@ -24,6 +29,7 @@ export class LivestockHealthAgent extends BaseAgent {
       const diseaseInfo = diseaseData.length > 0 
         ? dataSourceService.formatLivestockDiseaseData(diseaseData)
         : '';
+      const citations = dataSourceService.citeLivestockDiseases(diseaseData);
 
       const locationContext = context.coordinates 
         ? `User's exact location: ${context.coordinates.lat}, ${context.coordinates.lon}`
@@ -44,7 +50,7 @@ ${relevantDocs.length > 0 ? relevantDocs.join('\n\n') : 'General livestock healt
 
 FARMER'S QUESTION: "${query}"
 
-${conversationHistory && conversationHistory.length > 0 ? `CONVERSATION CONTEXT:
+${conversationMemoryService.formatForPrompt(context.user)}${conversationHistory && conversationHistory.length > 0 ? `CONVERSATION CONTEXT:
 ${conversationHistory.slice(-3).map(msg => `${msg.role === 'user' ? 'Farmer' : 'You'}: ${msg.content}`).join('\n')}
 
 Use this context to understand if this is a follow-up about a previously discussed livestock issue.
@@ -74,7 +80,7 @@ Format your response with:
 - Management practices
 - When to consult a vet
 
-Respond in ${context.user.preferredLanguage === 'sw' ? 'Kiswahili' : 'English'} with clear, well-structured advice.`;
+${this.formatLanguageInstruction()} with clear, well-structured advice.${this.formatChannelInstructions(context)}`;
 
       // Disable cache if conversation history exists (conversational context)
       const useCache = !conversationHistory || conversationHistory.length === 0;
@@ -83,12 +89,16 @@ Respond in ${context.user.preferredLanguage === 'sw' ? 'Kiswahili' : 'English'}
         'gemini-2.0-flash-exp', 
         useCache, 
         livestockHealthSystemInstructions,
-        0.2
+        0.2,
+        onToken
       );
-      return response;
+      return { response, citations };
     } catch (error) {
       logger.error('Error in livestock health agent:', error);
-      return 'I apologize, but I encountered an error processing your livestock question. Please try rephrasing or contact a veterinary officer.';
+      return {
+        response: 'I apologize, but I encountered an error processing your livestock question. Please try rephrasing or contact a veterinary officer.',
+        citations: [],
+      };
     }
   }
 }
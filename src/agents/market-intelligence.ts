@@ -1,10 +1,14 @@
-import { BaseAgent } from './base-agent';
+import { BaseAgent, AgentAnswer } from './base-agent';
 import { UserContext } from '../models/user';
 import { generateText } from '../utils/genkit-helper';
 import { logger } from '../utils/logger';
+import { TokenHandler } from '../llm';
+import { QueryAnalysis } from '../utils/query-analyzer';
 import { marketService } from '../services/market';
 import { faostatService } from '../services/faostat';
 import { marketIntelligenceSystemInstructions } from './system-instructions';
+import { Citation } from '../models/citation';
+import { conversationMemoryService } from '../services/conversation-memory';
 
 export class MarketIntelligenceAgent extends BaseAgent {
   name = 'Market Intelligence';
@@ -14,14 +18,17 @@ export class MarketIntelligenceAgent extends BaseAgent {
     query: string,
     context: UserContext,
     relevantDocs: string[],
-    conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
-  ): Promise<string> {
+    conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>,
+    _queryAnalysis?: QueryAnalysis,
+    onToken?: TokenHandler
+  ): Promise<AgentAnswer> {
     try {
       const crop = context.crop || context.user.crops[0];
       const region = context.region || context.user.county || 'Kenya';
       
       // Get market prices from local service
       const marketData = crop ? await marketService.getPrices(crop, region) : null;
+      const citations: Citation[] = marketData ? marketService.citePrices(marketData) : [];
       
       // Get FAOSTAT agricultural statistics
       let faostatData = '';
@@ -33,6 +40,7 @@ export class MarketIntelligenceAgent extends BaseAgent {
         const allData = [...cropProduction, ...cropYield, ...marketPrices];
         if (allData.length > 0) {
           faostatData = faostatService.formatForPrompt(allData);
+          citations.push(...faostatService.citeData(allData));
         }
       } catch (error) {
         logger.warn('Could not fetch FAOSTAT data:', error);
@@ -58,7 +66,7 @@ ${relevantDocs.length > 0 ? relevantDocs.join('\n\n') : 'General market knowledg
 
 FARMER'S QUESTION: "${query}"
 
-${conversationHistory && conversationHistory.length > 0 ? `CONVERSATION CONTEXT:
+${conversationMemoryService.formatForPrompt(context.user)}${conversationHistory && conversationHistory.length > 0 ? `CONVERSATION CONTEXT:
 ${conversationHistory.slice(-3).map(msg => `${msg.role === 'user' ? 'Farmer' : 'You'}: ${msg.content}`).join('\n')}
 
 Use this context to understand if this is a follow-up about market prices or selling strategies.
@@ -84,7 +92,7 @@ Format your response with:
 - Value addition opportunities
 - Practical trading advice
 
-Respond in ${context.user.preferredLanguage === 'sw' ? 'Kiswahili' : 'English'} with clear, well-structured advice.`;
+${this.formatLanguageInstruction()} with clear, well-structured advice.${this.formatChannelInstructions(context)}`;
 
       // Disable cache if conversation history exists (conversational context)
       const useCache = !conversationHistory || conversationHistory.length === 0;
@@ -93,12 +101,16 @@ Respond in ${context.user.preferredLanguage === 'sw' ? 'Kiswahili' : 'English'}
         'gemini-2.0-flash-exp', 
         useCache, 
         marketIntelligenceSystemInstructions,
-        0.2
+        0.2,
+        onToken
       );
-      return response;
+      return { response, citations };
     } catch (error) {
       logger.error('Error in market intelligence agent:', error);
-      return 'I apologize, but I encountered an error getting market information. Please try again later.';
+      return {
+        response: 'I apologize, but I encountered an error getting market information. Please try again later.',
+        citations: [],
+      };
     }
   }
 }
@@ -0,0 +1,160 @@
+import { agentOrchestrator, OrchestratorEvent } from './orchestrator';
+import { livestockHealthAgent } from './livestock-health';
+import { stubProvider } from '../llm';
+import { UserContext } from '../models/user';
+
+const QUESTION = 'Where can extension officers get training materials on soil testing?';
+const ANSWER = 'Visit the county agriculture office for training materials.';
+const ANSWER_SW = 'Tembelea ofisi ya kilimo ya kaunti upate vifaa vya mafunzo.';
+const ANSWER_KI = 'Thii ofisi ya urimi ya kaunti ugure indo cia githomo.';
+// Covers extension and livestock, so two agents answer
+const DAIRY_QUESTION = 'Where can I get training on keeping dairy cattle?';
+const DAIRY_ANSWER = 'Zero-grazed dairy cattle need clean water at all times.';
+
+const context = {
+  user: {
+    id: 'farmer-1',
+    phoneNumber: '+254700000001',
+    county: 'Nakuru',
+    crops: [],
+    livestock: [],
+    preferredLanguage: 'en',
+  },
+  channel: 'web',
+} as unknown as UserContext;
+
+describe('AgentOrchestrator with the stub LLM provider', () => {
+  const provider = process.env.LLM_PROVIDER;
+
+  beforeAll(() => {
+    process.env.LLM_PROVIDER = 'stub';
+    stubProvider.setScript([
+      { match: '^Translate from Kiswahili to English', response: QUESTION },
+      { match: '^Translate from English to Kiswahili', response: ANSWER_SW },
+      { match: '^Translate from Kikuyu to English', response: QUESTION },
+      { match: '^Translate from English to Kikuyu', response: ANSWER_KI },
+      { match: 'intent classifier[\\s\\S]*dairy cattle', response: '[{"intent": "extension", "score": 0.9}, {"intent": "livestock", "score": 0.8}]' },
+      { match: 'intent classifier', response: '[{"intent": "extension", "score": 0.9}, {"intent": "market", "score": 0.2}]' },
+      { match: 'supporting agricultural extension officers', response: ANSWER },
+      { match: 'LIVESTOCK DISEASE DATABASE', response: DAIRY_ANSWER },
+    ]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    // Assigning undefined would store the string "undefined"
+    if (provider === undefined) {
+      delete process.env.LLM_PROVIDER;
+    } else {
+      process.env.LLM_PROVIDER = provider;
+    }
+  });
+
+  it('routes the question to the classified agent and streams its answer', async () => {
+    const events: OrchestratorEvent[] = [];
+    const result = await agentOrchestrator.processQueryWithSources(
+      QUESTION,
+      context,
+      [],
+      'en',
+      event => events.push(event)
+    );
+
+    expect(result).toEqual({
+      response: ANSWER,
+      agents: ['Extension Officer Support'],
+      citations: [],
+    });
+    expect(events[0]).toEqual({
+      type: 'intents',
+      intents: [{ intent: 'extension', score: 0.9 }, { intent: 'market', score: 0.2 }],
+    });
+    // The low-scoring market intent does not get an agent of its own
+    expect(events[1]).toEqual({ type: 'agents', agents: ['Extension Officer Support'] });
+    const streamed = events.flatMap(event => event.type === 'token' ? [event.text] : []).join('');
+    expect(streamed).toBe(result.response);
+  });
+
+  describe('with several agents', () => {
+    const streamedFor = async (question: string) => {
+      const events: OrchestratorEvent[] = [];
+      const result = await agentOrchestrator.processQueryWithSources(question, context, [], 'en', event => events.push(event));
+      return { result, streamed: events.flatMap(event => event.type === 'token' ? [event.text] : []).join('') };
+    };
+
+    it('streams the answer with a heading per agent', async () => {
+      const { result, streamed } = await streamedFor(DAIRY_QUESTION);
+
+      expect(result.response).toBe(`## Extension Officer Support\n\n${ANSWER}\n\n## Livestock Health\n\n${DAIRY_ANSWER}`);
+      expect(streamed).toBe(result.response);
+    });
+
+    it('streams no heading when only the primary agent answers', async () => {
+      jest.spyOn(livestockHealthAgent, 'process').mockResolvedValue({
+        agent: livestockHealthAgent.name,
+        response: 'I apologize, but I encountered an error processing your question. Please try again.',
+        confidence: 0,
+        citations: [],
+      });
+      const { result, streamed } = await streamedFor(DAIRY_QUESTION);
+
+      expect(result.response).toBe(ANSWER);
+      expect(streamed).toBe(ANSWER);
+    });
+  });
+
+  describe('answer language', () => {
+    // Prompts sent to the model, in order
+    const prompts = () => generate.mock.calls.map(([request]) => request.prompt);
+    let generate: jest.SpyInstance<ReturnType<typeof stubProvider.generate>, Parameters<typeof stubProvider.generate>>;
+
+    beforeEach(() => {
+      generate = jest.spyOn(stubProvider, 'generate');
+    });
+
+    const withPreference = (preferredLanguage: string) =>
+      ({ ...context, user: { ...context.user, preferredLanguage } }) as UserContext;
+
+    it('answers in English when a farmer who prefers Kiswahili writes in English', async () => {
+      const result = await agentOrchestrator.processQueryWithSources(QUESTION, withPreference('sw'), [], 'en');
+
+      expect(result.response).toBe(ANSWER);
+      expect(prompts().filter(prompt => prompt.startsWith('Translate'))).toEqual([]);
+      expect(prompts().find(prompt => prompt.includes('supporting agricultural extension officers'))).toContain('Respond in English');
+    });
+
+    it('translates the English answer once when a farmer who prefers English writes in Kiswahili', async () => {
+      const result = await agentOrchestrator.processQueryWithSources(
+        'Maafisa wa ugani wanapata wapi vifaa vya mafunzo?',
+        withPreference('en'),
+        [],
+        'sw'
+      );
+
+      expect(result.response).toBe(ANSWER_SW);
+      expect(prompts().filter(prompt => prompt.startsWith('Translate from English'))).toEqual([
+        `Translate from English to Kiswahili:\n\n${ANSWER}`,
+      ]);
+      expect(prompts().find(prompt => prompt.includes('supporting agricultural extension officers'))).toContain('Respond in English');
+    });
+
+    it('translates once into a language the model may not write well, with its fallbacks', async () => {
+      const result = await agentOrchestrator.processQueryWithSources(
+        'Arimi a ugani mangiona kuu indo cia githomo?',
+        withPreference('ki'),
+        [],
+        'ki'
+      );
+
+      expect(result.response).toBe(ANSWER_KI);
+      const translations = generate.mock.calls.filter(([request]) => request.prompt.startsWith('Translate from English'));
+      expect(translations).toHaveLength(1);
+      expect(translations[0][0].prompt).toBe(`Translate from English to Kikuyu:\n\n${ANSWER}`);
+      expect(translations[0][0].systemInstructions).toContain('If you cannot write Kikuyu well, translate into Kiswahili');
+      expect(prompts().find(prompt => prompt.includes('supporting agricultural extension officers'))).toContain('Respond in English');
+    });
+  });
+});
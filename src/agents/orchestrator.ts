@@ -6,16 +6,58 @@ import { climateAlertAgent } from './climate-alert';
 import { marketIntelligenceAgent } from './market-intelligence';
 import { extensionSupportAgent } from './extension-support';
 import { translationAgent } from './translation';
+import { BaseAgent } from './base-agent';
 import { generateText } from '../utils/genkit-helper';
 import { logger } from '../utils/logger';
+import { Citation } from '../models/citation';
+import { dedupeCitations } from '../utils/citations';
+import { hasOwnMessage, t } from '../languages';
 
 export interface AgentResponse {
   agent: string;
   response: string;
   confidence: number;
+  citations: Citation[]; // Knowledge sources the agent actually used
   metadata?: Record<string, any>;
 }
 
+export type IntentCategory = 'greeting' | 'crop' | 'livestock' | 'pest' | 'weather' | 'market' | 'extension';
+
+export interface IntentScore {
+  intent: IntentCategory;
+  score: number; // 0-1, higher means more relevant
+}
+
+const VALID_INTENTS: IntentCategory[] = ['greeting', 'crop', 'livestock', 'pest', 'weather', 'market', 'extension'];
+
+// Agent responsible for each agricultural intent
+const INTENT_AGENTS: Record<Exclude<IntentCategory, 'greeting'>, BaseAgent> = {
+  crop: cropAdvisorAgent,
+  livestock: livestockHealthAgent,
+  pest: pestDetectionAgent,
+  weather: climateAlertAgent,
+  market: marketIntelligenceAgent,
+  extension: extensionSupportAgent,
+};
+
+// Secondary intents below this score are not worth an extra agent call
+const MIN_INTENT_SCORE = 0.4;
+const MAX_PARALLEL_AGENTS = 3;
+
+// Progress events for streaming clients, emitted in this order
+export type OrchestratorEvent =
+  | { type: 'intents'; intents: IntentScore[] }
+  | { type: 'agents'; agents: string[] }
+  | { type: 'token'; text: string };
+
+export type OrchestratorEventHandler = (event: OrchestratorEvent) => void;
+
+export interface OrchestratorResult {
+  response: string;
+  agents: string[]; // Agents that contributed to the response
+  citations: Citation[];
+}
+
 export class AgentOrchestrator {
   async processQuery(
     query: string, 
@@ -23,83 +65,98 @@ export class AgentOrchestrator {
     conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>,
     language: string = 'en'
   ): Promise<string> {
+    const result = await this.processQueryWithSources(query, context, conversationHistory, language);
+    return result.response;
+  }
+
+  /**
+   * Same as processQuery, but also reports which agents answered and the sources they used.
+   * When onEvent is given, intent classification, agent selection and answer tokens are
+   * reported as they happen; the returned response is the final, authoritative text.
+   */
+  async processQueryWithSources(
+    query: string, 
+    context: UserContext,
+    conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>,
+    language: string = 'en',
+    onEvent?: OrchestratorEventHandler
+  ): Promise<OrchestratorResult> {
+    const emitToken = onEvent ? (text: string) => onEvent({ type: 'token', text }) : undefined;
+    
     try {
       // Handle simple greetings and casual conversation first
       const normalizedQuery = query.toLowerCase().trim();
       if (this.isGreeting(normalizedQuery)) {
-        const greeting = this.handleGreeting(context, conversationHistory);
-        // Translate greeting if Swahili
-        if (language === 'sw') {
-          return await translationAgent.translate(greeting, 'en', 'sw');
-        }
-        return greeting;
+        return { response: await this.greet(conversationHistory, language, emitToken), agents: [], citations: [] };
       }
       
-      // If language is Swahili, translate query to English for processing
+      // Agents work in English, so translate other languages first
       let processedQuery = query;
-      if (language === 'sw') {
-        processedQuery = await translationAgent.translate(query, 'sw', 'en');
-        logger.info(`Translated query from Swahili: "${query}" -> "${processedQuery}"`);
+      if (language !== 'en') {
+        processedQuery = await translationAgent.translate(query, language, 'en');
+        logger.info(`Translated query from ${language}: "${query}" -> "${processedQuery}"`);
       }
       
-      // Classify intent with AI (with conversation context) - use translated query
-      const intent = await this.classifyIntent(processedQuery, context, conversationHistory);
-      
-      // Route to appropriate agent(s)
-      const agentResponses: AgentResponse[] = [];
+      // Classify intents with AI (with conversation context) - use translated query
+      const intents = await this.classifyIntent(processedQuery, context, conversationHistory);
+      onEvent?.({ type: 'intents', intents });
       
       // Handle greeting separately (already handled above, but double-check)
-      if (intent === 'greeting') {
-        const greeting = this.handleGreeting(context, conversationHistory);
-        if (language === 'sw') {
-          return await translationAgent.translate(greeting, 'en', 'sw');
-        }
-        return greeting;
+      if (intents[0]?.intent === 'greeting') {
+        return { response: await this.greet(conversationHistory, language, emitToken), agents: [], citations: [] };
       }
       
-      // Primary agent based on intent - use processedQuery (translated to English)
-      if (intent.includes('crop') || intent.includes('planting') || intent.includes('harvest')) {
-        agentResponses.push(await cropAdvisorAgent.process(processedQuery, context, conversationHistory));
-      }
+      // Route to every sufficiently relevant agent - the top intent always runs
+      const selectedIntents = this.selectIntents(intents);
+      logger.info('Routing query to agents', {
+        intents: selectedIntents.map(i => `${i.intent}:${i.score}`),
+      });
       
-      if (intent.includes('livestock') || intent.includes('cattle') || intent.includes('goat') || intent.includes('chicken')) {
-        agentResponses.push(await livestockHealthAgent.process(processedQuery, context, conversationHistory));
-      }
+      // If no specific agent matched and it's not a greeting, use crop advisor as default
+      const agents = selectedIntents.length > 0
+        ? selectedIntents.map(i => INTENT_AGENTS[i.intent as Exclude<IntentCategory, 'greeting'>])
+        : [cropAdvisorAgent];
+      onEvent?.({ type: 'agents', agents: agents.map(agent => agent.name) });
       
-      if (intent.includes('pest') || intent.includes('disease') || intent.includes('symptom')) {
-        agentResponses.push(await pestDetectionAgent.process(processedQuery, context, conversationHistory));
-      }
+      // Translated answers only exist once every agent is done, so stream the translation instead
+      const targetLanguage = language || context.user.preferredLanguage || 'en';
+      const streamAgents = emitToken && targetLanguage === 'en' ? emitToken : undefined;
       
-      if (intent.includes('weather') || intent.includes('rain') || intent.includes('climate')) {
-        agentResponses.push(await climateAlertAgent.process(processedQuery, context, conversationHistory));
-      }
+      // A lone agent streams live. With several, which sections survive (and so whether there are
+      // headings) is only known once every agent is done, so the combined answer is sent then
+      const streamAlone = agents.length === 1 ? streamAgents : undefined;
       
-      if (intent.includes('price') || intent.includes('market') || intent.includes('sell')) {
-        agentResponses.push(await marketIntelligenceAgent.process(processedQuery, context, conversationHistory));
-      }
+      // Agents are independent, so run them concurrently - use processedQuery (translated to English)
+      const agentResponses = await Promise.all(
+        agents.map(agent => agent.process(processedQuery, context, conversationHistory, streamAlone))
+      );
       
-      if (intent.includes('extension') || intent.includes('help') || intent.includes('support')) {
-        agentResponses.push(await extensionSupportAgent.process(processedQuery, context, conversationHistory));
-      }
+      // Combine responses
+      const sections = this.buildSections(agentResponses);
+      let combinedResponse = this.joinSections(sections);
+      const contributing = agentResponses.filter(r => r.confidence > 0);
       
-      // If no specific agent matched and it's not a greeting, use crop advisor as default
-      if (agentResponses.length === 0) {
-        agentResponses.push(await cropAdvisorAgent.process(processedQuery, context, conversationHistory));
+      if (streamAgents && !streamAlone) {
+        streamAgents(combinedResponse);
       }
       
-      // Combine responses
-      const combinedResponse = this.combineResponses(agentResponses);
-      
       // Translate if needed (use passed language parameter or user preference)
-      const targetLanguage = language || context.user.preferredLanguage || 'en';
-      if (targetLanguage === 'sw') {
-        return await translationAgent.translate(combinedResponse, 'en', 'sw');
+      if (targetLanguage !== 'en') {
+        combinedResponse = await translationAgent.translate(combinedResponse, 'en', targetLanguage, emitToken);
       }
       
-      return combinedResponse;
+      return {
+        response: combinedResponse,
+        agents: contributing.map(r => r.agent),
+        citations: dedupeCitations(contributing.flatMap(r => r.citations)),
+      };
     } catch (error) {
       logger.error('Error in agent orchestrator:', error);
-      return 'Sorry, I encountered an error. Please try again or contact support.';
+      return {
+        response: 'Sorry, I encountered an error. Please try again or contact support.',
+        agents: [],
+        citations: [],
+      };
     }
   }
   
@@ -107,7 +164,7 @@ export class AgentOrchestrator {
     query: string, 
     context?: UserContext,
     conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
-  ): Promise<string> {
+  ): Promise<IntentScore[]> {
     try {
       // Use AI for better intent classification with conversation context
       const locationInfo = context?.user.county 
@@ -127,7 +184,13 @@ export class AgentOrchestrator {
         conversationContext += '\nConsider this context when classifying the current question.';
       }
       
-      const prompt = `You are an intelligent intent classifier for an agricultural AI assistant in Kenya. Analyze the farmer's question and classify it into ONE of these categories:
+      // Follow-ups to conversations from earlier days only make sense with the farmer's memory
+      const memorySummary = context?.user.conversationMemory?.summary;
+      if (memorySummary) {
+        conversationContext += `\n\nEarlier conversations: ${memorySummary}`;
+      }
+      
+      const prompt = `You are an intelligent intent classifier for an agricultural AI assistant in Kenya. Analyze the farmer's question and identify EVERY category it covers, scoring how relevant each one is:
 
 Categories:
 - greeting: Simple greetings, casual conversation, "hello", "hi", "how are you", or very short non-agricultural messages
@@ -148,20 +211,20 @@ Instructions:
 - If question is vague or unclear, infer the most likely intent based on keywords and context
 - Consider the user's location and previous questions when classifying
 - Only classify as agricultural categories if there's clear agricultural intent
+- A question can cover several categories, e.g. "my maize has armyworm, what will it fetch at market?" is pest and market
+- Score each category from 0 to 1; only include categories that are actually asked about
 
-Respond with ONLY the category name (greeting, crop, livestock, pest, weather, market, or extension). Do not include any other text.`;
+Respond with ONLY a JSON array ordered from most to least relevant, for example:
+[{"intent": "pest", "score": 0.9}, {"intent": "market", "score": 0.7}]
+Valid intents: greeting, crop, livestock, pest, weather, market, extension. Do not include any other text.`;
 
       // Disable cache for intent classification (needs fresh analysis)
       // Use lower temperature for more consistent classification
       const aiClassification = await generateText(prompt, 'gemini-2.0-flash-exp', false, undefined, 0.2);
-      const cleaned = aiClassification.toLowerCase().trim();
-      
-      // Validate and return
-      const validCategories = ['greeting', 'crop', 'livestock', 'pest', 'weather', 'market', 'extension'];
-      const category = validCategories.find(cat => cleaned.includes(cat));
+      const intents = this.parseIntentScores(aiClassification);
 
-      if (category) {
-        return category;
+      if (intents.length > 0) {
+        return intents;
       }
       
       // Fallback to keyword-based classification
@@ -172,6 +235,67 @@ Respond with ONLY the category name (greeting, crop, livestock, pest, weather, m
     }
   }
 
+  private async greet(
+    conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }> | undefined,
+    language: string,
+    onToken?: (text: string) => void
+  ): Promise<string> {
+    const key = conversationHistory && conversationHistory.length > 0 ? 'greeting.returning' : 'greeting.welcome';
+    
+    // Use the hand-written greeting where there is one, otherwise translate the English one
+    if (language !== 'en' && !hasOwnMessage(language, key)) {
+      return await translationAgent.translate(t('en', key), 'en', language, onToken);
+    }
+    const greeting = t(language, key);
+    onToken?.(greeting);
+    return greeting;
+  }
+
+  private parseIntentScores(classification: string): IntentScore[] {
+    const scores = new Map<IntentCategory, number>();
+    
+    // Preferred format: JSON array of { intent, score }
+    const jsonMatch = classification.match(/\[[\s\S]*\]/);
+    if (jsonMatch) {
+      try {
+        const parsed = JSON.parse(jsonMatch[0]);
+        if (Array.isArray(parsed)) {
+          for (const item of parsed) {
+            const intent = String(item?.intent || '').toLowerCase().trim() as IntentCategory;
+            const score = Number(item?.score);
+            if (VALID_INTENTS.includes(intent) && !isNaN(score)) {
+              scores.set(intent, Math.max(scores.get(intent) || 0, Math.min(Math.max(score, 0), 1)));
+            }
+          }
+        }
+      } catch {
+        logger.debug('Intent classification was not valid JSON, falling back to category names');
+      }
+    }
+    
+    // Models occasionally answer with bare category names - rank them in order of appearance
+    if (scores.size === 0) {
+      const cleaned = classification.toLowerCase();
+      VALID_INTENTS
+        .map(intent => ({ intent, index: cleaned.indexOf(intent) }))
+        .filter(match => match.index >= 0)
+        .sort((a, b) => a.index - b.index)
+        .forEach((match, rank) => scores.set(match.intent, Math.max(0.9 - rank * 0.2, 0.1)));
+    }
+    
+    return Array.from(scores.entries())
+      .map(([intent, score]) => ({ intent, score }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private selectIntents(intents: IntentScore[]): IntentScore[] {
+    const agricultural = intents.filter(i => i.intent !== 'greeting');
+    if (agricultural.length === 0) return [];
+    
+    const [top, ...rest] = agricultural;
+    return [top, ...rest.filter(i => i.score >= MIN_INTENT_SCORE)].slice(0, MAX_PARALLEL_AGENTS);
+  }
+
   private isGreeting(query: string): boolean {
     const greetings = [
       // English
@@ -205,65 +329,75 @@ Respond with ONLY the category name (greeting, crop, livestock, pest, weather, m
     return false;
   }
 
-  private handleGreeting(
-    context: UserContext,
-    conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
-  ): string {
-    const isSwahili = context.user.preferredLanguage === 'sw';
-    
-    // If there's conversation history, it's not the first message
-    if (conversationHistory && conversationHistory.length > 0) {
-      return isSwahili 
-        ? 'Habari! Unaweza kuuliza swali lolote kuhusu kilimo. Nitafurahi kukusaidia.'
-        : 'Hello! Feel free to ask me any farming question. I\'m here to help.';
-    }
-    
-    // First message - welcome message
-    return isSwahili
-      ? 'Karibu! Mimi ni msaidizi wako wa kilimo. Nisaidie kwa swali lolote kuhusu mazao, mifugo, wadudu, hali ya hewa, au soko. Unaweza kuuliza nini?'
-      : 'Hello! I\'m your agricultural assistant. I can help you with crops, livestock, pests, weather, or market information. What would you like to know?';
-  }
-
-  private keywordBasedClassification(query: string): string {
+  private keywordBasedClassification(query: string): IntentScore[] {
     const lowerQuery = query.toLowerCase();
     
     // Check for greetings first
     if (this.isGreeting(lowerQuery)) {
-      return 'greeting';
+      return [{ intent: 'greeting', score: 1 }];
     }
     
     // Enhanced keyword matching
-    const cropKeywords = ['crop', 'plant', 'maize', 'wheat', 'rice', 'beans', 'potato', 'tomato', 'coffee', 'tea', 'sorghum', 'millet', 'harvest', 'planting', 'growing'];
-    const livestockKeywords = ['livestock', 'cattle', 'cow', 'goat', 'sheep', 'chicken', 'poultry', 'dairy', 'milk', 'meat', 'breeding'];
-    const pestKeywords = ['pest', 'disease', 'symptom', 'infected', 'damage', 'control', 'treatment', 'spray', 'fungus', 'bacteria', 'virus'];
-    const weatherKeywords = ['weather', 'rain', 'rainfall', 'climate', 'forecast', 'drought', 'flood', 'temperature', 'humidity'];
-    const marketKeywords = ['price', 'market', 'sell', 'buy', 'trading', 'cost', 'value', 'revenue', 'profit'];
-    const extensionKeywords = ['help', 'support', 'extension', 'officer', 'contact', 'assistance', 'advice'];
-    
-    if (cropKeywords.some(kw => lowerQuery.includes(kw))) return 'crop';
-    if (livestockKeywords.some(kw => lowerQuery.includes(kw))) return 'livestock';
-    if (pestKeywords.some(kw => lowerQuery.includes(kw))) return 'pest';
-    if (weatherKeywords.some(kw => lowerQuery.includes(kw))) return 'weather';
-    if (marketKeywords.some(kw => lowerQuery.includes(kw))) return 'market';
-    if (extensionKeywords.some(kw => lowerQuery.includes(kw))) return 'extension';
+    const keywords: Record<Exclude<IntentCategory, 'greeting'>, string[]> = {
+      crop: ['crop', 'plant', 'maize', 'wheat', 'rice', 'beans', 'potato', 'tomato', 'coffee', 'tea', 'sorghum', 'millet', 'harvest', 'planting', 'growing'],
+      livestock: ['livestock', 'cattle', 'cow', 'goat', 'sheep', 'chicken', 'poultry', 'dairy', 'milk', 'meat', 'breeding'],
+      pest: ['pest', 'disease', 'symptom', 'infected', 'damage', 'control', 'treatment', 'spray', 'fungus', 'bacteria', 'virus', 'armyworm', 'worm', 'aphid', 'blight', 'wilt', 'rot'],
+      weather: ['weather', 'rain', 'rainfall', 'climate', 'forecast', 'drought', 'flood', 'temperature', 'humidity'],
+      market: ['price', 'market', 'sell', 'buy', 'trading', 'cost', 'value', 'revenue', 'profit', 'fetch'],
+      extension: ['help', 'support', 'extension', 'officer', 'contact', 'assistance', 'advice'],
+    };
     
-    return 'general';
+    // More keyword hits means a more relevant intent
+    return (Object.keys(keywords) as Array<Exclude<IntentCategory, 'greeting'>>)
+      .map(intent => ({
+        intent,
+        hits: keywords[intent].filter(kw => lowerQuery.includes(kw)).length,
+      }))
+      .filter(match => match.hits > 0)
+      .map(match => ({ intent: match.intent, score: Math.min(0.4 + 0.2 * match.hits, 0.9) }))
+      .sort((a, b) => b.score - a.score);
   }
   
-  private combineResponses(responses: AgentResponse[]): string {
-    if (responses.length === 0) return 'I could not find relevant information.';
-    if (responses.length === 1) return responses[0].response;
+  private buildSections(responses: AgentResponse[]): Array<{ agent: string; body: string }> {
+    if (responses.length === 0) return [];
+    
+    // Keep the primary answer and any secondary answers that did not fail
+    const [primary, ...rest] = responses;
+    const sections = [primary, ...rest.filter(r => r.confidence > 0)];
+    if (sections.length === 1) return [{ agent: primary.agent, body: primary.response }];
+    
+    // Drop advice lines already given in an earlier section (agents often repeat general tips)
+    const seenLines = new Set<string>();
+    const normalizeLine = (line: string) => line
+      .toLowerCase()
+      .replace(/^[\s#>*•\-\d.)]+/, '')
+      .replace(/[*_`]/g, '')
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
     
-    // Combine multiple agent responses
-    const primary = responses[0];
-    const additional = responses.slice(1)
-      .filter(r => r.confidence > 0.5)
-      .map(r => r.response)
-      .join('\n\n');
+    return sections.map(section => {
+      const lines = section.response.split('\n').filter(line => {
+        const normalized = normalizeLine(line);
+        // Short lines are headings or connectives - never treat them as duplicate advice
+        if (normalized.length < 25) return true;
+        if (seenLines.has(normalized)) return false;
+        seenLines.add(normalized);
+        return true;
+      });
+      
+      return { agent: section.agent, body: lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() };
+    });
+  }
+  
+  private joinSections(sections: Array<{ agent: string; body: string }>): string {
+    if (sections.length === 0) return 'I could not find relevant information.';
     
-    return `${primary.response}\n\n${additional}`;
+    // A lone answer needs no heading
+    return sections.length === 1
+      ? sections[0].body
+      : sections.map(section => `## ${section.agent}\n\n${section.body}`).join('\n\n');
   }
 }
 
 export const agentOrchestrator = new AgentOrchestrator();
-
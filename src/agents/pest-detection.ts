@@ -1,9 +1,26 @@
-import { BaseAgent } from './base-agent';
+import { BaseAgent, AgentAnswer } from './base-agent';
 import { UserContext } from '../models/user';
-import { generateText } from '../utils/genkit-helper';
+import { generateText, generateFromImages } from '../utils/genkit-helper';
 import { logger } from '../utils/logger';
-import { dataSourceService } from '../services/data-source';
+import { LLMImage, TokenHandler } from '../llm';
+import { QueryAnalysis } from '../utils/query-analyzer';
+import { dataSourceService, PestData } from '../services/data-source';
 import { pestDetectionSystemInstructions } from './system-instructions';
+import { conversationMemoryService } from '../services/conversation-memory';
+import { translationAgent } from './translation';
+import { t } from '../languages';
+
+// Below this the farmer is asked for a better photo instead of being given a diagnosis
+const MIN_IMAGE_CONFIDENCE = 0.4;
+
+export interface ImageDiagnosis {
+  name: string | null; // Likely pest or disease, null when nothing could be identified
+  crop?: string;
+  confidence: number; // 0-1
+  inCatalogue: boolean; // Whether the diagnosis matches a pests.json record
+  symptoms: string; // What the model saw in the photo
+  control: string[];
+}
 
 export class PestDetectionAgent extends BaseAgent {
   name = 'Pest & Disease Detection';
@@ -13,8 +30,10 @@ export class PestDetectionAgent extends BaseAgent {
     query: string,
     context: UserContext,
     relevantDocs: string[],
-    conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
-  ): Promise<string> {
+    conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>,
+    _queryAnalysis?: QueryAnalysis,
+    onToken?: TokenHandler
+  ): Promise<AgentAnswer> {
     try {
       const crop = context.crop || context.user.crops[0] || 'crops';
       const region = context.region || context.user.county || 'Kenya';
@@ -24,6 +43,7 @@ export class PestDetectionAgent extends BaseAgent {
       const pestInfo = pestData.length > 0 
         ? dataSourceService.formatPestData(pestData)
         : '';
+      const citations = dataSourceService.citePests(pestData);
 
       const locationContext = context.coordinates 
         ? `User's exact location: ${context.coordinates.lat}, ${context.coordinates.lon}`
@@ -44,7 +64,7 @@ ${relevantDocs.length > 0 ? relevantDocs.join('\n\n') : 'General pest and diseas
 
 FARMER'S QUESTION/DESCRIPTION: "${query}"
 
-${conversationHistory && conversationHistory.length > 0 ? `CONVERSATION CONTEXT:
+${conversationMemoryService.formatForPrompt(context.user)}${conversationHistory && conversationHistory.length > 0 ? `CONVERSATION CONTEXT:
 ${conversationHistory.slice(-3).map(msg => `${msg.role === 'user' ? 'Farmer' : 'You'}: ${msg.content}`).join('\n')}
 
 Use this context to understand if this is a follow-up about a previously discussed pest/disease issue.
@@ -73,7 +93,7 @@ Format your response with:
 - Prevention strategies
 - Specific recommendations
 
-Respond in ${context.user.preferredLanguage === 'sw' ? 'Kiswahili' : 'English'} with clear, actionable advice.`;
+${this.formatLanguageInstruction()} with clear, actionable advice.${this.formatChannelInstructions(context)}`;
 
       // Disable cache if conversation history exists (conversational context)
       const useCache = !conversationHistory || conversationHistory.length === 0;
@@ -82,13 +102,147 @@ Respond in ${context.user.preferredLanguage === 'sw' ? 'Kiswahili' : 'English'}
         'gemini-2.0-flash-exp', 
         useCache, 
         pestDetectionSystemInstructions,
-        0.2
+        0.2,
+        onToken
       );
-      return response;
+      return { response, citations };
     } catch (error) {
       logger.error('Error in pest detection agent:', error);
-      return 'I apologize, but I encountered an error processing your pest/disease question. Please describe the symptoms in more detail or contact an extension officer.';
+      return {
+        response: 'I apologize, but I encountered an error processing your pest/disease question. Please describe the symptoms in more detail or contact an extension officer.',
+        citations: [],
+      };
+    }
+  }
+
+  /**
+   * Diagnose a crop photo against the pest catalogue. The reply, in the given language, names the
+   * likely pest or disease with a confidence, lists control measures and asks the farmer to confirm.
+   */
+  async diagnoseImage(
+    image: LLMImage,
+    context: UserContext,
+    language: string,
+    caption?: string
+  ): Promise<AgentAnswer & { diagnosis: ImageDiagnosis | null }> {
+    const crop = context.crop || (context.user.crops.length === 1 ? context.user.crops[0] : undefined);
+    const county = context.user.county || context.region || 'Kenya';
+    // The catalogue is small, so send all of it unless we know the crop
+    const catalogue = dataSourceService.searchPests('', crop);
+
+    const prompt = `You are an agricultural plant health expert in Kenya. Look at the farmer's photo and identify the most likely pest or disease.
+
+FARMER CONTEXT:
+- Crop: ${crop || (context.user.crops.length > 0 ? `one of ${context.user.crops.join(', ')}` : 'unknown - identify it from the photo')}
+- County: ${county}
+${caption ? `- Farmer's message: "${caption}"\n` : ''}
+PEST AND DISEASE CATALOGUE:
+${dataSourceService.formatPestData(catalogue) || 'No catalogue entries for this crop'}
+
+INSTRUCTIONS:
+- Prefer a catalogue entry when the photo matches its symptoms, and use its exact name
+- If the photo shows a problem that is not in the catalogue, name it from your own knowledge
+- If the photo is unclear or shows no crop problem, set name to null
+- confidence is 0 to 1; be honest, photos alone are often not conclusive
+
+Respond with ONLY a JSON object, for example:
+{"name": "Fall Armyworm", "crop": "maize", "confidence": 0.8, "inCatalogue": true, "symptoms": "ragged holes and frass in the whorl", "control": ["Hand-pick larvae early in the morning", "Apply a Bt-based insecticide into the whorl"]}
+Do not include any other text.`;
+
+    let diagnosis: ImageDiagnosis | null = null;
+    try {
+      diagnosis = this.parseDiagnosis(await generateFromImages(prompt, [image]));
+    } catch (error) {
+      logger.error('Error diagnosing crop photo:', error);
+    }
+
+    if (!diagnosis?.name || diagnosis.confidence < MIN_IMAGE_CONFIDENCE) {
+      logger.info('Crop photo diagnosis inconclusive', { confidence: diagnosis?.confidence });
+      return {
+        response: t(language, 'diagnosis.unclear'),
+        citations: [],
+        diagnosis,
+      };
+    }
+
+    // Catalogue control measures are reviewed, so they take precedence over the model's
+    const record = catalogue.find(pest => pest.name.toLowerCase() === diagnosis!.name!.toLowerCase());
+    if (record) {
+      diagnosis.name = record.name;
+      diagnosis.inCatalogue = true;
+      diagnosis.control = record.control
+        .split(/,\s*/)
+        .map(measure => measure.charAt(0).toUpperCase() + measure.slice(1));
+    }
+    const diagnosedCrop = diagnosis.crop || crop || 'crop';
+
+    return {
+      response: await this.formatDiagnosis(diagnosis, diagnosedCrop, language, record),
+      citations: record ? dataSourceService.citePests([record]) : [],
+      diagnosis,
+    };
+  }
+
+  private parseDiagnosis(output: string): ImageDiagnosis | null {
+    const jsonMatch = output.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) return null;
+
+    try {
+      const parsed = JSON.parse(jsonMatch[0]);
+      const confidence = Number(parsed.confidence);
+      return {
+        name: typeof parsed.name === 'string' && parsed.name.trim() ? parsed.name.trim() : null,
+        crop: typeof parsed.crop === 'string' ? parsed.crop.toLowerCase() : undefined,
+        confidence: isNaN(confidence) ? 0 : Math.min(Math.max(confidence, 0), 1),
+        inCatalogue: parsed.inCatalogue === true,
+        symptoms: typeof parsed.symptoms === 'string' ? parsed.symptoms : '',
+        control: Array.isArray(parsed.control) ? parsed.control.filter((c: unknown) => typeof c === 'string') : [],
+      };
+    } catch {
+      logger.debug('Crop photo diagnosis was not valid JSON');
+      return null;
+    }
+  }
+
+  private async formatDiagnosis(diagnosis: ImageDiagnosis, crop: string, language: string, record?: PestData): Promise<string> {
+    const percent = Math.round(diagnosis.confidence * 100);
+    const level = t(language, percent >= 75 ? 'diagnosis.confidenceHigh' : percent >= 55 ? 'diagnosis.confidenceMedium' : 'diagnosis.confidenceLow');
+    const [symptoms, signs, ...control] = await this.translateDetails(
+      [diagnosis.symptoms, record?.symptoms || '', ...diagnosis.control],
+      language
+    );
+    const lines = [t(language, 'diagnosis.likely', { name: diagnosis.name!, level, percent })];
+
+    if (symptoms) {
+      lines.push(t(language, 'diagnosis.seen', { symptoms }));
+    }
+    if (signs) {
+      lines.push(t(language, 'diagnosis.typicalSigns', { symptoms: signs }));
+    }
+    if (control.length > 0) {
+      lines.push('', t(language, 'diagnosis.control'), ...control.map((measure, i) => `${i + 1}. ${measure}`));
+    }
+    if (!diagnosis.inCatalogue) {
+      lines.push('', t(language, 'diagnosis.notReviewed'));
+    }
+
+    lines.push('', t(language, 'diagnosis.confirm', { crop }));
+    return lines.join('\n');
+  }
+
+  /**
+   * Symptoms and control measures (from the model and the catalogue, in English) in the farmer's
+   * language, translated in one call. Kept in English if the translation loses lines.
+   */
+  private async translateDetails(details: string[], language: string): Promise<string[]> {
+    if (language === 'en' || details.every(detail => !detail)) return details;
+
+    const translated = (await translationAgent.translate(details.join('\n'), 'en', language)).trim().split('\n');
+    if (translated.length !== details.length) {
+      logger.warn(`Diagnosis details translated to ${language} as ${translated.length} lines instead of ${details.length}, keeping English`);
+      return details;
     }
+    return translated.map((line, i) => (details[i] ? line.trim() : ''));
   }
 }
 
@@ -1,67 +1,63 @@
 import { generateText } from '../utils/genkit-helper';
 import { logger } from '../utils/logger';
+import { TokenHandler } from '../llm';
+import { getFallbackChain, getLanguage, LanguageDefinition } from '../languages';
 
-const translationSystemInstructions = `You are an expert Kenyan translator specializing in agricultural terminology.
-You are fluent in both English and Kiswahili (Swahili) as spoken in Kenya.
+/**
+ * System instructions for translating into or out of a Kenyan language, with that
+ * language's agricultural glossary so common farming terms come out the way farmers say them.
+ * Fallbacks are the languages to write instead when the model cannot write the target well
+ * (e.g. Kiswahili for Kikuyu).
+ */
+function buildSystemInstructions(language: LanguageDefinition, fallbacks: LanguageDefinition[] = []): string {
+  const glossary = Object.entries(language.glossary)
+    .map(([english, local]) => `- ${english} = ${local}`)
+    .join('\n');
+
+  return `You are an expert Kenyan translator specializing in agricultural terminology.
+You are fluent in both English and ${language.name} as spoken in Kenya.
 
 TRANSLATION RULES:
-1. Use natural, conversational Kiswahili as spoken by Kenyan farmers
-2. Keep agricultural terms that are commonly used in their original form (e.g., "fertilizer" can stay as "fertilizer" or use "mbolea")
-3. Use Kenyan Kiswahili expressions and idioms where appropriate
+1. Use natural, conversational ${language.name} as spoken by Kenyan farmers
+2. Keep agricultural terms that are commonly used in their original form (e.g., "fertilizer" can stay as "fertilizer" or use the local word)
+3. Use Kenyan ${language.name} expressions and idioms where appropriate
 4. Maintain the same tone and formality level as the original
 5. Do NOT translate proper nouns, brand names, or scientific names
 6. Keep numbers, measurements, and units as they are
-7. If a word has no direct Kiswahili equivalent, use the English word
+7. If a word has no direct ${language.name} equivalent, use the English word${fallbacks.length > 0 ? `
+8. If you cannot write ${language.name} well, translate into ${fallbacks.map(fallback => fallback.name).join(', or failing that ')} instead` : ''}${glossary ? `
 
 COMMON AGRICULTURAL TERMS:
-- Maize/Corn = Mahindi
-- Beans = Maharage
-- Tomatoes = Nyanya
-- Potatoes = Viazi
-- Wheat = Ngano
-- Rice = Mchele
-- Coffee = Kahawa
-- Tea = Chai
-- Fertilizer = Mbolea
-- Pesticide = Dawa ya wadudu
-- Seeds = Mbegu
-- Harvest = Mavuno
-- Planting = Kupanda
-- Irrigation = Umwagiliaji
-- Soil = Udongo
-- Weather = Hali ya hewa
-- Rain = Mvua
-- Drought = Ukame
-- Market = Soko
-- Price = Bei
-- Farmer = Mkulima
-- Farm = Shamba
-- Crop = Zao
-- Livestock = Mifugo
-- Cattle = Ng'ombe
-- Goat = Mbuzi
-- Chicken = Kuku
+${glossary}` : ''}
 
 OUTPUT: Return ONLY the translated text, nothing else.`;
+}
 
 export class TranslationAgent {
-  async translate(text: string, from: string, to: string): Promise<string> {
+  async translate(text: string, from: string, to: string, onToken?: TokenHandler): Promise<string> {
     try {
-      if (from === to) return text;
+      if (from === to) {
+        onToken?.(text);
+        return text;
+      }
       
-      const fromLang = from === 'sw' ? 'Kiswahili' : 'English';
-      const toLang = to === 'sw' ? 'Kiswahili' : 'English';
+      const fromLanguage = getLanguage(from);
+      const toLanguage = getLanguage(to);
       
-      const prompt = `Translate from ${fromLang} to ${toLang}:
+      const prompt = `Translate from ${fromLanguage.name} to ${toLanguage.name}:
 
 ${text}`;
 
+      // The glossary that matters is the one for the language other than English
+      const localLanguage = toLanguage.code === 'en' ? fromLanguage : toLanguage;
+      const [, ...fallbacks] = getFallbackChain(toLanguage.code);
       const response = await generateText(
         prompt, 
         'gemini-2.0-flash-exp',
         false, // Don't cache translations
-        translationSystemInstructions,
-        0.3
+        buildSystemInstructions(localLanguage, fallbacks),
+        0.3,
+        onToken
       );
       
       return response.trim();
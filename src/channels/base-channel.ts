@@ -1,29 +1,54 @@
 import { Express } from 'express';
-import { IncomingMessage } from '../models/message';
-import { UserContext } from '../models/user';
-import { agentOrchestrator } from '../agents/orchestrator';
+import { IncomingMessage, Message } from '../models/message';
+import { User, UserContext } from '../models/user';
+import { agentOrchestrator, OrchestratorEventHandler } from '../agents/orchestrator';
+import { pestDetectionAgent } from '../agents/pest-detection';
+import { t } from '../languages';
 import { databaseService } from '../services/database';
+import { onboardingService } from '../services/onboarding';
 import { logger } from '../utils/logger';
+import { conversationMemoryService } from '../services/conversation-memory';
+import { pestSightingService } from '../services/pest-sightings';
+import { toMillis } from '../utils/timestamps';
+import { LanguageDetector, DetectedLanguage, LanguageDetection } from '../utils/language-detector';
+import { LLMImage } from '../llm';
+import { parseAnswer, renderMarkdown, StructuredAnswer } from '../formatting';
+
+// Ignore detections where only a small share of the words were recognised
+const MIN_LANGUAGE_CONFIDENCE = 0.3;
+// Consecutive messages in one language before the farmer's preferred language follows it
+const LANGUAGE_SWITCH_MESSAGES = 3;
+// Channel activity is saved at most this often per channel, to spare a write per message
+const CHANNEL_ACTIVITY_INTERVAL = 60 * 60 * 1000;
 
 export abstract class BaseChannel {
   abstract name: string;
   
+  // Ask new farmers the profile questions in the chat (channels with their own profile UI turn this off)
+  protected conversationalOnboarding = true;
+  
+  // Detect the language of each message (channels that send generated text turn this off)
+  protected detectLanguage = true;
+  
   abstract setupRoutes(app: Express): void;
   
-  protected async processMessage(message: IncomingMessage): Promise<string> {
+  /**
+   * Answer a message. onEvent receives progress and partial text for channels that stream;
+   * the resolved value is always the complete answer, for the channel to render (see src/formatting).
+   */
+  protected async processMessage(message: IncomingMessage, onEvent?: OrchestratorEventHandler): Promise<StructuredAnswer> {
     try {
-      // Get or create user
-      let user = await databaseService.getUser(message.from);
-      if (!user) {
-        user = await databaseService.createUser({
-          phoneNumber: message.from,
-          preferredLanguage: 'en',
-          crops: [],
-          livestock: [],
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        });
+      const { user, isNewUser } = await this.getOrCreateUser(message.from);
+      await this.recordChannelActivity(user, message.channel);
+      
+      // Answer in the language the farmer wrote in, unless the channel asked for one explicitly
+      const detectedLanguage = this.detectLanguage ? this.detectConfidently(message.content) : null;
+      const followDetection = LanguageDetector.isDetectable(user.preferredLanguage);
+      if (isNewUser && followDetection && detectedLanguage && detectedLanguage.responseLanguage !== user.preferredLanguage) {
+        user.preferredLanguage = detectedLanguage.responseLanguage;
+        await databaseService.updateUser(user.id, { preferredLanguage: user.preferredLanguage });
       }
+      const responseLanguage = this.responseLanguage(user, detectedLanguage, message.metadata?.language);
       
       // Save incoming message
       const messageData: any = {
@@ -33,31 +58,42 @@ export abstract class BaseChannel {
         direction: 'inbound',
         timestamp: new Date(),
       };
-      if (message.metadata && Object.keys(message.metadata).length > 0) {
-        messageData.metadata = message.metadata;
+      const metadata = {
+        ...message.metadata,
+        ...(detectedLanguage && { detectedLanguage: detectedLanguage.language }),
+      };
+      if (Object.keys(metadata).length > 0) {
+        messageData.metadata = metadata;
       }
       await databaseService.saveMessage(messageData);
       
+      // Profile questions take over the conversation until they are answered or skipped
+      const onboarding = this.conversationalOnboarding
+        ? await onboardingService.handleMessage(user, message.content, isNewUser)
+        : {};
+      if (onboarding.reply) {
+        await databaseService.saveMessage({
+          userId: user.id,
+          channel: message.channel,
+          content: onboarding.reply,
+          direction: 'outbound',
+          timestamp: new Date(),
+          metadata: { onboardingStep: user.onboardingStep },
+        });
+        onEvent?.({ type: 'token', text: onboarding.reply });
+        return parseAnswer(onboarding.reply, { language: user.preferredLanguage });
+      }
+      
       // Extract context from message
       const context = await this.extractContext(message, user);
       
-      // Get recent conversation history for context (last 6 messages)
+      // Get recent conversation history for context (last 6 messages); older
+      // conversations reach the agents through the farmer's conversation memory
       const recentMessages = await databaseService.getMessages(user.id, 6);
+      recentMessages.sort((a, b) => toMillis(a.timestamp) - toMillis(b.timestamp)); // Oldest first
+      await this.followLanguageHabit(user, recentMessages);
+      
       const conversationHistory = recentMessages
-        .sort((a, b) => {
-          // Handle different timestamp formats
-          const getTimestamp = (ts: any): number => {
-            if (ts instanceof Date) return ts.getTime();
-            if (typeof ts === 'object' && ts !== null) {
-              const seconds = (ts as any).seconds || (ts as any)._seconds;
-              if (seconds) return seconds * 1000;
-            }
-            if (typeof ts === 'string') return new Date(ts).getTime();
-            if (typeof ts === 'number') return ts > 1000000000000 ? ts : ts * 1000;
-            return Date.now();
-          };
-          return getTimestamp(a.timestamp) - getTimestamp(b.timestamp); // Sort ascending (oldest first)
-        })
         .slice(0, -1) // Exclude current message
         .map(msg => ({
           role: msg.direction === 'inbound' ? 'user' as const : 'assistant' as const,
@@ -65,25 +101,164 @@ export abstract class BaseChannel {
         }));
       
       // Process with agent orchestrator (with conversation history)
-      const preferredLanguage = message.metadata?.language || user.preferredLanguage || 'en';
-      const response = await agentOrchestrator.processQuery(message.content, context, conversationHistory, preferredLanguage);
+      const result = await agentOrchestrator.processQueryWithSources(
+        message.content,
+        context,
+        conversationHistory,
+        responseLanguage,
+        onEvent
+      );
       
-      // Save outgoing message
+      const answer = parseAnswer(result.response, {
+        language: responseLanguage,
+        citations: result.citations,
+        followUp: onboarding.followUp,
+      });
+      
+      // Save outgoing message with the sources used, so agronomists can audit advice
       await databaseService.saveMessage({
         userId: user.id,
         channel: message.channel,
-        content: response,
+        content: renderMarkdown(answer),
         direction: 'outbound',
         timestamp: new Date(),
+        ...(result.citations.length > 0 && {
+          metadata: { agents: result.agents, citations: result.citations },
+        }),
       });
       
-      return response;
+      // Summarising can take a model call, so don't hold up the reply
+      void conversationMemoryService.recordExchange(user);
+      if (result.agents.includes(pestDetectionAgent.name)) {
+        void pestSightingService.recordReport(user, context, message.content, result.response, message.channel);
+      }
+      
+      return answer;
     } catch (error) {
       logger.error(`Error processing ${this.name} message:`, error);
-      return 'Sorry, I encountered an error. Please try again.';
+      return parseAnswer('Sorry, I encountered an error. Please try again.', { language: 'en' });
+    }
+  }
+  
+  /**
+   * Diagnose a crop photo; message.content holds the photo's caption, if any
+   */
+  protected async processImage(message: IncomingMessage, image: LLMImage): Promise<StructuredAnswer> {
+    try {
+      const { user } = await this.getOrCreateUser(message.from);
+      await this.recordChannelActivity(user, message.channel);
+      const caption = message.content.trim();
+      const detection = caption && this.detectLanguage ? this.detectConfidently(caption) : null;
+      const responseLanguage = this.responseLanguage(user, detection, message.metadata?.language);
+      
+      await databaseService.saveMessage({
+        userId: user.id,
+        channel: message.channel,
+        content: caption || '[Photo]',
+        direction: 'inbound',
+        timestamp: new Date(),
+        metadata: { ...message.metadata, mediaType: 'image' },
+      });
+      
+      const context = await this.extractContext(message, user);
+      const result = await pestDetectionAgent.diagnoseImage(image, context, responseLanguage, caption || undefined);
+      const answer = parseAnswer(result.response, { language: responseLanguage, citations: result.citations });
+      
+      // Keep the structured diagnosis so a "YES" reply and agronomist reviews can refer to it
+      await databaseService.saveMessage({
+        userId: user.id,
+        channel: message.channel,
+        content: renderMarkdown(answer),
+        direction: 'outbound',
+        timestamp: new Date(),
+        metadata: {
+          agents: [pestDetectionAgent.name],
+          citations: result.citations,
+          ...(result.diagnosis && { diagnosis: result.diagnosis }),
+        },
+      });
+      void conversationMemoryService.recordExchange(user);
+      if (result.diagnosis) {
+        await pestSightingService.recordDiagnosis(user, context, result.diagnosis, message.channel);
+      }
+      
+      return answer;
+    } catch (error) {
+      logger.error(`Error processing ${this.name} image:`, error);
+      const language = message.metadata?.language || 'en';
+      return parseAnswer(t(language, 'diagnosis.failed'), { language });
+    }
+  }
+  
+  /**
+   * The language to answer in: the one the channel asked for, else the one the farmer wrote in,
+   * else their preferred language. Farmers who chose a language detection doesn't know keep it.
+   */
+  private responseLanguage(user: User, detection: LanguageDetection | null, requested?: string): string {
+    return requested
+      || (detection && LanguageDetector.isDetectable(user.preferredLanguage) ? detection.responseLanguage : undefined)
+      || user.preferredLanguage
+      || 'en';
+  }
+  
+  private detectConfidently(text: string): LanguageDetection | null {
+    const detection = LanguageDetector.detect(text);
+    return detection && detection.confidence >= MIN_LANGUAGE_CONFIDENCE ? detection : null;
+  }
+  
+  /**
+   * Switch the farmer's preferred language once their latest messages were all written in another one
+   */
+  private async followLanguageHabit(user: User, sortedMessages: Message[]): Promise<void> {
+    if (!LanguageDetector.isDetectable(user.preferredLanguage)) return;
+    const detected = sortedMessages
+      .filter(msg => msg.direction === 'inbound')
+      .slice(-LANGUAGE_SWITCH_MESSAGES)
+      .map(msg => msg.metadata?.detectedLanguage as DetectedLanguage | undefined);
+    if (detected.length < LANGUAGE_SWITCH_MESSAGES || detected.some(language => !language)) return;
+    
+    // Sheng is answered in Kiswahili
+    const languages = new Set(detected.map(language => (language === 'en' ? 'en' : 'sw')));
+    const [language] = languages;
+    if (languages.size === 1 && language !== user.preferredLanguage) {
+      logger.info(`Switching preferred language of user ${user.id} to ${language}`);
+      user.preferredLanguage = language;
+      await databaseService.updateUser(user.id, { preferredLanguage: language });
     }
   }
   
+  /**
+   * Remember that the farmer uses this channel, so alerts can reach them where they are
+   */
+  private async recordChannelActivity(user: User, channel: IncomingMessage['channel']): Promise<void> {
+    const lastActivity = user.channelActivity?.[channel];
+    if (lastActivity && Date.now() - toMillis(lastActivity) < CHANNEL_ACTIVITY_INTERVAL) return;
+    
+    user.channelActivity = { ...user.channelActivity, [channel]: new Date() };
+    await databaseService.updateUser(user.id, { channelActivity: user.channelActivity });
+  }
+  
+  /**
+   * Find the farmer by phone number, registering new farmers (who then get the profile questions)
+   */
+  protected async getOrCreateUser(phoneNumber: string): Promise<{ user: User; isNewUser: boolean }> {
+    const user = await databaseService.getUser(phoneNumber);
+    if (user) {
+      return { user, isNewUser: false };
+    }
+    
+    const newUser = await databaseService.createUser({
+      phoneNumber,
+      preferredLanguage: 'en',
+      crops: [],
+      livestock: [],
+      onboardingStep: 'name',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    return { user: newUser, isNewUser: true };
+  }
+  
   protected async extractContext(
     message: IncomingMessage,
     user: any
@@ -118,6 +293,7 @@ export abstract class BaseChannel {
       soilType: user.soilType,
       farmStage,
       coordinates,
+      channel: message.channel,
     };
   }
 }
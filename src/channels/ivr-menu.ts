@@ -0,0 +1,257 @@
+// Voice IVR tree: keypad choices lead to a question for the agents; 0 falls back to a spoken question
+import { findCountyByCode } from '../utils/counties';
+import { MessageKey, t } from '../languages';
+
+interface IvrChoices {
+  subject?: string;
+  problem?: string;
+  county?: string; // Keyed in, or the caller's home county
+}
+
+// Options are spoken in the caller's language, but questions to the agents use the English value
+interface IvrOption {
+  label: MessageKey;
+  value?: string;
+  next: IvrNode;
+}
+
+type IvrNode =
+  | { type: 'menu'; prompt?: MessageKey; sets?: 'subject' | 'problem'; options: IvrOption[] }
+  // County code keyed in and ended with #
+  | { type: 'county'; next: IvrNode }
+  // Builds the question sent to the agents from the choices made
+  | { type: 'question'; question: (choices: IvrChoices) => string };
+
+const CROPS: Array<{ value: string; label: MessageKey }> = [
+  { value: 'Maize', label: 'crop.maize' },
+  { value: 'Beans', label: 'crop.beans' },
+  { value: 'Potatoes', label: 'crop.potatoes' },
+  { value: 'Tomatoes', label: 'crop.tomatoes' },
+  { value: 'Kales', label: 'crop.kales' },
+  { value: 'Coffee', label: 'crop.coffee' },
+  { value: 'Tea', label: 'crop.tea' },
+  { value: 'Bananas', label: 'crop.bananas' },
+];
+const ANIMALS: Array<{ value: string; label: MessageKey }> = [
+  { value: 'Dairy cattle', label: 'animal.dairyCattle' },
+  { value: 'Beef cattle', label: 'animal.beefCattle' },
+  { value: 'Goats', label: 'animal.goats' },
+  { value: 'Sheep', label: 'animal.sheep' },
+  { value: 'Poultry', label: 'animal.poultry' },
+  { value: 'Pigs', label: 'animal.pigs' },
+];
+
+const CROP_PROBLEMS: Array<{ value: string; label: MessageKey }> = [
+  { value: 'Planting & seed varieties', label: 'problem.planting' },
+  { value: 'Fertilizer & soil', label: 'problem.fertilizer' },
+  { value: 'Pests & diseases', label: 'ussd.topic.pest' },
+  { value: 'Harvest & storage', label: 'problem.harvest' },
+];
+const LIVESTOCK_PROBLEMS: Array<{ value: string; label: MessageKey }> = [
+  { value: 'Sick animal / disease signs', label: 'problem.disease' },
+  { value: 'Feeding & nutrition', label: 'problem.feeding' },
+  { value: 'Vaccination & deworming', label: 'problem.vaccination' },
+  { value: 'Breeding & production', label: 'problem.breeding' },
+];
+
+const inCounty = (county?: string) => (county ? ` in ${county} County` : '');
+
+function chooseFrom(items: Array<{ value: string; label: MessageKey }>, next: IvrNode): IvrOption[] {
+  return items.map(item => ({ ...item, next }));
+}
+
+/**
+ * The menu callers navigate with the keypad. Each menu's options are numbered from 1 in order.
+ */
+const IVR_MENU: IvrNode = {
+  type: 'menu',
+  options: [
+    {
+      label: 'ussd.topic.crop',
+      next: {
+        type: 'menu',
+        prompt: 'ussd.chooseCrop',
+        sets: 'subject',
+        options: chooseFrom(CROPS, {
+          type: 'menu',
+          prompt: 'ussd.needHelpWith',
+          sets: 'problem',
+          options: chooseFrom(CROP_PROBLEMS, {
+            type: 'question',
+            question: ({ subject, problem, county }) =>
+              `Give me short advice on ${problem!.toLowerCase()} for ${subject!.toLowerCase()}${inCounty(county)}.`,
+          }),
+        }),
+      },
+    },
+    {
+      label: 'ussd.topic.livestock',
+      next: {
+        type: 'menu',
+        prompt: 'ussd.chooseAnimal',
+        sets: 'subject',
+        options: chooseFrom(ANIMALS, {
+          type: 'menu',
+          prompt: 'ussd.needHelpWith',
+          sets: 'problem',
+          options: chooseFrom(LIVESTOCK_PROBLEMS, {
+            type: 'question',
+            question: ({ subject, problem, county }) =>
+              `I keep ${subject!.toLowerCase()}${inCounty(county)}. Give me short advice on ${problem!.toLowerCase()}.`,
+          }),
+        }),
+      },
+    },
+    {
+      label: 'ussd.topic.weather',
+      next: {
+        type: 'county',
+        next: {
+          type: 'question',
+          question: ({ county }) => `What is the weather forecast for farming in ${county} County for the next few days?`,
+        },
+      },
+    },
+    {
+      label: 'ussd.topic.market',
+      next: {
+        type: 'menu',
+        prompt: 'ussd.chooseCrop',
+        sets: 'subject',
+        options: chooseFrom(CROPS, {
+          type: 'question',
+          question: ({ subject, county }) => `What are today's market prices for ${subject!.toLowerCase()}${inCounty(county)}?`,
+        }),
+      },
+    },
+  ],
+};
+
+const OWN_QUESTION = '0';
+const MAIN_MENU = '*';
+
+export interface IvrSession {
+  language: string;
+  homeCounty?: string; // Used in questions unless a county is keyed in
+  path: string[]; // Inputs applied from the main menu, in order
+  stage: 'menu' | 'speech' | 'continue'; // Navigating, waiting for a spoken question, or after an answer
+}
+
+/**
+ * What the call should ask the caller next
+ */
+export type IvrPrompt =
+  | { type: 'menu'; prompt: string; input: 'option' | 'code' } // Gather one key, or a code ended with #
+  | { type: 'speech' }; // Ask the caller to speak their question
+
+// ...or the question to answer once a menu path is complete
+export type IvrStep = IvrPrompt | { type: 'question'; question: string; path: string[] };
+
+export class IvrMenu {
+  createSession(language: string, homeCounty?: string): IvrSession {
+    return { language, homeCounty, path: [], stage: 'menu' };
+  }
+
+  /**
+   * The main menu, introduced with the welcome message
+   */
+  start(session: IvrSession): IvrPrompt {
+    session.path = [];
+    session.stage = 'menu';
+    return this.prompt(session, t(session.language, 'ivr.welcome'));
+  }
+
+  /**
+   * Apply the keys pressed at the current menu
+   */
+  applyInput(session: IvrSession, digits: string): IvrStep {
+    const input = digits.trim();
+    session.stage = 'menu';
+    if (input === MAIN_MENU) {
+      session.path = [];
+      return this.prompt(session);
+    }
+
+    const { node } = this.walk(session);
+    if (input === OWN_QUESTION && node.type === 'menu') {
+      session.stage = 'speech';
+      return { type: 'speech' };
+    }
+
+    const next = this.choose(node, input);
+    if (!next) {
+      const notice = node.type === 'county' ? 'ivr.countyNotFound' : 'ivr.invalidChoice';
+      return this.prompt(session, t(session.language, notice));
+    }
+
+    session.path.push(input);
+    if (next.type === 'question') {
+      const path = session.path;
+      session.path = [];
+      session.stage = 'continue';
+      return { type: 'question', question: next.question(this.walk({ ...session, path }).choices), path };
+    }
+    return this.prompt(session);
+  }
+
+  /**
+   * Repeat the current menu (e.g. after a timeout)
+   */
+  repeat(session: IvrSession): IvrPrompt {
+    session.stage = 'menu';
+    return this.prompt(session);
+  }
+
+  private choose(node: IvrNode, input: string): IvrNode | null {
+    if (node.type === 'menu') {
+      const option = /^\d$/.test(input) ? node.options[parseInt(input, 10) - 1] : undefined;
+      return option?.next || null;
+    }
+    if (node.type === 'county') {
+      return findCountyByCode(input) ? node.next : null;
+    }
+    return null;
+  }
+
+  /**
+   * Follow the session's inputs from the main menu to the current node
+   */
+  private walk(session: IvrSession): { node: IvrNode; choices: IvrChoices } {
+    let node = IVR_MENU;
+    const choices: IvrChoices = { county: session.homeCounty };
+
+    for (const input of session.path) {
+      if (node.type === 'menu') {
+        const option = node.options[parseInt(input, 10) - 1];
+        if (node.sets) choices[node.sets] = option.value;
+        node = option.next;
+      } else if (node.type === 'county') {
+        choices.county = findCountyByCode(input)!;
+        node = node.next;
+      }
+    }
+    return { node, choices };
+  }
+
+  private prompt(session: IvrSession, notice?: string): IvrPrompt {
+    const { language } = session;
+    const { node } = this.walk(session);
+    const lines = notice ? [notice] : [];
+
+    if (node.type === 'county') {
+      lines.push(t(language, 'ivr.countyCode'));
+      return { type: 'menu', prompt: lines.join(' '), input: 'code' };
+    }
+    if (node.type === 'menu') {
+      if (node.prompt) lines.push(t(language, node.prompt));
+      node.options.forEach((option, i) => {
+        lines.push(t(language, 'ivr.option', { label: t(language, option.label), digit: String(i + 1) }));
+      });
+      lines.push(t(language, 'ivr.ownQuestion'));
+      if (session.path.length > 0) lines.push(t(language, 'ivr.mainMenu'));
+    }
+    return { type: 'menu', prompt: lines.join(' '), input: 'option' };
+  }
+}
+
+export const ivrMenu = new IvrMenu();
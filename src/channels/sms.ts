@@ -4,6 +4,18 @@ import { BaseChannel } from './base-channel';
 const AfricasTalking = require('africastalking');
 import { logger } from '../utils/logger';
 import { webhookRateLimiter } from '../middleware/rate-limiter';
+import { databaseService } from '../services/database';
+import { Job, jobQueue } from '../utils/job-queue';
+import { alertSubscriptionService } from '../services/alert-subscriptions';
+import { advisoryService } from '../services/advisories';
+import { countSegments, renderSms, splitSms, toSmsText } from '../formatting';
+import { t } from '../languages';
+import { User } from '../models/user';
+
+const MESSAGE_JOB = 'sms.message';
+const MORE_COMMAND = /^\s*(more|zaidi)[\s.!]*$/i;
+// Messages sent per answer; the rest waits until the farmer replies MORE
+const MAX_PARTS = parseInt(process.env.SMS_MAX_PARTS || '3');
 
 export class SMSChannel extends BaseChannel {
   name = 'SMS';
@@ -23,20 +35,22 @@ export class SMSChannel extends BaseChannel {
   }
 
   setupRoutes(app: Express): void {
+    // Answers are generated by queue workers so the webhook can acknowledge Africa's Talking immediately
+    jobQueue.register(MESSAGE_JOB, (payload, job) => this.answer(payload.from, payload.text, job));
+    
     // Inbound SMS webhook (with webhook rate limiting)
     app.post('/webhook/sms', webhookRateLimiter, async (req: Request, res: Response) => {
       try {
-        const { from, text } = req.body;
+        const { from, text, id } = req.body;
         
-        if (from && text) {
-          const response = await this.processMessage({
-            channel: 'sms',
-            from,
-            content: text,
-            timestamp: new Date(),
-          });
-          
-          await this.sendMessage(from, response);
+        // Africa's Talking retries unacknowledged messages; answer each message ID once
+        if (from && text && (!id || await databaseService.claimWebhookEvent('sms', id))) {
+          try {
+            await jobQueue.enqueue(MESSAGE_JOB, { from, text });
+          } catch (error) {
+            if (id) await databaseService.releaseWebhookEvent('sms', id);
+            throw error;
+          }
         }
         
         res.sendStatus(200);
@@ -47,20 +61,93 @@ export class SMSChannel extends BaseChannel {
     });
   }
 
+  /**
+   * Answer an inbound SMS. A queue retry reuses the reply worked out by the failed attempt and skips
+   * the parts already sent (see JobQueue.step).
+   */
+  private async answer(from: string, text: string, job: Job): Promise<void> {
+    const reply = await jobQueue.step(job, 'reply', () => this.reply(from, text));
+    await this.sendAnswer(from, await databaseService.getUser(from), reply, job);
+  }
+
+  private async reply(from: string, text: string): Promise<string> {
+    if (MORE_COMMAND.test(text)) {
+      const user = await databaseService.getUser(from);
+      return user?.smsContinuation || t(user?.preferredLanguage || 'en', 'sms.nothingMore');
+    }
+    
+    const command = alertSubscriptionService.parseCommand(text);
+    if (command) {
+      const { user } = await this.getOrCreateUser(from);
+      return alertSubscriptionService.handleCommand(user, command);
+    }
+    
+    if (advisoryService.isPlantedCommand(text)) {
+      const { user } = await this.getOrCreateUser(from);
+      return advisoryService.recordPlanting(user);
+    }
+    
+    const answer = await this.processMessage({
+      channel: 'sms',
+      from,
+      content: text,
+      timestamp: new Date(),
+    });
+    return renderSms(answer);
+  }
+
+  /**
+   * Send a message as plain text (alerts and other notices). Nothing is held back for MORE, so a
+   * farmer's pending continuation is left alone.
+   */
   async sendMessage(to: string, text: string): Promise<void> {
     try {
-      const sms = this.atClient.SMS;
+      const plain = toSmsText(text);
+      const { encoding, segments } = countSegments(plain);
+      logger.debug(`Sending SMS to ${to}: ${segments} ${encoding} segments`);
+      await this.send(to, [plain]);
+    } catch (error) {
+      logger.error('Error sending SMS:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a reply to the farmer in numbered single-segment parts, keeping anything past
+   * SMS_MAX_PARTS (default 3) on their profile for a MORE reply
+   */
+  private async sendAnswer(to: string, user: User | null, text: string, job: Job): Promise<void> {
+    try {
+      const plain = toSmsText(text);
+      const { parts, remainder } = splitSms(plain, MAX_PARTS, t(user?.preferredLanguage || 'en', 'sms.more'));
       
-      await sms.send({
-        to,
-        message: text,
-        from: this.senderId,
-      });
+      // An empty string clears the continuation of an earlier answer
+      if (user && (remainder || user.smsContinuation)) {
+        await databaseService.updateUser(user.id, { smsContinuation: remainder });
+      }
+      
+      const { encoding, segments } = countSegments(plain);
+      logger.debug(`Sending SMS answer to ${to}: ${segments} ${encoding} segments as ${parts.length} parts${remainder ? ', rest held for MORE' : ''}`);
+      await this.send(to, parts, job);
     } catch (error) {
       logger.error('Error sending SMS:', error);
       throw error;
     }
   }
+  
+  private async send(to: string, messages: string[], job?: Job): Promise<void> {
+    // One at a time so the parts arrive in order
+    const sms = this.atClient.SMS;
+    for (const [i, message] of messages.entries()) {
+      await jobQueue.step(job, `sms:${i}`, async () => {
+        await sms.send({
+          to,
+          message,
+          from: this.senderId,
+        });
+      });
+    }
+  }
 }
 
 export function setupSMSRoutes(app: Express): void {
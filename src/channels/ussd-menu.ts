@@ -0,0 +1,352 @@
+// USSD menu tree: topic -> subject (crop/animal) -> problem -> county -> paginated answer
+import { KENYAN_COUNTIES, findCounty } from '../utils/counties';
+import { MessageKey, t } from '../languages';
+import { renderUssdPages, StructuredAnswer } from '../formatting';
+
+export type UssdTopic = 'crop' | 'livestock' | 'pest' | 'weather' | 'market';
+type UssdStep = 'subject' | 'problem' | 'county';
+
+// Options are shown in the farmer's language, but questions to the agents use the English value
+interface MenuOption {
+  value: string;
+  label: MessageKey;
+}
+
+interface TopicDefinition {
+  label: MessageKey;
+  steps: UssdStep[];
+  subjectPrompt?: MessageKey;
+  subjects?: MenuOption[];
+  problemPrompt?: MessageKey;
+  problems?: MenuOption[];
+  // Builds the question sent to the agents from the chosen subject, problem and county
+  question: (choice: { subject?: string; problem?: string; county: string }) => string;
+}
+
+const CROPS: MenuOption[] = [
+  { value: 'Maize', label: 'crop.maize' },
+  { value: 'Beans', label: 'crop.beans' },
+  { value: 'Potatoes', label: 'crop.potatoes' },
+  { value: 'Tomatoes', label: 'crop.tomatoes' },
+  { value: 'Kales', label: 'crop.kales' },
+  { value: 'Coffee', label: 'crop.coffee' },
+  { value: 'Tea', label: 'crop.tea' },
+  { value: 'Bananas', label: 'crop.bananas' },
+];
+const ANIMALS: MenuOption[] = [
+  { value: 'Dairy cattle', label: 'animal.dairyCattle' },
+  { value: 'Beef cattle', label: 'animal.beefCattle' },
+  { value: 'Goats', label: 'animal.goats' },
+  { value: 'Sheep', label: 'animal.sheep' },
+  { value: 'Poultry', label: 'animal.poultry' },
+  { value: 'Pigs', label: 'animal.pigs' },
+];
+
+const TOPICS: Record<UssdTopic, TopicDefinition> = {
+  crop: {
+    label: 'ussd.topic.crop',
+    steps: ['subject', 'problem', 'county'],
+    subjectPrompt: 'ussd.chooseCrop',
+    subjects: CROPS,
+    problemPrompt: 'ussd.needHelpWith',
+    problems: [
+      { value: 'Planting & seed varieties', label: 'problem.planting' },
+      { value: 'Fertilizer & soil', label: 'problem.fertilizer' },
+      { value: 'Watering', label: 'problem.watering' },
+      { value: 'Harvest & storage', label: 'problem.harvest' },
+    ],
+    question: ({ subject, problem, county }) =>
+      `Give me advice on ${problem!.toLowerCase()} for ${subject!.toLowerCase()} in ${county} County.`,
+  },
+  livestock: {
+    label: 'ussd.topic.livestock',
+    steps: ['subject', 'problem', 'county'],
+    subjectPrompt: 'ussd.chooseAnimal',
+    subjects: ANIMALS,
+    problemPrompt: 'ussd.needHelpWith',
+    problems: [
+      { value: 'Sick animal / disease signs', label: 'problem.disease' },
+      { value: 'Feeding & nutrition', label: 'problem.feeding' },
+      { value: 'Vaccination & deworming', label: 'problem.vaccination' },
+      { value: 'Breeding & production', label: 'problem.breeding' },
+    ],
+    question: ({ subject, problem, county }) =>
+      `I keep ${subject!.toLowerCase()} in ${county} County. Advise me on ${problem!.toLowerCase()}.`,
+  },
+  pest: {
+    label: 'ussd.topic.pest',
+    steps: ['subject', 'problem', 'county'],
+    subjectPrompt: 'ussd.chooseCrop',
+    subjects: CROPS,
+    problemPrompt: 'ussd.whatDoYouSee',
+    problems: [
+      { value: 'Insects or worms', label: 'problem.insects' },
+      { value: 'Spots on leaves', label: 'problem.leafSpots' },
+      { value: 'Wilting or yellowing', label: 'problem.wilting' },
+      { value: 'Rotting fruit or roots', label: 'problem.rotting' },
+    ],
+    question: ({ subject, problem, county }) =>
+      `My ${subject!.toLowerCase()} in ${county} County shows ${problem!.toLowerCase()}. What pest or disease is it and how do I control it?`,
+  },
+  weather: {
+    label: 'ussd.topic.weather',
+    steps: ['county'],
+    question: ({ county }) => `What is the weather forecast for farming in ${county} County?`,
+  },
+  market: {
+    label: 'ussd.topic.market',
+    steps: ['subject', 'county'],
+    subjectPrompt: 'ussd.chooseCrop',
+    subjects: CROPS,
+    question: ({ subject, county }) => `What is the current market price of ${subject!.toLowerCase()} in ${county} County?`,
+  },
+};
+
+const TOPIC_ORDER: UssdTopic[] = ['crop', 'livestock', 'pest', 'weather', 'market'];
+const MY_PROFILE = String(TOPIC_ORDER.length + 1);
+
+// Africa's Talking shows at most 182 characters per screen
+const MAX_SCREEN_LENGTH = 182;
+const COUNTIES_PER_PAGE = 6;
+const MORE = '1';
+const MORE_COUNTIES = '8';
+const MY_COUNTY = '9';
+const BACK = '0';
+const MAIN_MENU = '00';
+
+export interface UssdAnswer {
+  question: string;
+  pages: string[];
+  page: number;
+}
+
+export interface UssdSession {
+  text: string; // The "*"-separated input history already applied to this session
+  homeCounty?: string; // County from the farmer's profile, offered as a shortcut
+  topic?: UssdTopic;
+  selections: string[]; // Values chosen for the topic's steps, in order
+  countyPage: number;
+  answer?: UssdAnswer;
+  language: string; // Farmer's preferred language for menus
+  notice?: MessageKey; // Shown above the next screen (e.g. invalid choice)
+  // Profile questions are asked by the onboarding service; the menu only shows them
+  editingProfile: boolean;
+  profilePrompt?: string;
+  ended: boolean;
+}
+
+export class UssdMenu {
+  createSession(language: string, homeCounty?: string): UssdSession {
+    return { text: '', language, homeCounty, selections: [], countyPage: 0, editingProfile: false, ended: false };
+  }
+
+  /**
+   * The question to answer once every step of the topic has a selection, otherwise null
+   */
+  pendingQuestion(session: UssdSession): string | null {
+    if (!session.topic || session.answer) return null;
+
+    const topic = TOPICS[session.topic];
+    if (session.selections.length < topic.steps.length) return null;
+
+    const choice = (step: UssdStep) => session.selections[topic.steps.indexOf(step)];
+    return topic.question({ subject: choice('subject'), problem: choice('problem'), county: choice('county') });
+  }
+
+  setAnswer(session: UssdSession, question: string, answer: StructuredAnswer): void {
+    session.answer = { question, pages: this.paginate(answer, session.language), page: 0 };
+  }
+
+  /**
+   * Apply one menu input. Answers must be set (setAnswer) before inputs that page through them.
+   */
+  applyInput(session: UssdSession, rawInput: string): void {
+    const input = rawInput.trim();
+    session.notice = undefined;
+
+    if (input === MAIN_MENU) {
+      this.reset(session);
+      return;
+    }
+
+    if (!session.topic) {
+      const index = parseInt(input, 10) - 1;
+      if (input === BACK) {
+        session.ended = true;
+      } else if (input === MY_PROFILE) {
+        session.editingProfile = true;
+      } else if (/^\d+$/.test(input) && TOPIC_ORDER[index]) {
+        session.topic = TOPIC_ORDER[index];
+      } else {
+        session.notice = 'ussd.invalidChoice';
+      }
+      return;
+    }
+
+    if (session.answer) {
+      this.applyAnswerInput(session, input);
+      return;
+    }
+
+    const step = TOPICS[session.topic].steps[session.selections.length];
+    if (input === BACK) {
+      this.back(session);
+    } else if (step === 'county') {
+      this.applyCountyInput(session, input);
+    } else {
+      const options = this.getOptions(session.topic, step);
+      const option = /^\d+$/.test(input) ? options[parseInt(input, 10) - 1] : undefined;
+      if (option) {
+        session.selections.push(option.value);
+      } else {
+        session.notice = 'ussd.invalidChoice';
+      }
+    }
+  }
+
+  /**
+   * Render the current screen as an Africa's Talking response ("CON ..." keeps the session open)
+   */
+  render(session: UssdSession): string {
+    const language = session.language;
+    if (session.ended) {
+      return `END ${t(language, 'ussd.goodbye')}`;
+    }
+
+    const notice = session.notice ? `${t(language, session.notice)}\n` : '';
+
+    if (session.editingProfile && session.profilePrompt) {
+      return `CON ${session.profilePrompt}\n\n${MAIN_MENU}. ${t(language, 'ussd.mainMenu')}`;
+    }
+
+    if (session.answer) {
+      const { pages, page } = session.answer;
+      const counter = pages.length > 1 ? `(${page + 1}/${pages.length}) ` : '';
+      return `CON ${notice}${counter}${pages[page]}\n\n${this.answerFooter(language, page < pages.length - 1)}`;
+    }
+
+    if (!session.topic) {
+      const options = TOPIC_ORDER.map((topic, i) => `${i + 1}. ${t(language, TOPICS[topic].label)}`);
+      options.push(`${MY_PROFILE}. ${t(language, 'ussd.myProfile')}`, `${BACK}. ${t(language, 'ussd.exit')}`);
+      return `CON ${notice}${t(language, 'ussd.welcome')}\n${options.join('\n')}`;
+    }
+
+    const topic = TOPICS[session.topic];
+    const step = topic.steps[session.selections.length];
+    if (step === 'county') {
+      return `CON ${notice}${this.renderCountyMenu(session)}`;
+    }
+
+    const prompt = step === 'subject' ? topic.subjectPrompt! : topic.problemPrompt!;
+    const options = this.getOptions(session.topic, step).map((option, i) => `${i + 1}. ${t(language, option.label)}`);
+    return `CON ${notice}${t(language, prompt)}\n${options.join('\n')}\n${BACK}. ${t(language, 'ussd.back')}`;
+  }
+
+  private applyAnswerInput(session: UssdSession, input: string): void {
+    const answer = session.answer!;
+    if (input === MORE && answer.page < answer.pages.length - 1) {
+      answer.page++;
+    } else if (input === BACK && answer.page > 0) {
+      answer.page--;
+    } else if (input === BACK) {
+      // Back from the first page returns to the last menu (usually the county list)
+      session.answer = undefined;
+      session.selections.pop();
+    } else {
+      session.notice = 'ussd.invalidChoice';
+    }
+  }
+
+  private applyCountyInput(session: UssdSession, input: string): void {
+    const pageStart = session.countyPage * COUNTIES_PER_PAGE;
+    const pageCounties = KENYAN_COUNTIES.slice(pageStart, pageStart + COUNTIES_PER_PAGE);
+
+    if (input === MORE_COUNTIES) {
+      session.countyPage = pageStart + COUNTIES_PER_PAGE < KENYAN_COUNTIES.length ? session.countyPage + 1 : 0;
+      return;
+    }
+    if (input === MY_COUNTY && session.homeCounty) {
+      session.selections.push(session.homeCounty);
+      return;
+    }
+
+    const county = /^\d+$/.test(input)
+      ? pageCounties[parseInt(input, 10) - 1]
+      // Farmers can also type the first letters of the county name
+      : findCounty(input);
+
+    if (county) {
+      session.selections.push(county);
+    } else {
+      session.notice = 'ussd.countyNotFound';
+    }
+  }
+
+  private renderCountyMenu(session: UssdSession): string {
+    const pageStart = session.countyPage * COUNTIES_PER_PAGE;
+    const lines = KENYAN_COUNTIES
+      .slice(pageStart, pageStart + COUNTIES_PER_PAGE)
+      .map((county, i) => `${i + 1}. ${county}`);
+
+    lines.push(`${MORE_COUNTIES}. ${t(session.language, 'ussd.moreCounties')}`);
+    if (session.homeCounty) {
+      lines.push(`${MY_COUNTY}. ${session.homeCounty}`);
+    }
+    lines.push(`${BACK}. ${t(session.language, 'ussd.back')}`);
+
+    return `${t(session.language, 'ussd.chooseCounty')}\n${lines.join('\n')}`;
+  }
+
+  private back(session: UssdSession): void {
+    session.countyPage = 0;
+    if (session.selections.length > 0) {
+      session.selections.pop();
+    } else {
+      session.topic = undefined;
+    }
+  }
+
+  /**
+   * Leave the profile questions and go back to the main menu (answers so far are already saved)
+   */
+  finishProfile(session: UssdSession, notice?: MessageKey): void {
+    this.reset(session);
+    session.notice = notice;
+  }
+
+  private reset(session: UssdSession): void {
+    session.editingProfile = false;
+    session.profilePrompt = undefined;
+    session.topic = undefined;
+    session.selections = [];
+    session.countyPage = 0;
+    session.answer = undefined;
+  }
+
+  private getOptions(topic: UssdTopic, step: UssdStep): MenuOption[] {
+    return (step === 'subject' ? TOPICS[topic].subjects : TOPICS[topic].problems) || [];
+  }
+
+  private answerFooter(language: string, hasMore: boolean): string {
+    const lines = [`${BACK}. ${t(language, 'ussd.back')}`, `${MAIN_MENU}. ${t(language, 'ussd.mainMenu')}`];
+    if (hasMore) lines.unshift(`${MORE}. ${t(language, 'ussd.more')}`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Split an answer into screen-sized pages
+   */
+  private paginate(answer: StructuredAnswer, language: string): string[] {
+    // Room left for the answer once the "CON " prefix, a notice, the "(n/m) " counter and footer are on screen
+    const pageLength = MAX_SCREEN_LENGTH
+      - 'CON '.length
+      - `${t(language, 'ussd.invalidChoice')}\n`.length
+      - '(10/10) '.length
+      - `\n\n${this.answerFooter(language, true)}`.length;
+
+    const pages = renderUssdPages(answer, pageLength);
+    return pages.length > 0 ? pages : [t(language, 'ussd.noAdvice')];
+  }
+}
+
+export const ussdMenu = new UssdMenu();
@@ -0,0 +1,123 @@
+import { Express, Request, Response } from 'express';
+import { parseAnswer } from '../formatting';
+import { User } from '../models/user';
+
+// Steps saved by one instance are seen by every instance, as with Redis (values go through JSON)
+const mockSteps = new Map<string, string>();
+jest.mock('../utils/session-store', () => ({
+  ...jest.requireActual('../utils/session-store'),
+  SharedSessionStore: class {
+    constructor(private prefix: string) {}
+    async get(key: string) {
+      const value = mockSteps.get(`${this.prefix}:${key}`);
+      return value ? JSON.parse(value) : null;
+    }
+    async set(key: string, value: unknown) {
+      mockSteps.set(`${this.prefix}:${key}`, JSON.stringify(value));
+    }
+  },
+}));
+
+const PHONE = '+254700000001';
+const QUESTION = 'What is the weather forecast for farming in Nakuru County?';
+// Long enough for several screens
+const ANSWER = Array.from({ length: 8 }, (_, i) => `Day ${i + 1}: light rain in the afternoon, good for top dressing maize.`).join(' ');
+
+const farmer = {
+  id: 'farmer-1',
+  phoneNumber: PHONE,
+  county: 'Nakuru',
+  crops: [],
+  preferredLanguage: 'en',
+  onboardingStep: 'complete',
+} as unknown as User;
+
+/**
+ * A server instance with its own copy of the USSD channel (and its in-memory sessions)
+ */
+function startInstance() {
+  let channel!: import('./ussd').USSDChannel;
+  jest.isolateModules(() => {
+    const { USSDChannel } = require('./ussd') as typeof import('./ussd');
+    channel = new USSDChannel();
+  });
+
+  let handler!: (req: Request, res: Response) => Promise<void>;
+  const app = { post: (_path: string, ...handlers: any[]) => (handler = handlers[handlers.length - 1]) };
+  channel.setupRoutes(app as unknown as Express);
+
+  jest.spyOn(channel as any, 'getOrCreateUser').mockResolvedValue({ user: farmer, isNewUser: false });
+  const processMessage = jest.spyOn(channel as any, 'processMessage').mockResolvedValue(parseAnswer(ANSWER, { language: 'en' }));
+
+  // Africa's Talking sends the session's inputs so far, "*"-separated
+  const send = async (text: string): Promise<string> => {
+    let screen = '';
+    const res = { set: jest.fn(), send: (body: string) => (screen = body) };
+    await handler({ body: { phoneNumber: PHONE, sessionId: 'session-1', text } } as Request, res as unknown as Response);
+    return screen;
+  };
+  return { send, processMessage };
+}
+
+describe('USSD sessions', () => {
+  beforeEach(() => {
+    mockSteps.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('asks the agents once the farmer has picked a topic and a county', async () => {
+    const server = startInstance();
+
+    expect(await server.send('')).toMatch(/^CON .*\n1\. /);
+    expect(await server.send('4')).toContain('9. Nakuru');
+    expect(await server.send('4*9')).toMatch(/^CON \(1\/\d\) Day 1: light rain/);
+    expect(server.processMessage).toHaveBeenCalledTimes(1);
+    expect(server.processMessage).toHaveBeenCalledWith(expect.objectContaining({ channel: 'ussd', content: QUESTION }));
+  });
+
+  it('shows the same screen again for a retried request', async () => {
+    const server = startInstance();
+    await server.send('4');
+    const screen = await server.send('4*9');
+
+    expect(await server.send('4*9')).toBe(screen);
+    expect(server.processMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('continues on another instance from the step saved by the first', async () => {
+    const first = startInstance();
+    const second = startInstance();
+    await first.send('4');
+    await first.send('4*9');
+
+    expect(await second.send('4*9*1')).toMatch(/^CON \(2\/\d\) /);
+    expect(second.processMessage).not.toHaveBeenCalled();
+  });
+
+  it('continues from steps answered on another instance since this one last saw the session', async () => {
+    const first = startInstance();
+    const second = startInstance();
+    await first.send('4');
+    await second.send('4*9');
+    await second.send('4*9*1');
+
+    expect(await first.send('4*9*1*1')).toMatch(/^CON \(3\/\d\) /);
+    expect(first.processMessage).not.toHaveBeenCalled();
+    expect(second.processMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('replays the inputs when no step was saved', async () => {
+    const server = startInstance();
+
+    expect(await server.send('4*9*1')).toMatch(/^CON \(2\/\d\) /);
+    expect(server.processMessage).toHaveBeenCalledWith(expect.objectContaining({ content: QUESTION }));
+  });
+
+  it('ends the session from the main menu', async () => {
+    const server = startInstance();
+    expect(await server.send('0')).toMatch(/^END /);
+  });
+});
@@ -1,85 +1,159 @@
 import { Express, Request, Response } from 'express';
 import { BaseChannel } from './base-channel';
+import { ussdMenu, UssdSession } from './ussd-menu';
+import { databaseService } from '../services/database';
+import { onboardingService } from '../services/onboarding';
+import { SessionStore, SharedSessionStore } from '../utils/session-store';
 import { logger } from '../utils/logger';
 import { webhookRateLimiter } from '../middleware/rate-limiter';
 
+// Africa's Talking ends idle USSD sessions after about 3 minutes
+const ussdSessions = new SessionStore<UssdSession>(5 * 60 * 1000);
+
+// The screen shown at each step of a session and the session behind it, shared by every instance
+interface UssdStep {
+  screen: string;
+  session: UssdSession;
+}
+const ussdSteps = new SharedSessionStore<UssdStep>('shambasmart:ussd:step', 5 * 60 * 1000);
+
 export class USSDChannel extends BaseChannel {
   name = 'USSD';
-  
+  // Profile questions are part of the USSD menu instead
+  protected conversationalOnboarding = false;
+  // Menu questions are generated in English, so answer in the farmer's preferred language
+  protected detectLanguage = false;
+
   setupRoutes(app: Express): void {
     // USSD session handler (with webhook rate limiting)
     app.post('/webhook/ussd', webhookRateLimiter, async (req: Request, res: Response) => {
       try {
         const { phoneNumber, text, sessionId } = req.body;
-        
-        // USSD uses a session-based flow
-        let responseText = '';
-        
-        if (!text || text === '') {
-          // Initial menu
-          responseText = `CON Welcome to ShambaSmart AI\n
-1. Crop Advice
-2. Livestock Health
-3. Pest & Disease
-4. Weather Forecast
-5. Market Prices
-0. Exit
-
-Enter your choice:`;
-        } else {
-          // Process user input
-          const input = text.split('*').pop() || '';
-          
-          if (input === '0') {
-            responseText = 'END Thank you for using ShambaSmart AI!';
-          } else {
-            // Get user's question based on menu selection
-            const question = this.getQuestionFromMenu(input);
-            
-            if (question) {
-              const response = await this.processMessage({
-                channel: 'ussd',
-                from: phoneNumber,
-                content: question,
-                timestamp: new Date(),
-                metadata: { sessionId, menuInput: input },
-              });
-              
-              // Format response for USSD (max 160 chars per screen)
-              responseText = `CON ${this.formatForUSSD(response)}\n\n0. Back to Menu`;
-            } else {
-              responseText = 'CON Invalid selection. Please try again.\n\n0. Back to Menu';
-            }
+        const history = text || '';
+        res.set('Content-Type', 'text/plain');
+
+        // A step already answered (e.g. a retried request) gets the same screen again
+        const step = await this.getStep(sessionId, history);
+        if (step) {
+          res.send(step.screen);
+          return;
+        }
+
+        // Africa's Talking sends every input of the session so far, "*"-separated. Only apply the new
+        // inputs, continuing from the last step of the history that was answered (possibly by another
+        // instance, after this one's copy of the session), so answers and profile replies are not
+        // worked out twice
+        const local = ussdSessions.get(sessionId);
+        const saved = await this.restoreSession(sessionId, history);
+        const session = local && this.continuesHistory(local.text, history) && local.text.length >= (saved?.text.length ?? 0)
+          ? local
+          : saved || await this.startSession(phoneNumber);
+
+        const newInputs = history === session.text
+          ? []
+          : history.substring(session.text === '' ? 0 : session.text.length + 1).split('*');
+
+        for (const input of newInputs) {
+          if (session.editingProfile && session.profilePrompt && input.trim() !== '00') {
+            await this.answerProfileQuestion(session, phoneNumber, input);
+            continue;
           }
+          await this.answerPendingQuestion(session, phoneNumber, sessionId);
+          ussdMenu.applyInput(session, input);
         }
-        
-        res.set('Content-Type', 'text/plain');
-        res.send(responseText);
+        await this.answerPendingQuestion(session, phoneNumber, sessionId);
+
+        if (session.editingProfile && !session.profilePrompt) {
+          const user = await databaseService.getUser(phoneNumber);
+          session.profilePrompt = user ? await onboardingService.start(user) : undefined;
+        }
+
+        session.text = history;
+        if (session.ended) {
+          ussdSessions.delete(sessionId);
+        } else {
+          ussdSessions.set(sessionId, session);
+        }
+
+        const screen = ussdMenu.render(session);
+        await ussdSteps.set(`${sessionId}:${history}`, { screen, session })
+          .catch(error => logger.warn(`Failed to save USSD step for session ${sessionId}:`, error));
+        res.send(screen);
       } catch (error) {
         logger.error('Error handling USSD request:', error);
         res.send('END Sorry, an error occurred. Please try again later.');
       }
     });
   }
-  
-  private getQuestionFromMenu(input: string): string | null {
-    const menuMap: Record<string, string> = {
-      '1': 'I need crop advice',
-      '2': 'I need livestock health information',
-      '3': 'I have a pest or disease problem',
-      '4': 'What is the weather forecast?',
-      '5': 'What are the current market prices?',
-    };
-    
-    return menuMap[input] || null;
+
+  private async startSession(phoneNumber: string): Promise<UssdSession> {
+    // First contact (or an unfinished profile) opens with the profile questions
+    const { user, isNewUser } = await this.getOrCreateUser(phoneNumber);
+    const session = ussdMenu.createSession(user.preferredLanguage, user.county);
+    if (onboardingService.isOnboarding(user)) {
+      session.editingProfile = true;
+      session.profilePrompt = isNewUser ? await onboardingService.start(user) : onboardingService.currentPrompt(user);
+    }
+    return session;
+  }
+
+  /**
+   * The session as it was at the latest saved step of the history, or null if no step was saved
+   */
+  private async restoreSession(sessionId: string, history: string): Promise<UssdSession | null> {
+    let text = history;
+    while (text) {
+      text = text.includes('*') ? text.substring(0, text.lastIndexOf('*')) : '';
+      const step = await this.getStep(sessionId, text);
+      if (step) return step.session;
+    }
+    return null;
+  }
+
+  private async getStep(sessionId: string, history: string): Promise<UssdStep | null> {
+    // Steps only save work; without them the history is replayed
+    return ussdSteps.get(`${sessionId}:${history}`).catch(error => {
+      logger.warn(`Failed to get USSD step for session ${sessionId}:`, error);
+      return null;
+    });
+  }
+
+  private continuesHistory(previous: string, current: string): boolean {
+    return previous === '' || current === previous || current.startsWith(`${previous}*`);
+  }
+
+  private async answerProfileQuestion(session: UssdSession, phoneNumber: string, input: string): Promise<void> {
+    const user = await databaseService.getUser(phoneNumber);
+    if (!user || !onboardingService.isOnboarding(user)) {
+      ussdMenu.finishProfile(session);
+      return;
+    }
+
+    const reply = await onboardingService.handleReply(user, input);
+    if (onboardingService.isOnboarding(user)) {
+      session.profilePrompt = reply;
+    } else {
+      session.homeCounty = user.county;
+      session.language = user.preferredLanguage;
+      ussdMenu.finishProfile(session, 'ussd.profileSaved');
+    }
   }
-  
-  private formatForUSSD(text: string): string {
-    // USSD has limitations - truncate and format
-    const maxLength = 150;
-    if (text.length <= maxLength) return text;
-    
-    return text.substring(0, maxLength - 3) + '...';
+
+  /**
+   * Ask the agents once the farmer has completed every menu step for a topic
+   */
+  private async answerPendingQuestion(session: UssdSession, phoneNumber: string, sessionId: string): Promise<void> {
+    const question = ussdMenu.pendingQuestion(session);
+    if (!question) return;
+
+    const answer = await this.processMessage({
+      channel: 'ussd',
+      from: phoneNumber,
+      content: question,
+      timestamp: new Date(),
+      metadata: { sessionId, menuTopic: session.topic },
+    });
+    ussdMenu.setAnswer(session, question, answer);
   }
 }
 
@@ -87,4 +161,3 @@ export function setupUSSDRoutes(app: Express): void {
   const channel = new USSDChannel();
   channel.setupRoutes(app);
 }
-
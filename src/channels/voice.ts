@@ -1,178 +1,233 @@
 import { Express, Request, Response } from 'express';
 import { BaseChannel } from './base-channel';
-import twilio from 'twilio';
+import axios from 'axios';
 import { logger } from '../utils/logger';
 import { databaseService } from '../services/database';
 import { webhookRateLimiter } from '../middleware/rate-limiter';
+import { getSpeechLanguage, t } from '../languages';
+import { renderSpeech } from '../formatting';
+import { transcribe } from '../speech';
+import { detectVoiceProvider, VoiceAction, VoiceCallRequest, VoiceProvider } from '../voice';
+import { SessionStore } from '../utils/session-store';
+import { ivrMenu, IvrPrompt, IvrSession } from './ivr-menu';
+import { alertCallService } from '../services/alert-calls';
+
+// Longest answer read out in a call (Twilio <Say> allows about 4000 characters)
+const MAX_TTS_LENGTH = 1500;
+// Seconds to wait for a key at a menu
+const MENU_TIMEOUT = 10;
+
+// Where each caller is in the keypad menu, keyed by provider and call ID
+const ivrSessions = new SessionStore<IvrSession>(30 * 60 * 1000);
 
 export class VoiceChannel extends BaseChannel {
   name = 'Voice';
+  // Spoken names and places are unreliable to capture; voice callers set up their profile elsewhere
+  protected conversationalOnboarding = false;
   
   constructor() {
     super();
   }
   
   setupRoutes(app: Express): void {
-    // Twilio voice webhook (with webhook rate limiting)
+    // Voice webhook for every provider (with webhook rate limiting); each number's provider
+    // calls it in its own format - Twilio TwiML or Africa's Talking Voice XML
     app.post('/webhook/voice', webhookRateLimiter, async (req: Request, res: Response) => {
+      const provider = detectVoiceProvider(req.body);
+      if (!provider) {
+        logger.warn('Voice webhook payload from an unknown provider');
+        res.sendStatus(400);
+        return;
+      }
+      
       try {
-        const { From, CallSid, SpeechResult, CallStatus, Digits } = req.body;
+        const call = provider.parseRequest(req.body, req.query);
         
-        // Twilio voice uses TwiML for responses
-        const twiml = new twilio.twiml.VoiceResponse();
+        // Calls we placed read out an urgent alert
+        if (call.isOutbound) {
+          const alertCall = await this.handleAlertCall(call);
+          const language = alertCall?.language || 'en';
+          const { contentType, body } = provider.render(alertCall?.actions || [], {
+            language,
+            locale: getSpeechLanguage(language).speechLocale!,
+            reference: call.reference,
+          });
+          res.type(contentType);
+          res.send(body);
+          return;
+        }
         
         // Get user to determine language preference
-        let user = null;
-        let preferredLanguage = 'en';
-        if (From) {
-          user = await databaseService.getUser(From);
-          if (user) {
-            preferredLanguage = user.preferredLanguage || 'en';
-          }
-        }
+        const user = call.from ? await databaseService.getUser(call.from) : null;
+        const preferredLanguage = user?.preferredLanguage || 'en';
         
-        // Determine language for TTS (Swahili or English)
-        const ttsLanguage = preferredLanguage === 'sw' ? 'sw-KE' : 'en-US';
-        const ttsVoice = preferredLanguage === 'sw' ? 'alice' : 'alice'; // Twilio supports alice for both
+        // Speak the preferred language when TTS supports it, otherwise its fallback (e.g. Kikuyu -> Kiswahili)
+        const speechLanguage = getSpeechLanguage(preferredLanguage);
+        const language = speechLanguage.code;
+        const actions = call.isEnded ? [] : await this.handleCall(provider, call, language, user?.county);
         
-        // Handle call status
-        if (CallStatus === 'ringing' || CallStatus === 'initiated') {
-          // Initial greeting with language selection
-          const greeting = preferredLanguage === 'sw' 
-            ? 'Karibu ShambaSmart AI. Tafadhali sema swali lako la kilimo.'
-            : 'Welcome to ShambaSmart AI. Please tell me your farming question.';
-          
-          twiml.gather({
-            input: ['speech'],
-            language: preferredLanguage === 'sw' ? 'sw-KE' : 'en-US',
-            speechTimeout: 'auto',
-            action: '/webhook/voice',
-            method: 'POST',
-            hints: preferredLanguage === 'sw'
-              ? 'mahindi, mazao, mifugo, wadudu, hali ya hewa, bei'
-              : 'maize, crops, livestock, pests, weather, price',
-            enhanced: true,
-            speechModel: 'phone_call', // Better for phone calls
-          }).say({ voice: ttsVoice, language: ttsLanguage as any }, greeting);
-          
-          // Timeout handler
-          twiml.say({ voice: ttsVoice, language: ttsLanguage as any },
-            preferredLanguage === 'sw' 
-              ? 'Samahani, sikuweza kusikia. Tafadhali jaribu tena.'
-              : 'Sorry, I could not hear you. Please try again.'
-          );
-        } else if (SpeechResult) {
-          // Process voice input (Speech-to-Text result)
-          logger.info(`Voice input received: ${SpeechResult} from ${From}`);
-          
-          // Process the message
-          const response = await this.processMessage({
-            channel: 'voice',
-            from: From,
-            content: SpeechResult,
-            timestamp: new Date(),
-            metadata: { 
-              callSid: CallSid,
-              language: preferredLanguage,
-            },
-          });
-          
-          // Truncate response if too long for TTS (max ~1500 chars for Twilio)
-          const maxTTSLength = 1500;
-          let ttsResponse = response;
-          if (response.length > maxTTSLength) {
-            ttsResponse = response.substring(0, maxTTSLength) + 
-              (preferredLanguage === 'sw' ? '... Tafadhali endelea kusoma kwenye simu yako.' : '... Please continue reading on your phone.');
-          }
-          
-          // Convert text to speech with natural pauses
-          twiml.say({ 
-            voice: ttsVoice, 
-            language: ttsLanguage as any,
-          }, ttsResponse);
-          
-          // Ask if user wants to continue
-          twiml.pause({ length: 1 });
-          const continuePrompt = preferredLanguage === 'sw'
-            ? 'Je, una swali jingine? Sema ndiyo au la.'
-            : 'Do you have another question? Say yes or no.';
-          
-          twiml.gather({
-            input: ['speech', 'dtmf'],
-            language: preferredLanguage === 'sw' ? 'sw-KE' : 'en-US',
-            speechTimeout: 'auto',
-            action: '/webhook/voice',
-            method: 'POST',
-            numDigits: 1,
-            timeout: 5,
-          }).say({ voice: ttsVoice, language: ttsLanguage as any }, continuePrompt);
-          
-          // Timeout - end call
-          twiml.say({ voice: ttsVoice, language: ttsLanguage as any },
-            preferredLanguage === 'sw'
-              ? 'Asante kwa kutumia ShambaSmart AI. Kwaheri.'
-              : 'Thank you for using ShambaSmart AI. Goodbye.'
-          );
-          twiml.hangup();
-        } else if (Digits) {
-          // Handle DTMF input (1 for yes, 2 for no)
-          if (Digits === '1' || Digits === '9') {
-            // Continue with another question
-            const prompt = preferredLanguage === 'sw'
-              ? 'Tafadhali sema swali lako.'
-              : 'Please tell me your question.';
-            
-            twiml.gather({
-              input: ['speech'],
-              language: preferredLanguage === 'sw' ? 'sw-KE' : 'en-US',
-              speechTimeout: 'auto',
-              action: '/webhook/voice',
-              method: 'POST',
-              enhanced: true,
-              speechModel: 'phone_call',
-            }).say({ voice: ttsVoice, language: ttsLanguage as any }, prompt);
-          } else {
-            // End call
-            twiml.say({ voice: ttsVoice, language: ttsLanguage as any },
-              preferredLanguage === 'sw'
-                ? 'Asante kwa kutumia ShambaSmart AI. Kwaheri.'
-                : 'Thank you for using ShambaSmart AI. Goodbye.'
-            );
-            twiml.hangup();
-          }
-        } else {
-          // No input - ask again
-          const retryPrompt = preferredLanguage === 'sw'
-            ? 'Samahani, sikuweza kusikia. Tafadhali sema swali lako tena.'
-            : 'Sorry, I could not hear you. Please tell me your question again.';
-          
-          twiml.gather({
-            input: ['speech'],
-            language: preferredLanguage === 'sw' ? 'sw-KE' : 'en-US',
-            speechTimeout: 'auto',
-            action: '/webhook/voice',
-            method: 'POST',
-            enhanced: true,
-            speechModel: 'phone_call',
-          }).say({ voice: ttsVoice, language: ttsLanguage as any }, retryPrompt);
-        }
-        
-        res.type('text/xml');
-        res.send(twiml.toString());
+        const { contentType, body } = provider.render(actions, { language, locale: speechLanguage.speechLocale! });
+        res.type(contentType);
+        res.send(body);
       } catch (error) {
         logger.error('Error handling voice webhook:', error);
-        const twiml = new twilio.twiml.VoiceResponse();
-        const errorMessage = 'Sorry, an error occurred. Please try again later.';
-        twiml.say({ voice: 'alice', language: 'en-US' as any }, errorMessage);
-        res.type('text/xml');
-        res.send(twiml.toString());
+        const { contentType, body } = provider.render(
+          [{ type: 'say', text: t('en', 'voice.error') }, { type: 'hangup' }],
+          { language: 'en', locale: 'en-US' }
+        );
+        res.type(contentType);
+        res.send(body);
       }
     });
   }
+  
+  private async handleAlertCall(call: VoiceCallRequest): Promise<{ actions: VoiceAction[]; language: string } | null> {
+    // Alert calls are placed with the alert ID as their reference
+    if (!call.reference) {
+      logger.warn(`Outbound call ${call.callId} has no reference`);
+      return null;
+    }
+    if (call.isEnded) {
+      await alertCallService.callEnded(call.reference, call.callId, call.outcome || 'failed');
+      return null;
+    }
+    return alertCallService.handleCall(call.reference, call.digits);
+  }
+  
+  /**
+   * The call flow, shared by every provider: keypad menu (or a spoken question), answer, "another question?"
+   */
+  private async handleCall(
+    provider: VoiceProvider,
+    call: VoiceCallRequest,
+    language: string,
+    homeCounty?: string
+  ): Promise<VoiceAction[]> {
+    const sessionId = `${provider.name}:${call.callId}`;
+    let session = ivrSessions.get(sessionId);
+    if (call.isNewCall || !session) {
+      // Unknown calls (e.g. handled by another instance until now) restart at the main menu
+      session = ivrMenu.createSession(language, homeCounty);
+      ivrSessions.set(sessionId, session);
+      if (call.isNewCall) {
+        return this.stepActions(ivrMenu.start(session), language);
+      }
+    }
+    
+    const spoken = call.speech || (call.recordingUrl ? await this.transcribeRecording(call.recordingUrl, language) : undefined);
+    if (spoken) {
+      logger.info(`Voice input received via ${provider.name}: ${spoken} from ${call.from}`);
+      session.stage = 'continue';
+      ivrSessions.set(sessionId, session);
+      return this.answer(provider, call, spoken, language);
+    }
+    
+    if (call.digits) {
+      if (session.stage === 'continue') {
+        // 1 (or 9) returns to the main menu, anything else ends the call
+        if (call.digits !== '1' && call.digits !== '9') {
+          ivrSessions.delete(sessionId);
+          return [{ type: 'say', text: t(language, 'voice.goodbye') }, { type: 'hangup' }];
+        }
+        session.path = [];
+        session.stage = 'menu';
+      }
+      
+      const step = ivrMenu.applyInput(session, call.digits);
+      ivrSessions.set(sessionId, session);
+      if (step.type === 'question') {
+        logger.info(`IVR question via ${provider.name} (${step.path.join(' ')}) from ${call.from}: ${step.question}`);
+        return this.answer(provider, call, step.question, language, step.path);
+      }
+      return this.stepActions(step, language);
+    }
+    
+    // No input (or a recording we could not understand) - ask again
+    if (session.stage === 'speech') {
+      return [{ type: 'gather', input: 'speech', prompt: t(language, 'voice.retry') }];
+    }
+    ivrSessions.set(sessionId, session);
+    return this.stepActions(ivrMenu.repeat(session), language);
+  }
+  
+  /**
+   * Read an answer to a spoken or menu question, then offer the main menu again
+   */
+  private async answer(
+    provider: VoiceProvider,
+    call: VoiceCallRequest,
+    question: string,
+    language: string,
+    ivrPath?: string[]
+  ): Promise<VoiceAction[]> {
+    const answer = await this.processMessage({
+      channel: 'voice',
+      from: call.from,
+      content: question,
+      timestamp: new Date(),
+      metadata: {
+        callId: call.callId,
+        voiceProvider: provider.name,
+        language,
+        ...(ivrPath && { ivrPath: ivrPath.join(' ') }),
+      },
+    });
+    
+    return [
+      // Speak the answer as prose, pausing between sections and list items
+      { type: 'say', text: renderSpeech(answer, MAX_TTS_LENGTH) },
+      { type: 'pause', seconds: 1 },
+      { type: 'gather', input: 'dtmf', prompt: t(language, 'voice.anotherQuestion'), numDigits: 1, timeout: 5 },
+      // No key pressed - end the call
+      { type: 'say', text: t(language, 'voice.goodbye') },
+      { type: 'hangup' },
+    ];
+  }
+  
+  private stepActions(step: IvrPrompt, language: string): VoiceAction[] {
+    if (step.type === 'speech') {
+      return [
+        { type: 'gather', input: 'speech', prompt: t(language, 'voice.askQuestion'), hints: t(language, 'voice.hints') },
+        // Played when the caller says nothing
+        { type: 'say', text: t(language, 'voice.notHeard') },
+      ];
+    }
+    
+    // Menu options take one key; county codes are ended with # (or the timeout)
+    const gather: VoiceAction = {
+      type: 'gather',
+      input: 'dtmf',
+      prompt: step.prompt,
+      numDigits: step.input === 'option' ? 1 : undefined,
+      timeout: MENU_TIMEOUT,
+    };
+    return [
+      gather,
+      // Repeat the menu once when no key is pressed, then end the call
+      gather,
+      { type: 'say', text: t(language, 'voice.goodbye') },
+      { type: 'hangup' },
+    ];
+  }
+  
+  /**
+   * Providers without speech recognition send a recording of the question instead
+   */
+  private async transcribeRecording(url: string, language: string): Promise<string | undefined> {
+    try {
+      const recording = await axios.get(url, { responseType: 'arraybuffer', timeout: 30000 });
+      const mimeType = String(recording.headers['content-type'] || 'audio/mpeg');
+      const languages = [language, ...['en', 'sw'].filter(code => code !== language)];
+      const transcript = await transcribe(Buffer.from(recording.data), mimeType, languages);
+      return transcript?.text || undefined;
+    } catch (error) {
+      logger.error('Error transcribing voice recording:', error);
+      return undefined;
+    }
+  }
 }
 
 export function setupVoiceRoutes(app: Express): void {
   const channel = new VoiceChannel();
   channel.setupRoutes(app);
 }
-
@@ -4,6 +4,8 @@ import { BaseChannel } from './base-channel';
 import { databaseService } from '../services/database';
 import { logger } from '../utils/logger';
 import { chatRateLimiter, locationRateLimiter } from '../middleware/rate-limiter';
+import { renderMarkdown, renderWeb } from '../formatting';
+import { AlertPreferencesSchema } from '../models/user';
 
 export class WebChannel extends BaseChannel {
   name = 'Web';
@@ -19,7 +21,7 @@ export class WebChannel extends BaseChannel {
           return;
         }
         
-        const response = await this.processMessage({
+        const answer = await this.processMessage({
           channel: 'web',
           from: phoneNumber,
           content: message,
@@ -27,13 +29,58 @@ export class WebChannel extends BaseChannel {
           metadata: { language: language || 'en' },
         });
         
-        res.json({ response });
+        // Markdown for simple clients, blocks for rich rendering
+        res.json({ response: renderMarkdown(answer), answer: renderWeb(answer) });
       } catch (error) {
         logger.error('Error handling web chat:', error);
         res.status(500).json({ error: 'Internal server error' });
       }
     });
     
+    // Same as /api/chat, but streams progress and partial answers as Server-Sent Events
+    app.post('/api/chat/stream', chatRateLimiter, async (req: Request, res: Response): Promise<void> => {
+      const { phoneNumber, message, language } = req.body;
+      
+      if (!phoneNumber || !message) {
+        res.status(400).json({ error: 'phoneNumber and message are required' });
+        return;
+      }
+      
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      // Stop reverse proxies (nginx) from buffering the stream
+      res.setHeader('X-Accel-Buffering', 'no');
+      res.flushHeaders();
+      
+      const sendEvent = (event: string, data: unknown) => {
+        if (!res.writableEnded) {
+          res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+      };
+      
+      try {
+        const answer = await this.processMessage(
+          {
+            channel: 'web',
+            from: phoneNumber,
+            content: message,
+            timestamp: new Date(),
+            metadata: { language: language || 'en' },
+          },
+          event => sendEvent(event.type, event)
+        );
+        
+        // The final text can differ from the streamed tokens (de-duplication, source footer)
+        sendEvent('done', { response: renderMarkdown(answer), answer: renderWeb(answer) });
+      } catch (error) {
+        logger.error('Error handling web chat stream:', error);
+        sendEvent('error', { error: 'Internal server error' });
+      } finally {
+        res.end();
+      }
+    });
+    
     // Get chat history
     app.get('/api/chat/history', async (req: Request, res: Response): Promise<void> => {
       try {
@@ -74,17 +121,9 @@ export class WebChannel extends BaseChannel {
           return;
         }
 
-        // Get county from coordinates
+        // Update user with location and the county it falls in
         const { locationService } = await import('../services/location');
-        const county = await locationService.getCountyFromCoordinates(latitude, longitude);
-
-        // Update user with location
-        await databaseService.updateUser(user.id, {
-          latitude,
-          longitude,
-          county: county || undefined,
-          locationUpdatedAt: new Date(),
-        });
+        const county = await locationService.updateUserLocation(user.id, latitude, longitude);
 
         res.json({ 
           success: true, 
@@ -96,6 +135,35 @@ export class WebChannel extends BaseChannel {
         res.status(500).json({ error: 'Internal server error' });
       }
     });
+    
+    // Set how the farmer receives alerts: channel order, quiet hours and muted alert types
+    app.put('/api/user/alert-preferences', chatRateLimiter, async (req: Request, res: Response): Promise<void> => {
+      try {
+        const { phoneNumber, ...preferences } = req.body;
+        const parsed = AlertPreferencesSchema.safeParse(preferences);
+        
+        if (!phoneNumber || !parsed.success) {
+          res.status(400).json({
+            error: 'phoneNumber is required; channels must be whatsapp, sms or voice, quietHours { start, end } HH:MM times and muted alert types weather, pest, market or general',
+          });
+          return;
+        }
+        
+        const user = await databaseService.getUser(phoneNumber);
+        if (!user) {
+          res.status(404).json({ error: 'User not found' });
+          return;
+        }
+        
+        // Settings left out keep their current value
+        const alertPreferences = { ...user.alertPreferences, ...parsed.data };
+        await databaseService.updateUser(user.id, { alertPreferences });
+        res.json({ success: true, alertPreferences });
+      } catch (error) {
+        logger.error('Error updating alert preferences:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
   }
 }
 
@@ -3,6 +3,35 @@ import { BaseChannel } from './base-channel';
 import axios from 'axios';
 import { logger } from '../utils/logger';
 import { webhookRateLimiter } from '../middleware/rate-limiter';
+import { verifyWhatsAppSignature } from '../middleware/whatsapp-signature';
+import { databaseService } from '../services/database';
+import { locationService } from '../services/location';
+import { onboardingService } from '../services/onboarding';
+import { OnboardingStep } from '../models/user';
+import { transcribe, synthesize } from '../speech';
+import { getEnabledLanguages, getSpeechLanguage, isSupportedLanguage, MessageKey, t } from '../languages';
+import { Job, jobQueue } from '../utils/job-queue';
+import { alertSubscriptionService } from '../services/alert-subscriptions';
+import { advisoryService } from '../services/advisories';
+import { renderSpeech, renderWhatsApp, StructuredAnswer } from '../formatting';
+
+const MESSAGE_JOB = 'whatsapp.message';
+
+// Longest answer read out in a voice note; the full text is always sent as well
+const MAX_VOICE_REPLY_LENGTH = 1500;
+
+// WhatsApp Cloud API limits for interactive messages
+const MAX_INTERACTIVE_BODY_LENGTH = 1024;
+const MAX_BUTTON_TITLE_LENGTH = 20;
+const MAX_ROW_TITLE_LENGTH = 24;
+
+const FEEDBACK_YES = 'feedback:yes';
+const FEEDBACK_NO = 'feedback:no';
+
+// Offered in the crops profile question; farmers can still type several crops
+const CROP_OPTIONS: MessageKey[] = [
+  'crop.maize', 'crop.beans', 'crop.potatoes', 'crop.tomatoes', 'crop.kales', 'crop.coffee', 'crop.tea', 'crop.bananas',
+];
 
 export class WhatsAppChannel extends BaseChannel {
   name = 'WhatsApp';
@@ -18,6 +47,9 @@ export class WhatsAppChannel extends BaseChannel {
   }
 
   setupRoutes(app: Express): void {
+    // Messages are answered by queue workers so the webhook can acknowledge Meta immediately
+    jobQueue.register(MESSAGE_JOB, (payload, job) => this.handleMessage(payload.message, job));
+
     // Webhook verification
     app.get('/webhook/whatsapp', (req: Request, res: Response) => {
       const mode = req.query['hub.mode'];
@@ -32,35 +64,30 @@ export class WhatsAppChannel extends BaseChannel {
       }
     });
 
-    // Webhook handler (with webhook rate limiting)
-    app.post('/webhook/whatsapp', webhookRateLimiter, async (req: Request, res: Response) => {
+    // Webhook handler (with webhook rate limiting and signature verification)
+    app.post('/webhook/whatsapp', webhookRateLimiter, verifyWhatsAppSignature, async (req: Request, res: Response) => {
       try {
         const body = req.body;
+        let failed = 0;
         
         if (body.object === 'whatsapp_business_account') {
-          const entry = body.entry?.[0];
-          const changes = entry?.changes?.[0];
-          const value = changes?.value;
-          
-          if (value?.messages) {
-            const message = value.messages[0];
-            const from = message.from;
-            const text = message.text?.body || '';
-            
-            if (text) {
-              const response = await this.processMessage({
-                channel: 'whatsapp',
-                from,
-                content: text,
-                timestamp: new Date(),
-              });
+          // One delivery can batch several entries, changes and messages
+          for (const entry of body.entry || []) {
+            for (const change of entry.changes || []) {
+              const value = change.value;
               
-              await this.sendMessage(from, response);
+              for (const message of value?.messages || []) {
+                if (!(await this.processWebhookMessage(message))) failed++;
+              }
+              for (const status of value?.statuses || []) {
+                await this.handleStatus(status);
+              }
             }
           }
         }
         
-        res.sendStatus(200);
+        // Meta retries failed deliveries; messages already queued are skipped on retry
+        res.sendStatus(failed > 0 ? 500 : 200);
       } catch (error) {
         logger.error('Error handling WhatsApp webhook:', error);
         res.sendStatus(500);
@@ -68,6 +95,408 @@ export class WhatsAppChannel extends BaseChannel {
     });
   }
 
+  /**
+   * Queue one inbound message at most once, returning false if Meta should retry the delivery
+   */
+  private async processWebhookMessage(message: any): Promise<boolean> {
+    if (message.id && !(await databaseService.claimWebhookEvent('whatsapp', message.id))) {
+      logger.info(`Skipping duplicate WhatsApp message ${message.id}`);
+      return true;
+    }
+
+    try {
+      await jobQueue.enqueue(MESSAGE_JOB, { message });
+      return true;
+    } catch (error) {
+      logger.error(`Error queueing WhatsApp message ${message.id}:`, error);
+      if (message.id) {
+        await databaseService.releaseWebhookEvent('whatsapp', message.id);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Delivery receipts for messages we sent (sent, delivered, read, failed)
+   */
+  private async handleStatus(status: any): Promise<void> {
+    if (!status?.id || !['sent', 'delivered', 'read', 'failed'].includes(status.status)) return;
+
+    const error = status.errors?.[0];
+    if (status.status === 'failed') {
+      logger.warn(`WhatsApp message ${status.id} to ${status.recipient_id} failed:`, {
+        code: error?.code,
+        title: error?.title,
+      });
+    }
+
+    await databaseService.saveDeliveryStatus({
+      channel: 'whatsapp',
+      providerMessageId: status.id,
+      recipient: status.recipient_id,
+      status: status.status,
+      timestamp: status.timestamp ? new Date(parseInt(status.timestamp, 10) * 1000) : new Date(),
+      ...(error && { error: `${error.code}: ${error.title}` }),
+    });
+  }
+
+  /**
+   * Handle an inbound message. Work is split into job steps, so a queue retry reuses what the failed
+   * attempt already did (saved messages, model answers) and skips the replies already sent.
+   */
+  private async handleMessage(message: any, job: Job): Promise<void> {
+    const from = message.from;
+
+    const command = message.text?.body ? alertSubscriptionService.parseCommand(message.text.body) : null;
+    if (command) {
+      // STOP/START <TYPE> turns alert types off and on
+      const reply = await jobQueue.step(job, 'reply', async () => {
+        const { user } = await this.getOrCreateUser(from);
+        return alertSubscriptionService.handleCommand(user, command);
+      });
+      await jobQueue.step(job, 'send', () => this.sendMessage(from, reply));
+    } else if (message.text?.body && advisoryService.isPlantedCommand(message.text.body)) {
+      // PLANTED dates this season's planting for the crop calendar reminders
+      const reply = await jobQueue.step(job, 'reply', async () => {
+        const { user } = await this.getOrCreateUser(from);
+        return advisoryService.recordPlanting(user);
+      });
+      await jobQueue.step(job, 'send', () => this.sendMessage(from, reply));
+    } else if (message.text?.body) {
+      await this.answer(from, message.text.body, job);
+    } else if (message.type === 'image' && message.image?.id) {
+      // Crop photos are diagnosed against the pest catalogue
+      const reply = await jobQueue.step(job, 'answer', async () => {
+        const media = await this.downloadMedia(message.image.id);
+        const answer = await this.processImage(
+          {
+            channel: 'whatsapp',
+            from,
+            content: message.image.caption || '',
+            timestamp: new Date(),
+            metadata: { mediaId: message.image.id },
+          },
+          { mimeType: media.mimeType, data: media.data.toString('base64') }
+        );
+        return renderWhatsApp(answer);
+      });
+
+      await jobQueue.step(job, 'send', () => this.sendMessage(from, reply));
+    } else if (message.type === 'audio' && message.audio?.id) {
+      await this.handleVoiceNote(from, message.audio.id, job);
+    } else if (message.type === 'interactive') {
+      await this.handleInteractiveReply(from, message.interactive, job);
+    } else if (message.type === 'location' && message.location) {
+      await this.handleLocation(from, message.location.latitude, message.location.longitude, job);
+    }
+  }
+
+  /**
+   * Answer a question and send the reply, with a picker when the farmer is mid-onboarding
+   */
+  private async answer(from: string, content: string, job: Job, metadata?: Record<string, any>): Promise<StructuredAnswer> {
+    const { answer, answeredByAgents } = await jobQueue.step(job, 'answer', async () => {
+      let answeredByAgents = false;
+      const answer = await this.processMessage(
+        { channel: 'whatsapp', from, content, timestamp: new Date(), metadata },
+        event => {
+          if (event.type === 'agents') answeredByAgents = true;
+        }
+      );
+      return { answer, answeredByAgents };
+    });
+
+    await this.sendReply(from, renderWhatsApp(answer), answeredByAgents, job);
+    return answer;
+  }
+
+  /**
+   * Agent answers get "Was this helpful?" buttons; profile questions get a picker where one fits
+   */
+  private async sendReply(from: string, response: string, answeredByAgents: boolean, job: Job): Promise<void> {
+    const user = await databaseService.getUser(from);
+    const language = user?.preferredLanguage || 'en';
+
+    if (answeredByAgents) {
+      await jobQueue.step(job, 'send', () => this.sendMessage(from, response));
+      await jobQueue.step(job, 'feedbackButtons', () => this.sendButtons(from, t(language, 'whatsapp.helpful'), [
+        { id: FEEDBACK_YES, title: t(language, 'whatsapp.yes') },
+        { id: FEEDBACK_NO, title: t(language, 'whatsapp.no') },
+      ]));
+      return;
+    }
+
+    // Interactive bodies are limited to 1024 characters, so long replies stay plain text
+    const step = user && response.length <= MAX_INTERACTIVE_BODY_LENGTH ? user.onboardingStep : undefined;
+    await jobQueue.step(job, 'send', () => this.sendPicker(from, response, step, language));
+  }
+
+  // The reply, with a picker for the profile question it asks where one fits
+  private async sendPicker(from: string, response: string, step: OnboardingStep | undefined, language: string): Promise<void> {
+    if (step === 'language') {
+      await this.sendList(from, response, t(language, 'whatsapp.choose'), getEnabledLanguages().map(option => ({
+        id: `language:${option.code}`,
+        title: option.nativeName,
+      })));
+    } else if (step === 'crops') {
+      const rows = CROP_OPTIONS.map(key => ({ id: `crop:${key}`, title: t(language, key) }));
+      rows.push({ id: 'crop:none', title: t(language, 'whatsapp.none') });
+      await this.sendList(from, response, t(language, 'whatsapp.choose'), rows);
+    } else if (step === 'county') {
+      await this.sendLocationRequest(from, response);
+    } else {
+      await this.sendMessage(from, response);
+    }
+  }
+
+  /**
+   * Button and list replies, dispatched on the option ID: feedback is recorded and profile pickers
+   * answer their question with the option's value. Titles are translated, so only shown and saved.
+   */
+  private async handleInteractiveReply(from: string, interactive: any, job: Job): Promise<void> {
+    const reply = interactive?.button_reply || interactive?.list_reply;
+    if (!reply?.id) return;
+
+    if (reply.id === FEEDBACK_YES || reply.id === FEEDBACK_NO) {
+      const thanks = await jobQueue.step(job, 'reply', async () => {
+        const { user } = await this.getOrCreateUser(from);
+        const helpful = reply.id === FEEDBACK_YES;
+        await databaseService.saveMessage({
+          userId: user.id,
+          channel: 'whatsapp',
+          content: reply.title,
+          direction: 'inbound',
+          timestamp: new Date(),
+          metadata: { feedback: helpful ? 'helpful' : 'not_helpful' },
+        });
+        logger.info(`WhatsApp answer feedback from user ${user.id}: ${helpful ? 'helpful' : 'not helpful'}`);
+        return t(user.preferredLanguage, helpful ? 'whatsapp.feedbackThanks' : 'whatsapp.feedbackSorry');
+      });
+      await jobQueue.step(job, 'send', () => this.sendMessage(from, thanks));
+      return;
+    }
+
+    const [kind, value] = reply.id.split(':');
+    const step = kind === 'crop' ? 'crops' : kind === 'language' ? 'language' : undefined;
+    const answer = kind === 'crop'
+      ? (value === 'none' ? 'none' : CROP_OPTIONS.includes(value as MessageKey) ? t('en', value as MessageKey).toLowerCase() : undefined)
+      : isSupportedLanguage(value) ? value : undefined;
+    if (!step || !answer) {
+      logger.warn(`Ignoring unknown WhatsApp interactive reply ${reply.id}`);
+      return;
+    }
+
+    const response = await jobQueue.step(job, 'reply', async () => {
+      const { user } = await this.getOrCreateUser(from);
+      await databaseService.saveMessage({
+        userId: user.id,
+        channel: 'whatsapp',
+        content: reply.title,
+        direction: 'inbound',
+        timestamp: new Date(),
+        metadata: { interactiveId: reply.id },
+      });
+
+      // A picker tapped after its question was answered doesn't change the profile
+      let response: string;
+      if (user.onboardingStep === step) {
+        response = await onboardingService.handleReply(user, answer);
+      } else if (onboardingService.isOnboarding(user)) {
+        response = onboardingService.currentPrompt(user);
+      } else {
+        logger.info(`Ignoring stale WhatsApp ${step} picker reply from user ${user.id}`);
+        return null;
+      }
+
+      await databaseService.saveMessage({
+        userId: user.id,
+        channel: 'whatsapp',
+        content: response,
+        direction: 'outbound',
+        timestamp: new Date(),
+        metadata: { onboardingStep: user.onboardingStep },
+      });
+      return response;
+    });
+    if (response) {
+      await this.sendReply(from, response, false, job);
+    }
+  }
+
+  /**
+   * A shared location updates the farmer's coordinates and county, like POST /api/user/location
+   */
+  private async handleLocation(from: string, latitude: number, longitude: number, job: Job): Promise<void> {
+    const reply = await jobQueue.step(job, 'reply', async () => {
+      const { user } = await this.getOrCreateUser(from);
+      await databaseService.saveMessage({
+        userId: user.id,
+        channel: 'whatsapp',
+        content: `[Location] ${latitude}, ${longitude}`,
+        direction: 'inbound',
+        timestamp: new Date(),
+        metadata: { latitude, longitude },
+      });
+
+      const county = await locationService.updateUserLocation(user.id, latitude, longitude);
+      const saved = county
+        ? t(user.preferredLanguage, 'whatsapp.locationSaved', { county })
+        : t(user.preferredLanguage, 'whatsapp.locationSavedNoCounty');
+
+      // Sharing a location answers the county profile question
+      if (county && user.onboardingStep === 'county') {
+        return `${saved}\n\n${await onboardingService.handleReply(user, county)}`;
+      }
+      return saved;
+    });
+    await this.sendReply(from, reply, false, job);
+  }
+
+  /**
+   * Transcribe a voice note and answer it like a text message, adding a spoken reply when TTS is configured
+   */
+  private async handleVoiceNote(from: string, mediaId: string, job: Job): Promise<void> {
+    const user = await databaseService.getUser(from);
+    const primaryLanguage = getSpeechLanguage(user?.preferredLanguage).code;
+    const languages = [primaryLanguage, ...['en', 'sw'].filter(code => code !== primaryLanguage)];
+
+    const transcript = await jobQueue.step(job, 'transcript', async () => {
+      const media = await this.downloadMedia(mediaId);
+      return transcribe(media.data, media.mimeType, languages);
+    });
+    if (!transcript?.text) {
+      await jobQueue.step(job, 'send', () => this.sendMessage(from, t(primaryLanguage, 'whatsapp.voiceNotUnderstood')));
+      return;
+    }
+
+    const answer = await this.answer(from, transcript.text, job, { mediaId, mediaType: 'audio', transcribed: true });
+
+    // Speak the answer in the language it was written in (see BaseChannel.processMessage), as far as TTS supports it
+    const speechLanguage = getSpeechLanguage(answer.language);
+    const spoken = renderSpeech(answer, MAX_VOICE_REPLY_LENGTH);
+    await jobQueue.step(job, 'voiceReply', async () => {
+      const audio = await synthesize(spoken.text, speechLanguage.speechLocale!, spoken.ssml);
+      if (audio) {
+        await this.sendAudio(from, audio.data, audio.mimeType);
+      }
+    });
+  }
+
+  /**
+   * Fetch an attachment: the media ID resolves to a short-lived URL that also needs the access token
+   */
+  private async downloadMedia(mediaId: string): Promise<{ data: Buffer; mimeType: string }> {
+    const headers = { Authorization: `Bearer ${this.accessToken}` };
+    const { data: media } = await axios.get(`https://graph.facebook.com/v18.0/${mediaId}`, { headers });
+    const file = await axios.get(media.url, { headers, responseType: 'arraybuffer' });
+    
+    return { data: Buffer.from(file.data), mimeType: media.mime_type };
+  }
+
+  /**
+   * Upload a recording to the media API and send it as a voice note
+   */
+  async sendAudio(to: string, audio: Buffer, mimeType: string): Promise<void> {
+    try {
+      const headers = { Authorization: `Bearer ${this.accessToken}` };
+      const form = new FormData();
+      form.append('messaging_product', 'whatsapp');
+      form.append('type', mimeType);
+      form.append('file', new Blob([audio], { type: mimeType }), 'reply.ogg');
+      const { data: media } = await axios.post(`https://graph.facebook.com/v18.0/${this.phoneNumberId}/media`, form, { headers });
+
+      await axios.post(
+        `https://graph.facebook.com/v18.0/${this.phoneNumberId}/messages`,
+        {
+          messaging_product: 'whatsapp',
+          to,
+          type: 'audio',
+          audio: { id: media.id },
+        },
+        { headers: { ...headers, 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      // The text answer has already been sent, so a failed voice note is not fatal
+      logger.error('Error sending WhatsApp voice note:', error);
+    }
+  }
+
+  /**
+   * Reply buttons (at most 3) under a message body
+   */
+  async sendButtons(to: string, body: string, buttons: Array<{ id: string; title: string }>): Promise<void> {
+    await this.sendInteractive(to, {
+      type: 'button',
+      body: { text: body },
+      action: {
+        buttons: buttons.slice(0, 3).map(button => ({
+          type: 'reply',
+          reply: { id: button.id, title: button.title.substring(0, MAX_BUTTON_TITLE_LENGTH) },
+        })),
+      },
+    });
+  }
+
+  /**
+   * A list picker (at most 10 rows) opened with buttonText
+   */
+  async sendList(
+    to: string,
+    body: string,
+    buttonText: string,
+    rows: Array<{ id: string; title: string; description?: string }>
+  ): Promise<void> {
+    await this.sendInteractive(to, {
+      type: 'list',
+      body: { text: body },
+      action: {
+        button: buttonText.substring(0, MAX_BUTTON_TITLE_LENGTH),
+        sections: [{
+          rows: rows.slice(0, 10).map(row => ({
+            id: row.id,
+            title: row.title.substring(0, MAX_ROW_TITLE_LENGTH),
+            ...(row.description && { description: row.description }),
+          })),
+        }],
+      },
+    });
+  }
+
+  /**
+   * A message with a "Send location" button
+   */
+  async sendLocationRequest(to: string, body: string): Promise<void> {
+    await this.sendInteractive(to, {
+      type: 'location_request_message',
+      body: { text: body },
+      action: { name: 'send_location' },
+    });
+  }
+
+  private async sendInteractive(to: string, interactive: Record<string, any>): Promise<void> {
+    try {
+      await axios.post(
+        `https://graph.facebook.com/v18.0/${this.phoneNumberId}/messages`,
+        {
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to,
+          type: 'interactive',
+          interactive,
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${this.accessToken}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    } catch (error) {
+      logger.error('Error sending WhatsApp interactive message:', error);
+      throw error;
+    }
+  }
+
   async sendMessage(to: string, text: string): Promise<void> {
     try {
       const url = `https://graph.facebook.com/v18.0/${this.phoneNumberId}/messages`;
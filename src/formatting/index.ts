@@ -0,0 +1,8 @@
+// Channel-aware rendering of agent answers: parse once, render per channel
+export { AnswerBlock, CalloutKind, StructuredAnswer, SpokenAnswer, SpokenSegment, WebAnswer } from './types';
+export { parseAnswer, parseBlocks, stripInlineMarkdown, renderPlainBlocks } from './parse';
+export { renderWhatsApp } from './whatsapp';
+export { renderSms, toSmsText, countSegments, splitSms, isGsm7, SMS_ANSWER_LENGTH } from './sms';
+export { renderUssdPages } from './ussd';
+export { renderSpeech } from './speech';
+export { renderMarkdown, renderWeb } from './web';
@@ -0,0 +1,127 @@
+import { Citation } from '../models/citation';
+import { formatSourceFooter } from '../utils/citations';
+import { AnswerBlock, CalloutKind, StructuredAnswer } from './types';
+
+const HEADING = /^#{1,6}\s+(.+?)\s*#*$/;
+// Agents often use a bold line such as "**Fertilizer:**" as a heading
+const BOLD_HEADING = /^\*\*([^*]+?):?\*\*:?$/;
+const ORDERED_ITEM = /^(\d+)[.)]\s+(.+)$/;
+const BULLET_ITEM = /^[-*+•]\s+(.+)$/;
+const RULE = /^([-*_])(\s*\1){2,}$/;
+const CALLOUTS: Array<{ kind: CalloutKind; pattern: RegExp }> = [
+  { kind: 'tip', pattern: /^(?:💡\s*)?(?:\*\*)?tip(?:\*\*)?\s*:\s*(?:\*\*)?\s*|^💡\s*/i },
+  { kind: 'warning', pattern: /^(?:⚠️?\s*)?(?:\*\*)?(?:warning|caution)(?:\*\*)?\s*:\s*(?:\*\*)?\s*|^⚠️?\s*/i },
+  { kind: 'info', pattern: /^(?:ℹ️?\s*)?(?:\*\*)?(?:info|note)(?:\*\*)?\s*:\s*(?:\*\*)?\s*|^ℹ️?\s*/i },
+];
+
+/**
+ * Turn an agent's markdown answer into blocks every channel can render
+ */
+export function parseAnswer(
+  text: string,
+  options: { language: string; citations?: Citation[]; followUp?: string }
+): StructuredAnswer {
+  return {
+    language: options.language,
+    blocks: parseBlocks(text),
+    sources: formatSourceFooter(options.citations || [], options.language),
+    followUp: options.followUp ? parseBlocks(options.followUp) : [],
+  };
+}
+
+export function parseBlocks(text: string): AnswerBlock[] {
+  const blocks: AnswerBlock[] = [];
+  let paragraph: string[] = [];
+  let list: Extract<AnswerBlock, { type: 'list' }> | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push(list);
+      list = null;
+    }
+  };
+
+  for (const rawLine of text.replace(/\r/g, '').split('\n')) {
+    const line = rawLine.trim();
+    if (!line || RULE.test(line)) {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(HEADING) || line.match(BOLD_HEADING);
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', text: heading[1].trim() });
+      continue;
+    }
+
+    const ordered = line.match(ORDERED_ITEM);
+    const bullet = ordered ? null : line.match(BULLET_ITEM);
+    if (ordered || bullet) {
+      const isOrdered = !!ordered;
+      if (paragraph.length > 0 || (list && list.ordered !== isOrdered)) flush();
+      if (!list) {
+        list = { type: 'list', ordered: isOrdered, start: ordered ? parseInt(ordered[1], 10) : 1, items: [] };
+      }
+      list.items.push((ordered ? ordered[2] : bullet![1]).trim());
+      continue;
+    }
+
+    // Indented lines continue the list item above them
+    if (list && /^\s/.test(rawLine)) {
+      list.items[list.items.length - 1] += ` ${line}`;
+      continue;
+    }
+
+    const callout = CALLOUTS.find(({ pattern }) => pattern.test(line));
+    if (callout) {
+      flush();
+      blocks.push({ type: 'callout', kind: callout.kind, text: line.replace(callout.pattern, '').trim() });
+      continue;
+    }
+
+    if (list) flush();
+    paragraph.push(line);
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Inline markdown as plain text: emphasis markers removed, links written out
+ */
+export function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/__(.+?)__/g, '$1')
+    .replace(/(^|[^*\w])\*(?!\s)([^*\n]+?)\*(?!\*)/g, '$1$2')
+    .replace(/(^|[^_\w])_(?!\s)([^_\n]+?)_(?!\w)/g, '$1$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)');
+}
+
+/**
+ * Blocks as plain lines ("- " bullets, "1. " numbers), for channels without formatting
+ */
+export function renderPlainBlocks(blocks: AnswerBlock[], separator: string = '\n\n'): string {
+  return blocks
+    .map(block => {
+      switch (block.type) {
+        case 'heading':
+        case 'paragraph':
+        case 'callout':
+          return stripInlineMarkdown(block.text);
+        case 'list':
+          return block.items
+            .map((item, i) => `${block.ordered ? `${block.start + i}.` : '-'} ${stripInlineMarkdown(item)}`)
+            .join('\n');
+      }
+    })
+    .filter(Boolean)
+    .join(separator);
+}
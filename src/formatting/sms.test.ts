@@ -0,0 +1,78 @@
+import { countSegments, splitSms } from './sms';
+
+const MORE = 'Reply MORE for the rest';
+
+// Sentences of plain GSM-7 text, about 60 characters each
+const sentences = (count: number) =>
+  Array.from({ length: count }, (_, i) => `Step ${i + 1}: weed the maize rows and check the leaves.`).join(' ');
+
+describe('splitSms', () => {
+  it('sends a short message as it is', () => {
+    expect(splitSms('  Plant after the first rains.  ', 3, MORE)).toEqual({
+      parts: ['Plant after the first rains.'],
+      remainder: '',
+    });
+  });
+
+  it('sends nothing for an empty message', () => {
+    expect(splitSms('', 3, MORE)).toEqual({ parts: [], remainder: '' });
+  });
+
+  it('numbers the parts and keeps each within one GSM-7 segment', () => {
+    const text = sentences(6);
+    const { parts, remainder } = splitSms(text, 3, MORE);
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(remainder).toBe('');
+    parts.forEach((part, i) => {
+      expect(part.startsWith(`${i + 1}/${parts.length} `)).toBe(true);
+      expect(countSegments(part)).toMatchObject({ encoding: 'GSM-7', segments: 1 });
+    });
+  });
+
+  it('breaks between words', () => {
+    const { parts } = splitSms(sentences(6), 3, MORE);
+    const text = parts.map(part => part.replace(/^\d+\/\d+ /, '')).join(' ');
+    expect(text).toBe(sentences(6));
+  });
+
+  it('holds back what does not fit for MORE', () => {
+    const text = sentences(20);
+    const { parts, remainder } = splitSms(text, 3, MORE);
+
+    expect(parts).toHaveLength(3);
+    expect(parts[2].endsWith(`\n${MORE}`)).toBe(true);
+    expect(countSegments(parts[2]).segments).toBe(1);
+    expect(remainder.length).toBeGreaterThan(0);
+
+    // Nothing is lost between the parts and the remainder
+    const sent = parts.map(part => part.replace(/^\d+\/\d+ /, '').replace(`\n${MORE}`, '')).join(' ');
+    expect(`${sent} ${remainder}`).toBe(text);
+  });
+
+  it('counts extension characters as two septets', () => {
+    const text = `${'Bei ni €5 kwa kilo. '.repeat(12)}`.trim();
+    const { parts } = splitSms(text, 9, MORE);
+    parts.forEach(part => expect(countSegments(part)).toMatchObject({ encoding: 'GSM-7', segments: 1 }));
+  });
+
+  it('uses UCS-2 limits when the text is not GSM-7', () => {
+    const text = 'Panda mbegu bora ✓ na weka mbolea ya kupandia. '.repeat(5).trim();
+    const { parts } = splitSms(text, 9, MORE);
+
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach(part => {
+      expect(countSegments(part)).toMatchObject({ encoding: 'UCS-2', segments: 1 });
+      expect(part.length).toBeLessThanOrEqual(70);
+    });
+  });
+
+  it('uses UCS-2 limits when only the MORE notice is not GSM-7', () => {
+    const { parts } = splitSms(sentences(20), 3, 'Jibu ZAIDI ✓');
+    parts.forEach(part => expect(part.length).toBeLessThanOrEqual(70));
+  });
+
+  it('allows at most nine parts', () => {
+    expect(splitSms(sentences(40), 20, MORE).parts).toHaveLength(9);
+  });
+});
@@ -0,0 +1,174 @@
+// Turns agent answers into SMS: plain text, segment-aware splitting and a "reply MORE" continuation
+import { renderPlainBlocks } from './parse';
+import { StructuredAnswer } from './types';
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export interface SmsSegmentInfo {
+  encoding: SmsEncoding;
+  length: number; // Septets for GSM-7, UTF-16 code units for UCS-2
+  segments: number;
+}
+
+export interface SmsParts {
+  parts: string[]; // Messages to send now, numbered "1/3" when there is more than one
+  remainder: string; // Text held back for a MORE reply ('' when everything fits)
+}
+
+// Answer length the agents are asked for on SMS (about two GSM-7 segments)
+export const SMS_ANSWER_LENGTH = 300;
+
+// Single-message and concatenated-segment capacities per encoding
+const SEGMENT_LIMITS: Record<SmsEncoding, { single: number; multi: number }> = {
+  'GSM-7': { single: 160, multi: 153 },
+  'UCS-2': { single: 70, multi: 67 },
+};
+
+// GSM 03.38 basic character set, and the extension table characters that take two septets
+const GSM_BASIC = '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+// Common typography from model output that would otherwise force the whole message into UCS-2
+const GSM_REPLACEMENTS: Array<[RegExp, string]> = [
+  [/[‘’‚′]/g, '\''],
+  [/[“”„″]/g, '"'],
+  [/[–—−]/g, '-'],
+  [/[•·▪●◦]/g, '-'],
+  [/…/g, '...'],
+  [/\u00A0/g, ' '],
+  [/°/g, ' deg'],
+  [/\p{Extended_Pictographic}\uFE0F?\s?/gu, ''], // Emoji
+];
+
+/**
+ * The answer as plain SMS text, with the source footer and any follow-up question
+ */
+export function renderSms(answer: StructuredAnswer): string {
+  return toSmsText(
+    [renderPlainBlocks(answer.blocks), answer.sources, renderPlainBlocks(answer.followUp)]
+      .filter(Boolean)
+      .join('\n\n')
+  );
+}
+
+/**
+ * Strip markdown and swap typographic characters for GSM-7 ones so answers read cleanly (and cheaply) on a feature phone
+ */
+export function toSmsText(text: string): string {
+  let plain = text
+    .replace(/```[\s\S]*?```/g, block => block.replace(/```\w*/g, ''))
+    .replace(/^#+\s*/gm, '') // Headings
+    .replace(/\*\*(.+?)\*\*/g, '$1') // Bold
+    .replace(/__(.+?)__/g, '$1')
+    .replace(/(^|[^*])\*(?!\s)([^*\n]+?)\*(?!\*)/g, '$1$2') // Italics
+    .replace(/(^|\W)_(?!\s)([^_\n]+?)_(?=\W|$)/g, '$1$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)') // Links
+    .replace(/^[ \t]*[*+][ \t]+/gm, '- ') // Bullets
+    .replace(/^[ \t]*>[ \t]?/gm, '')
+    .replace(/^[ \t]*([-*_])[ \t]*\1[ \t]*\1[ \t\-*_]*$/gm, ''); // Horizontal rules
+
+  for (const [pattern, replacement] of GSM_REPLACEMENTS) {
+    plain = plain.replace(pattern, replacement);
+  }
+
+  return plain
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function isGsm7(text: string): boolean {
+  for (const char of text) {
+    if (!GSM_BASIC.includes(char) && !GSM_EXTENDED.includes(char)) return false;
+  }
+  return true;
+}
+
+/**
+ * How many billed segments a message takes: GSM-7 fits 160 characters (153 per part once
+ * concatenated, extension characters such as € count twice); any other character switches the
+ * whole message to UCS-2 with 70 (67) characters.
+ */
+export function countSegments(text: string): SmsSegmentInfo {
+  const encoding: SmsEncoding = isGsm7(text) ? 'GSM-7' : 'UCS-2';
+  const length = measure(text, encoding);
+  const limits = SEGMENT_LIMITS[encoding];
+  const segments = length === 0 ? 0 : length <= limits.single ? 1 : Math.ceil(length / limits.multi);
+  return { encoding, length, segments };
+}
+
+/**
+ * Split an answer into at most maxParts single-segment messages numbered "1/3", "2/3", ... Text
+ * that does not fit is returned as the remainder and the last part ends with moreNotice.
+ */
+export function splitSms(text: string, maxParts: number, moreNotice: string): SmsParts {
+  const plain = text.trim();
+  const encoding: SmsEncoding = isGsm7(plain + moreNotice) ? 'GSM-7' : 'UCS-2';
+  const limit = SEGMENT_LIMITS[encoding].single;
+
+  if (measure(plain, encoding) <= limit) {
+    return { parts: plain ? [plain] : [], remainder: '' };
+  }
+
+  // Leave room for the "n/m " prefix (at most 9 parts, so 4 characters)
+  const parts = Math.min(Math.max(maxParts, 1), 9);
+  const capacity = limit - 4;
+  const chunks: string[] = [];
+  let rest = plain;
+
+  while (rest && chunks.length < parts) {
+    const isLast = chunks.length === parts - 1;
+    const [chunk, remaining] = takeChunk(rest, capacity, encoding);
+    if (isLast && remaining) {
+      // No room for everything: end with the MORE notice and keep the rest for later
+      const suffix = `\n${moreNotice}`;
+      const [lastChunk, lastRemaining] = takeChunk(rest, capacity - measure(suffix, encoding), encoding);
+      chunks.push(`${lastChunk}${suffix}`);
+      rest = lastRemaining;
+      break;
+    }
+    chunks.push(chunk);
+    rest = remaining;
+  }
+
+  return {
+    parts: chunks.length === 1 ? chunks : chunks.map((chunk, i) => `${i + 1}/${chunks.length} ${chunk}`),
+    remainder: rest,
+  };
+}
+
+function measure(text: string, encoding: SmsEncoding): number {
+  if (encoding === 'UCS-2') return text.length;
+  let septets = 0;
+  for (const char of text) {
+    septets += GSM_EXTENDED.includes(char) ? 2 : 1;
+  }
+  return septets;
+}
+
+/**
+ * Take as much text as fits, breaking at a line or word boundary where possible
+ */
+function takeChunk(text: string, capacity: number, encoding: SmsEncoding): [string, string] {
+  if (measure(text, encoding) <= capacity) return [text, ''];
+
+  // Longest prefix that fits, counted per character so surrogate pairs and extension characters are never split
+  let end = 0;
+  let used = 0;
+  for (const char of text) {
+    const size = measure(char, encoding);
+    if (used + size > capacity) break;
+    used += size;
+    end += char.length;
+  }
+
+  const window = text.substring(0, end);
+  const lineBreak = window.lastIndexOf('\n');
+  const space = window.lastIndexOf(' ');
+  // Only break early if it doesn't waste more than a third of the message
+  const minBreak = Math.floor(end * 2 / 3);
+  const breakAt = lineBreak >= minBreak ? lineBreak : space >= minBreak ? space : end;
+
+  return [text.substring(0, breakAt).trim(), text.substring(breakAt).trim()];
+}
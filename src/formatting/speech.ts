@@ -0,0 +1,65 @@
+import { t } from '../languages';
+import { stripInlineMarkdown } from './parse';
+import { AnswerBlock, SpokenAnswer, SpokenSegment, StructuredAnswer } from './types';
+import { escapeXml } from '../utils/xml';
+
+// Pauses that let a listener follow the structure of the answer
+const PAUSE_AFTER_HEADING = 700;
+const PAUSE_AFTER_PARAGRAPH = 500;
+const PAUSE_AFTER_ITEM = 300;
+
+/**
+ * The answer as prose for text-to-speech: no markdown, symbols or sources, one segment per
+ * sentence group with pauses between them, cut off (with a "read more" notice) after maxLength characters
+ */
+export function renderSpeech(answer: StructuredAnswer, maxLength: number): SpokenAnswer {
+  const all = [...answer.blocks, ...answer.followUp].flatMap(toSegments).filter(segment => segment.text);
+
+  const segments: SpokenSegment[] = [];
+  let length = 0;
+  for (const segment of all) {
+    if (length + segment.text.length > maxLength) {
+      // The notice is written to follow cut-off text ("... Please continue"), so drop the dots
+      segments.push({ text: t(answer.language, 'voice.continueReading').replace(/^[.\s]+/, ''), pause: 0 });
+      break;
+    }
+    segments.push(segment);
+    length += segment.text.length + 1;
+  }
+
+  return {
+    segments,
+    text: segments.map(segment => segment.text).join(' '),
+    ssml: `<speak>${segments
+      .map((segment, i) => `${escapeXml(segment.text)}${i < segments.length - 1 && segment.pause ? `<break time="${segment.pause}ms"/>` : ''}`)
+      .join(' ')}</speak>`,
+  };
+}
+
+function toSegments(block: AnswerBlock): SpokenSegment[] {
+  switch (block.type) {
+    case 'heading':
+      return [{ text: toSentence(block.text), pause: PAUSE_AFTER_HEADING }];
+    case 'paragraph':
+    case 'callout':
+      return [{ text: toSentence(block.text), pause: PAUSE_AFTER_PARAGRAPH }];
+    case 'list':
+      return block.items.map((item, i) => ({
+        text: toSentence(item),
+        pause: i === block.items.length - 1 ? PAUSE_AFTER_PARAGRAPH : PAUSE_AFTER_ITEM,
+      }));
+  }
+}
+
+/**
+ * Plain words ending in punctuation, so the voice pauses at the end
+ */
+function toSentence(text: string): string {
+  const spoken = stripInlineMarkdown(text)
+    .replace(/\([^)]*https?:\/\/[^)]*\)|https?:\/\/\S+/g, '') // Links are not worth reading out
+    .replace(/[#*_`~|>]/g, '')
+    .replace(/\s*\n\s*/g, '. ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return /[.!?:;]$/.test(spoken) || !spoken ? spoken : `${spoken}.`;
+}
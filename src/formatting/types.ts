@@ -0,0 +1,38 @@
+// Structured answers shared by every channel renderer
+
+/**
+ * One block of an answer. Text keeps inline markdown (**bold**, *italic*, `code`, [links](url));
+ * each renderer turns that into what its channel can show or say.
+ */
+export type AnswerBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: string[] }
+  | { type: 'callout'; kind: CalloutKind; text: string };
+
+export type CalloutKind = 'tip' | 'warning' | 'info';
+
+export interface StructuredAnswer {
+  language: string;
+  blocks: AnswerBlock[];
+  sources: string; // Rendered source footer, e.g. "Source: KALRO 2023" ('' when there are no citations)
+  followUp: AnswerBlock[]; // Shown after the answer, e.g. the next profile question
+}
+
+export interface SpokenSegment {
+  text: string;
+  pause: number; // Milliseconds of silence after the segment
+}
+
+export interface SpokenAnswer {
+  segments: SpokenSegment[];
+  text: string; // Plain prose for engines without SSML
+  ssml: string; // <speak> document with <break> pauses between segments
+}
+
+// Rich answer for the web dashboard
+export interface WebAnswer {
+  blocks: AnswerBlock[];
+  sources: string;
+  followUp: AnswerBlock[];
+}
@@ -0,0 +1,32 @@
+import { renderPlainBlocks } from './parse';
+import { StructuredAnswer } from './types';
+
+/**
+ * Split the answer into USSD screens of at most pageLength characters, on word boundaries.
+ * Sources are left out - screens are too small for them.
+ */
+export function renderUssdPages(answer: StructuredAnswer, pageLength: number): string[] {
+  const plain = [renderPlainBlocks(answer.blocks, '\n'), renderPlainBlocks(answer.followUp, '\n')]
+    .filter(Boolean)
+    .join('\n')
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+
+  const pages: string[] = [];
+  let current = '';
+  for (const word of plain.split(' ')) {
+    // Break up anything longer than a page (e.g. URLs) so every page fits the screen
+    for (let i = 0; i < word.length; i += pageLength) {
+      const piece = word.substring(i, i + pageLength);
+      if (current && current.length + 1 + piece.length > pageLength) {
+        pages.push(current);
+        current = piece;
+      } else {
+        current = current ? `${current} ${piece}` : piece;
+      }
+    }
+  }
+  if (current) pages.push(current);
+
+  return pages;
+}
@@ -0,0 +1,45 @@
+import { AnswerBlock, StructuredAnswer, WebAnswer } from './types';
+
+// Labels the dashboard recognises as callouts
+const CALLOUT_LABELS = {
+  tip: '💡 Tip',
+  warning: '⚠️ Warning',
+  info: 'ℹ️ Info',
+};
+
+/**
+ * The answer as markdown (what is stored in the message history and streamed to the dashboard)
+ */
+export function renderMarkdown(answer: StructuredAnswer): string {
+  return [renderMarkdownBlocks(answer.blocks), answer.sources, renderMarkdownBlocks(answer.followUp)]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * The answer as blocks, so the dashboard can lay out lists and callouts without parsing markdown
+ */
+export function renderWeb(answer: StructuredAnswer): WebAnswer {
+  return {
+    blocks: answer.blocks,
+    sources: answer.sources,
+    followUp: answer.followUp,
+  };
+}
+
+function renderMarkdownBlocks(blocks: AnswerBlock[]): string {
+  return blocks
+    .map(block => {
+      switch (block.type) {
+        case 'heading':
+          return `## ${block.text}`;
+        case 'paragraph':
+          return block.text;
+        case 'list':
+          return block.items.map((item, i) => `${block.ordered ? `${block.start + i}.` : '-'} ${item}`).join('\n');
+        case 'callout':
+          return `${CALLOUT_LABELS[block.kind]}: ${block.text}`;
+      }
+    })
+    .join('\n\n');
+}
@@ -0,0 +1,56 @@
+import { AnswerBlock, StructuredAnswer } from './types';
+
+// WhatsApp rejects text messages longer than this
+const MAX_TEXT_LENGTH = 4096;
+
+const CALLOUT_ICONS = {
+  tip: '💡',
+  warning: '⚠️',
+  info: 'ℹ️',
+};
+
+/**
+ * The answer in WhatsApp's markdown subset: *bold*, _italic_, "- " and "1. " lists, no headings
+ */
+export function renderWhatsApp(answer: StructuredAnswer): string {
+  const parts = [
+    ...answer.blocks.map(renderBlock),
+    answer.sources && `_${answer.sources}_`,
+    ...answer.followUp.map(renderBlock),
+  ].filter(Boolean);
+
+  // Drop whole blocks from the end rather than cutting one off mid-sentence
+  let text = parts.join('\n\n');
+  while (text.length > MAX_TEXT_LENGTH && parts.length > 1) {
+    parts.pop();
+    text = `${parts.join('\n\n')}\n\n…`;
+  }
+  return text.length > MAX_TEXT_LENGTH ? `${text.substring(0, MAX_TEXT_LENGTH - 1)}…` : text;
+}
+
+function renderBlock(block: AnswerBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `*${toWhatsAppInline(block.text).replace(/^\*(.*)\*$/, '$1')}*`;
+    case 'paragraph':
+      return toWhatsAppInline(block.text);
+    case 'list':
+      return block.items
+        .map((item, i) => `${block.ordered ? `${block.start + i}.` : '-'} ${toWhatsAppInline(item)}`)
+        .join('\n');
+    case 'callout':
+      return `${CALLOUT_ICONS[block.kind]} ${toWhatsAppInline(block.text)}`;
+  }
+}
+
+/**
+ * Convert inline markdown: **bold** -> *bold*, *italic* -> _italic_, links written out
+ */
+function toWhatsAppInline(text: string): string {
+  return text
+    .replace(/(^|[^*\w])\*(?!\s)([^*\n]+?)\*(?!\*)/g, '$1_$2_')
+    .replace(/\*\*(.+?)\*\*/g, '*$1*')
+    .replace(/__(.+?)__/g, '*$1*')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)');
+}
@@ -7,10 +7,13 @@ import { setupSMSRoutes } from './channels/sms';
 import { setupUSSDRoutes } from './channels/ussd';
 import { setupVoiceRoutes } from './channels/voice';
 import { setupWebRoutes } from './channels/web';
+import { setupAdminRoutes } from './admin/routes';
 import { logger } from './utils/logger';
 import { dataSourceService } from './services/data-source';
-import { startAlertScheduler } from './services/alerts';
+import { alertScheduler } from './services/alert-scheduler';
 import { apiRateLimiter } from './middleware/rate-limiter';
+import { jobQueue } from './utils/job-queue';
+import { RawBodyRequest } from './middleware/whatsapp-signature';
 
 dotenv.config();
 
@@ -19,7 +22,12 @@ const PORT = process.env.PORT || 8080;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw body for webhook signature checks (WhatsApp X-Hub-Signature-256)
+  verify: (req, _res, buf) => {
+    (req as RawBodyRequest).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Apply general API rate limiting
@@ -33,10 +41,10 @@ dataSourceService.initialize().catch((error) => {
   logger.error('Failed to initialize data sources:', error);
 });
 
-// Start alert scheduler (checks alerts every hour)
+// Start the alert scheduler (each alert type on its own schedule); with ENABLE_ALERTS=false
+// alert checks only run when an external scheduler calls POST /api/admin/alerts/run
 if (process.env.ENABLE_ALERTS !== 'false') {
-  startAlertScheduler();
-  logger.info('Alert scheduler started');
+  alertScheduler.start();
 }
 
 // Health check
@@ -50,6 +58,10 @@ setupSMSRoutes(app);
 setupUSSDRoutes(app);
 setupVoiceRoutes(app);
 setupWebRoutes(app);
+setupAdminRoutes(app);
+
+// Start webhook workers once every channel has registered its job handlers
+jobQueue.start();
 
 // Error handling
 app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
@@ -0,0 +1,160 @@
+// English - the language agents reason in, and the last fallback for every string
+
+export const englishMessages = {
+  // Orchestrator greetings
+  'greeting.welcome': 'Hello! I\'m your agricultural assistant. I can help you with crops, livestock, pests, weather, or market information. What would you like to know?',
+  'greeting.returning': 'Hello! Feel free to ask me any farming question. I\'m here to help.',
+
+  // Answer footer, e.g. "Source: KALRO / FAOSTAT 2023"
+  'sources.label': 'Source',
+
+  // USSD menus
+  'ussd.welcome': 'Welcome to ShambaSmart AI',
+  'ussd.topic.crop': 'Crop Advice',
+  'ussd.topic.livestock': 'Livestock Health',
+  'ussd.topic.pest': 'Pest & Disease',
+  'ussd.topic.weather': 'Weather Forecast',
+  'ussd.topic.market': 'Market Prices',
+  'ussd.myProfile': 'My Profile',
+  'ussd.exit': 'Exit',
+  'ussd.back': 'Back',
+  'ussd.more': 'More',
+  'ussd.mainMenu': 'Main menu',
+  'ussd.moreCounties': 'More counties',
+  'ussd.chooseCounty': 'Choose county or type its name:',
+  'ussd.chooseCrop': 'Choose crop:',
+  'ussd.chooseAnimal': 'Choose animal:',
+  'ussd.needHelpWith': 'What do you need help with?',
+  'ussd.whatDoYouSee': 'What do you see?',
+  'ussd.invalidChoice': 'Invalid choice.',
+  'ussd.countyNotFound': 'County not found.',
+  'ussd.profileSaved': 'Profile saved.',
+  'ussd.noAdvice': 'No advice available right now. Please try again later.',
+  'ussd.goodbye': 'Thank you for using ShambaSmart AI!',
+  'ussd.error': 'Sorry, an error occurred. Please try again later.',
+  'crop.maize': 'Maize',
+  'crop.beans': 'Beans',
+  'crop.potatoes': 'Potatoes',
+  'crop.tomatoes': 'Tomatoes',
+  'crop.kales': 'Kales',
+  'crop.coffee': 'Coffee',
+  'crop.tea': 'Tea',
+  'crop.bananas': 'Bananas',
+  'animal.dairyCattle': 'Dairy cattle',
+  'animal.beefCattle': 'Beef cattle',
+  'animal.goats': 'Goats',
+  'animal.sheep': 'Sheep',
+  'animal.poultry': 'Poultry',
+  'animal.pigs': 'Pigs',
+  'problem.planting': 'Planting & seed varieties',
+  'problem.fertilizer': 'Fertilizer & soil',
+  'problem.watering': 'Watering',
+  'problem.harvest': 'Harvest & storage',
+  'problem.disease': 'Sick animal / disease signs',
+  'problem.feeding': 'Feeding & nutrition',
+  'problem.vaccination': 'Vaccination & deworming',
+  'problem.breeding': 'Breeding & production',
+  'problem.insects': 'Insects or worms',
+  'problem.leafSpots': 'Spots on leaves',
+  'problem.wilting': 'Wilting or yellowing',
+  'problem.rotting': 'Rotting fruit or roots',
+
+  // Voice prompts
+  'voice.welcome': 'Welcome to ShambaSmart AI. Please tell me your farming question.',
+  'voice.notHeard': 'Sorry, I could not hear you. Please try again.',
+  'voice.continueReading': '... Please continue reading on your phone.',
+  'voice.anotherQuestion': 'Do you have another question? Press 1 for the main menu, or 2 to end the call.',
+  'voice.askQuestion': 'Please tell me your question.',
+  'voice.retry': 'Sorry, I could not hear you. Please tell me your question again.',
+  'voice.goodbye': 'Thank you for using ShambaSmart AI. Goodbye.',
+  'voice.error': 'Sorry, an error occurred. Please try again later.',
+  // Comma-separated words that help speech recognition pick out farming terms
+  'voice.hints': 'maize, crops, livestock, pests, weather, price',
+  // Keypad menu on voice calls
+  'ivr.welcome': 'Welcome to ShambaSmart AI.',
+  'ivr.option': 'For {label}, press {digit}.',
+  'ivr.ownQuestion': 'To ask your own question, press 0.',
+  'ivr.mainMenu': 'For the main menu, press star.',
+  'ivr.countyCode': 'Enter your county code, then press hash. For example, 32 for Nakuru or 47 for Nairobi.',
+  'ivr.invalidChoice': 'Sorry, that is not one of the options.',
+  'ivr.countyNotFound': 'Sorry, that is not a county code.',
+  // Outbound calls for urgent alerts
+  'alertCall.intro': 'This is an urgent farming alert from ShambaSmart AI.',
+  'alertCall.acknowledge': 'Press 1 if you received this message.',
+  'alertCall.thanks': 'Thank you. Please take care of your farm.',
+  // Alert subscriptions (STOP/START <TYPE>)
+  'alerts.stopped': '{type} alerts are now off. Send START {command} to turn them back on.',
+  'alerts.started': '{type} alerts are now on. Send STOP {command} to turn them off.',
+  'alertType.weather': 'Weather',
+  'alertType.pest': 'Pest',
+  'alertType.market': 'Market price',
+  'alertType.advisory': 'Crop calendar',
+  'alertType.general': 'General',
+  'alertType.all': 'All',
+  // Crop photo diagnosis
+  'diagnosis.likely': '*Likely problem: {name}* ({level} confidence, {percent}%)',
+  'diagnosis.confidenceHigh': 'high',
+  'diagnosis.confidenceMedium': 'medium',
+  'diagnosis.confidenceLow': 'low',
+  'diagnosis.seen': 'What I see: {symptoms}',
+  'diagnosis.typicalSigns': 'Typical signs: {symptoms}',
+  'diagnosis.control': '*Control measures:*',
+  'diagnosis.notReviewed': 'This is not in our reviewed pest list, so please confirm with your extension officer before spraying.',
+  'diagnosis.confirm': 'Is this what you see on your {crop}? Reply YES to confirm, or describe the symptoms and I will check again.',
+  'diagnosis.unclear': 'I could not identify the problem clearly from this photo. Please send a close-up of the affected leaves, stem or fruit in daylight, or describe what you see.',
+  'diagnosis.failed': 'Sorry, I could not analyse your photo. Please try again or describe the problem in a message.',
+  // Crop calendar advisories, and replies to PLANTED
+  'advisory.longRains': 'long rains',
+  'advisory.shortRains': 'short rains',
+  'advisory.and': 'and',
+  'advisory.landPreparation.title': '{Season}: prepare your land',
+  'advisory.landPreparation.message': 'The {season} planting window in {county} opens in {months}. Start preparing land for your {crops} now: clear weeds, plough and add manure, and buy certified seed and fertilizer early.',
+  'advisory.plantingWindow.title': '{Season}: planting window open',
+  'advisory.plantingWindow.message': 'The {season} planting window in {county} is open ({months}). Plant your {crops} once the soil is moist to a hand\'s depth. Reply PLANTED when you have planted so we can time your next reminders.',
+  'advisory.scouting.title': '{Season}: check your crops for pests',
+  'advisory.scouting.message': 'Walk through your {crops} this week and check the leaves, stems and whorls for {pests}. Early action is cheaper. Send us a photo of anything unusual.',
+  'advisory.scouting.anyPests': 'pests and disease',
+  'advisory.topDressing.title': '{Season}: top-dressing due',
+  'advisory.topDressing.message': 'Your {crops} should be about {weeks} weeks old. Top-dress with CAN or urea now, when the soil is moist, placing it a hand\'s width from each plant.',
+  'advisory.harvestPreparation.title': '{Season}: prepare for harvest',
+  'advisory.harvestPreparation.message': 'Harvest of your {crops} is approaching. Prepare clean, dry storage and bags, plan to dry grain well before storing, and use hermetic bags or approved storage pesticides against weevils. Check market prices before you sell.',
+  'advisory.planted': 'Noted: you planted on {date}. We will remind you when to check for pests, top-dress and prepare for harvest.',
+  'advisory.plantedNoSeason': 'Thank you. We could not match this to a planting season for your county. Send PROFILE to check your county.',
+
+  // Pest outbreaks declared from farmers' reports
+  'outbreak.reported': '{reporters} farmers in {county} reported {pest} on their {crops} this week. Check your {crops} now.',
+  'outbreak.control': 'Control: {control}.',
+  'outbreak.sendPhoto': 'Send us a photo of any damage you see for advice.',
+
+  // WhatsApp
+  'whatsapp.voiceNotUnderstood': 'Sorry, I could not understand your voice note. Please try again or type your question.',
+  'whatsapp.helpful': 'Was this helpful?',
+  'whatsapp.yes': 'Yes',
+  'whatsapp.no': 'No',
+  'whatsapp.feedbackThanks': 'Thank you for your feedback!',
+  'whatsapp.feedbackSorry': 'Sorry the advice didn\'t help. Tell me more about your problem, or ask for an extension officer.',
+  'whatsapp.choose': 'Choose',
+  'whatsapp.none': 'None',
+  'whatsapp.locationSaved': '📍 Location saved: {county} County. Advice will now fit your area.',
+  'whatsapp.locationSavedNoCounty': '📍 Location saved.',
+
+  // SMS
+  'sms.more': 'Reply MORE for details',
+  'sms.nothingMore': 'That was the whole answer. Send a new question any time.',
+
+  // Farmer profile questions
+  'onboarding.intro': 'Welcome to ShambaSmart AI! Let\'s set up your farm profile so advice fits your farm. Reply SKIP to skip a question.',
+  'onboarding.name': 'What is your name?',
+  'onboarding.county': 'Which county is your farm in?',
+  'onboarding.crops': 'Which crops do you grow? (e.g. maize, beans) Reply NONE if none.',
+  'onboarding.livestock': 'Which animals do you keep? (e.g. cows, goats, poultry) Reply NONE if none.',
+  'onboarding.language': 'Preferred language?',
+  'onboarding.farmSize': 'How big is your farm in acres? (e.g. 2.5)',
+  'onboarding.current': 'Now',
+  'onboarding.acres': 'acres',
+  'onboarding.done': 'Thank you{name}! Your profile is saved: {summary}. Send PROFILE anytime to update it.',
+  'onboarding.invalidName': 'Please reply with your name.',
+  'onboarding.invalidCounty': 'Sorry, I don\'t know that county. Please type your county name, e.g. Nakuru.',
+  'onboarding.invalidLanguage': 'Please reply with the number of your language.',
+  'onboarding.invalidFarmSize': 'Please reply with the number of acres, e.g. 2.5',
+};
@@ -0,0 +1,101 @@
+// Languages farmers can use, with per-language UI strings and agricultural glossaries.
+// SUPPORTED_LANGUAGES (comma-separated codes) limits the set offered to farmers; English is always on.
+import { englishMessages } from './en';
+import { swahili } from './sw';
+import { kikuyu } from './ki';
+import { dholuo } from './luo';
+import { kalenjin } from './kln';
+import { luhya } from './luy';
+import { kamba } from './kam';
+import { LANGUAGE_CODES, LanguageCode, LanguageDefinition, MessageKey } from './types';
+import { logger } from '../utils/logger';
+
+export { LANGUAGE_CODES, LanguageCode, LanguageDefinition, MessageKey };
+
+const english: LanguageDefinition = {
+  code: 'en',
+  name: 'English',
+  nativeName: 'English',
+  speechLocale: 'en-US',
+  glossary: {},
+  messages: englishMessages,
+};
+
+const LANGUAGES: Record<LanguageCode, LanguageDefinition> = {
+  en: english,
+  sw: swahili,
+  ki: kikuyu,
+  luo: dholuo,
+  kln: kalenjin,
+  luy: luhya,
+  kam: kamba,
+};
+
+let enabledLanguages: LanguageDefinition[] | null = null;
+
+export function getEnabledLanguages(): LanguageDefinition[] {
+  if (enabledLanguages) return enabledLanguages;
+
+  const configured = (process.env.SUPPORTED_LANGUAGES || LANGUAGE_CODES.join(','))
+    .split(',')
+    .map(code => code.trim().toLowerCase())
+    .filter(Boolean);
+
+  const unknown = configured.filter(code => !(LANGUAGE_CODES as readonly string[]).includes(code));
+  if (unknown.length > 0) {
+    logger.warn(`Ignoring unknown SUPPORTED_LANGUAGES entries: ${unknown.join(', ')}`);
+  }
+
+  enabledLanguages = LANGUAGE_CODES
+    .filter(code => code === 'en' || configured.includes(code))
+    .map(code => LANGUAGES[code]);
+  return enabledLanguages;
+}
+
+export function isSupportedLanguage(code: string | undefined): code is LanguageCode {
+  return !!code && getEnabledLanguages().some(language => language.code === code);
+}
+
+/**
+ * Definition for a language code, English for unknown codes
+ */
+export function getLanguage(code: string | undefined): LanguageDefinition {
+  return LANGUAGES[code as LanguageCode] || english;
+}
+
+/**
+ * The language followed by its fallbacks, always ending in English
+ */
+export function getFallbackChain(code: string | undefined): LanguageDefinition[] {
+  const chain: LanguageDefinition[] = [];
+  let language: LanguageDefinition | undefined = getLanguage(code);
+  while (language && !chain.includes(language)) {
+    chain.push(language);
+    language = language.fallback ? LANGUAGES[language.fallback] : undefined;
+  }
+  if (!chain.includes(english)) chain.push(english);
+  return chain;
+}
+
+/**
+ * Whether a language has its own translation of a string (rather than a fallback)
+ */
+export function hasOwnMessage(code: string | undefined, key: MessageKey): boolean {
+  return getLanguage(code).messages[key] !== undefined;
+}
+
+/**
+ * Look up a UI string, following the fallback chain, and fill in {placeholders}
+ */
+export function t(code: string | undefined, key: MessageKey, params: Record<string, string | number> = {}): string {
+  const message = getFallbackChain(code).map(language => language.messages[key]).find(text => text !== undefined)!;
+  return message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+/**
+ * The language calls are spoken in: the farmer's language when speech services support it,
+ * otherwise its first fallback that does (e.g. Kiswahili for Kikuyu)
+ */
+export function getSpeechLanguage(code: string | undefined): LanguageDefinition {
+  return getFallbackChain(code).find(language => language.speechLocale)!;
+}
@@ -0,0 +1,30 @@
+import { LanguageDefinition } from './types';
+
+// Strings not listed here fall back to Kiswahili. Review new strings with Kamba-speaking extension officers.
+export const kamba: LanguageDefinition = {
+  code: 'kam',
+  name: 'Kamba',
+  nativeName: 'Kikamba',
+  fallback: 'sw',
+  glossary: {
+    'Maize': 'Mbemba',
+    'Beans': 'Mboso',
+    'Pigeon peas': 'Nzuu',
+    'Cowpeas': 'Nthooko',
+    'Sorghum': 'Muvya',
+    'Seeds': 'Mbeu',
+    'Rain': 'Mbua',
+    'Water': 'Kiw\'u',
+    'Farm': 'Muunda',
+    'Market': 'Soko',
+    'Cattle': 'Ng\'ombe',
+    'Goat': 'Mbui',
+    'Chicken': 'Nguku',
+    'Milk': 'Iia',
+  },
+  messages: {
+    'greeting.welcome': 'Wakya! Nyie ni mutethya waku wa uimi. Ngulya kikulyo kyonthe kya uimi, indo, mbua kana soko.',
+    'greeting.returning': 'Wakya! Ngulya kikulyo kyonthe kya uimi.',
+    'ussd.welcome': 'Wakya! ShambaSmart AI',
+  },
+};
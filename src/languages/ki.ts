@@ -0,0 +1,36 @@
+import { LanguageDefinition } from './types';
+
+// Strings not listed here fall back to Kiswahili. Review new strings with Kikuyu-speaking extension officers.
+export const kikuyu: LanguageDefinition = {
+  code: 'ki',
+  name: 'Kikuyu',
+  nativeName: 'Gĩkũyũ',
+  fallback: 'sw',
+  glossary: {
+    'Maize': 'Mbembe',
+    'Beans': 'Mboco',
+    'Potatoes': 'Waru',
+    'Bananas': 'Marigũ',
+    'Tea': 'Macani',
+    'Seeds': 'Mbeũ',
+    'Fertilizer': 'Mborea',
+    'Soil': 'Tĩĩri',
+    'Rain': 'Mbura',
+    'Water': 'Maaĩ',
+    'Harvest': 'Magetha',
+    'Farm': 'Mũgũnda',
+    'Farmer': 'Mũrĩmi',
+    'Market': 'Ndũnyũ',
+    'Price': 'Thogora',
+    'Livestock': 'Mahiũ',
+    'Cattle': 'Ng\'ombe',
+    'Goat': 'Mbũri',
+    'Chicken': 'Ngũkũ',
+    'Milk': 'Iria',
+  },
+  messages: {
+    'greeting.welcome': 'Wĩ mwega! Nĩ niĩ mũteithia waku wa ũrĩmi. Njũria ũhoro wa irio, mahiũ, rĩera kana ndũnyũ.',
+    'greeting.returning': 'Wĩ mwega! Njũria kĩũria o gĩothe gĩa ũrĩmi.',
+    'ussd.welcome': 'Wĩ mwega! ShambaSmart AI',
+  },
+};
@@ -0,0 +1,25 @@
+import { LanguageDefinition } from './types';
+
+// Strings not listed here fall back to Kiswahili. Review new strings with Kalenjin-speaking extension officers.
+export const kalenjin: LanguageDefinition = {
+  code: 'kln',
+  name: 'Kalenjin',
+  nativeName: 'Kalenjin',
+  fallback: 'sw',
+  glossary: {
+    'Maize': 'Bandek',
+    'Rain': 'Robta',
+    'Water': 'Bek',
+    'Farm': 'Imbaret',
+    'Cattle': 'Tuga',
+    'Cow': 'Teta',
+    'Goat': 'Artet',
+    'Chicken': 'Ingokiet',
+    'Milk': 'Chego',
+  },
+  messages: {
+    'greeting.welcome': 'Chamgei! Ani konyit ne bo minet. Teben tebutik age tugul che bo minet ak tuga.',
+    'greeting.returning': 'Chamgei! Teben tebutik age tugul che bo minet.',
+    'ussd.welcome': 'Chamgei! ShambaSmart AI',
+  },
+};
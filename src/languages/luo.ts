@@ -0,0 +1,36 @@
+import { LanguageDefinition } from './types';
+
+// Strings not listed here fall back to Kiswahili. Review new strings with Dholuo-speaking extension officers.
+export const dholuo: LanguageDefinition = {
+  code: 'luo',
+  name: 'Dholuo',
+  nativeName: 'Dholuo',
+  fallback: 'sw',
+  glossary: {
+    'Maize': 'Oduma',
+    'Beans': 'Oganda',
+    'Sorghum': 'Bel',
+    'Millet': 'Kal',
+    'Cassava': 'Mogo',
+    'Sweet potatoes': 'Rabuon',
+    'Seeds': 'Kodhi',
+    'Soil': 'Lowo',
+    'Rain': 'Koth',
+    'Water': 'Pi',
+    'Harvest': 'Keyo',
+    'Farm': 'Puodho',
+    'Market': 'Chiro',
+    'Price': 'Nengo',
+    'Livestock': 'Jamni',
+    'Cattle': 'Dhiang\'',
+    'Goat': 'Diel',
+    'Chicken': 'Gweno',
+    'Milk': 'Chak',
+    'Insects': 'Kudni',
+  },
+  messages: {
+    'greeting.welcome': 'Misawa! An jakony mari e weche mag pur. Penja kuom cham, jamni, kudni, kor polo kata chiro.',
+    'greeting.returning': 'Misawa! Inyalo penja penjo moro amora mar pur.',
+    'ussd.welcome': 'Misawa! ShambaSmart AI',
+  },
+};
@@ -0,0 +1,28 @@
+import { LanguageDefinition } from './types';
+
+// Luhya has many dialects; terms follow common usage across them. Strings not listed here fall back
+// to Kiswahili. Review new strings with Luhya-speaking extension officers.
+export const luhya: LanguageDefinition = {
+  code: 'luy',
+  name: 'Luhya',
+  nativeName: 'Luluhya',
+  fallback: 'sw',
+  glossary: {
+    'Maize': 'Kamaindi',
+    'Beans': 'Tsimbande',
+    'Seeds': 'Imbeyu',
+    'Rain': 'Ifula',
+    'Water': 'Amatsi',
+    'Farm': 'Omukunda',
+    'Market': 'Musoko',
+    'Cattle': 'Ing\'ombe',
+    'Goat': 'Imbusi',
+    'Chicken': 'Ingokho',
+    'Milk': 'Amabere',
+  },
+  messages: {
+    'greeting.welcome': 'Mulembe! Endi omukhonyi wuwo wa bulimi. Ndeba lilebo liosi khu bulimi, ebiayo, ifula nohomba musoko.',
+    'greeting.returning': 'Mulembe! Ndeba lilebo liosi khu bulimi.',
+    'ussd.welcome': 'Mulembe! ShambaSmart AI',
+  },
+};
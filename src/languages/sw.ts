@@ -0,0 +1,181 @@
+import { LanguageDefinition } from './types';
+
+export const swahili: LanguageDefinition = {
+  code: 'sw',
+  name: 'Kiswahili',
+  nativeName: 'Kiswahili',
+  speechLocale: 'sw-KE',
+  glossary: {
+    'Maize/Corn': 'Mahindi',
+    'Beans': 'Maharage',
+    'Tomatoes': 'Nyanya',
+    'Potatoes': 'Viazi',
+    'Wheat': 'Ngano',
+    'Rice': 'Mchele',
+    'Coffee': 'Kahawa',
+    'Tea': 'Chai',
+    'Fertilizer': 'Mbolea',
+    'Pesticide': 'Dawa ya wadudu',
+    'Seeds': 'Mbegu',
+    'Harvest': 'Mavuno',
+    'Planting': 'Kupanda',
+    'Irrigation': 'Umwagiliaji',
+    'Soil': 'Udongo',
+    'Weather': 'Hali ya hewa',
+    'Rain': 'Mvua',
+    'Drought': 'Ukame',
+    'Market': 'Soko',
+    'Price': 'Bei',
+    'Farmer': 'Mkulima',
+    'Farm': 'Shamba',
+    'Crop': 'Zao',
+    'Livestock': 'Mifugo',
+    'Cattle': 'Ng\'ombe',
+    'Goat': 'Mbuzi',
+    'Chicken': 'Kuku',
+  },
+  messages: {
+    'greeting.welcome': 'Karibu! Mimi ni msaidizi wako wa kilimo. Nisaidie kwa swali lolote kuhusu mazao, mifugo, wadudu, hali ya hewa, au soko. Unaweza kuuliza nini?',
+    'greeting.returning': 'Habari! Unaweza kuuliza swali lolote kuhusu kilimo. Nitafurahi kukusaidia.',
+
+    'sources.label': 'Chanzo',
+
+    'ussd.welcome': 'Karibu ShambaSmart AI',
+    'ussd.topic.crop': 'Ushauri wa Mazao',
+    'ussd.topic.livestock': 'Afya ya Mifugo',
+    'ussd.topic.pest': 'Wadudu na Magonjwa',
+    'ussd.topic.weather': 'Hali ya Hewa',
+    'ussd.topic.market': 'Bei za Soko',
+    'ussd.myProfile': 'Wasifu Wangu',
+    'ussd.exit': 'Ondoka',
+    'ussd.back': 'Rudi',
+    'ussd.more': 'Zaidi',
+    'ussd.mainMenu': 'Menyu kuu',
+    'ussd.moreCounties': 'Kaunti zaidi',
+    'ussd.chooseCounty': 'Chagua kaunti au andika jina:',
+    'ussd.chooseCrop': 'Chagua zao:',
+    'ussd.chooseAnimal': 'Chagua mnyama:',
+    'ussd.needHelpWith': 'Unahitaji msaada gani?',
+    'ussd.whatDoYouSee': 'Unaona nini?',
+    'ussd.invalidChoice': 'Chaguo si sahihi.',
+    'ussd.countyNotFound': 'Kaunti haikupatikana.',
+    'ussd.profileSaved': 'Wasifu umehifadhiwa.',
+    'ussd.noAdvice': 'Hakuna ushauri kwa sasa. Tafadhali jaribu tena baadaye.',
+    'ussd.goodbye': 'Asante kwa kutumia ShambaSmart AI!',
+    'ussd.error': 'Samahani, kuna hitilafu. Tafadhali jaribu tena baadaye.',
+    'crop.maize': 'Mahindi',
+    'crop.beans': 'Maharage',
+    'crop.potatoes': 'Viazi',
+    'crop.tomatoes': 'Nyanya',
+    'crop.kales': 'Sukuma wiki',
+    'crop.coffee': 'Kahawa',
+    'crop.tea': 'Chai',
+    'crop.bananas': 'Ndizi',
+    'animal.dairyCattle': 'Ng\'ombe wa maziwa',
+    'animal.beefCattle': 'Ng\'ombe wa nyama',
+    'animal.goats': 'Mbuzi',
+    'animal.sheep': 'Kondoo',
+    'animal.poultry': 'Kuku',
+    'animal.pigs': 'Nguruwe',
+    'problem.planting': 'Upandaji na mbegu',
+    'problem.fertilizer': 'Mbolea na udongo',
+    'problem.watering': 'Kumwagilia',
+    'problem.harvest': 'Mavuno na uhifadhi',
+    'problem.disease': 'Mnyama mgonjwa',
+    'problem.feeding': 'Lishe',
+    'problem.vaccination': 'Chanjo na dawa ya minyoo',
+    'problem.breeding': 'Uzalishaji',
+    'problem.insects': 'Wadudu au viwavi',
+    'problem.leafSpots': 'Madoa kwenye majani',
+    'problem.wilting': 'Kunyauka au kugeuka manjano',
+    'problem.rotting': 'Matunda au mizizi kuoza',
+
+    'voice.welcome': 'Karibu ShambaSmart AI. Tafadhali sema swali lako la kilimo.',
+    'voice.notHeard': 'Samahani, sikuweza kusikia. Tafadhali jaribu tena.',
+    'voice.continueReading': '... Tafadhali endelea kusoma kwenye simu yako.',
+    'voice.anotherQuestion': 'Je, una swali jingine? Bonyeza 1 kwa menyu kuu, au 2 kumaliza simu.',
+    'voice.askQuestion': 'Tafadhali sema swali lako.',
+    'voice.retry': 'Samahani, sikuweza kusikia. Tafadhali sema swali lako tena.',
+    'voice.goodbye': 'Asante kwa kutumia ShambaSmart AI. Kwaheri.',
+    'voice.error': 'Samahani, kuna hitilafu. Tafadhali jaribu tena baadaye.',
+    'voice.hints': 'mahindi, mazao, mifugo, wadudu, hali ya hewa, bei',
+    'ivr.welcome': 'Karibu ShambaSmart AI.',
+    'ivr.option': 'Kwa {label}, bonyeza {digit}.',
+    'ivr.ownQuestion': 'Kuuliza swali lako mwenyewe, bonyeza 0.',
+    'ivr.mainMenu': 'Kwa menyu kuu, bonyeza nyota.',
+    'ivr.countyCode': 'Weka nambari ya kaunti yako, kisha bonyeza alama ya reli. Kwa mfano, 32 kwa Nakuru au 47 kwa Nairobi.',
+    'ivr.invalidChoice': 'Samahani, hilo si mojawapo ya machaguo.',
+    'ivr.countyNotFound': 'Samahani, hiyo si nambari ya kaunti.',
+    'alertCall.intro': 'Hii ni tahadhari ya dharura ya kilimo kutoka ShambaSmart AI.',
+    'alertCall.acknowledge': 'Bonyeza 1 kama umepokea ujumbe huu.',
+    'alertCall.thanks': 'Asante. Tafadhali linda shamba lako.',
+    'alerts.stopped': 'Arifa za {type} zimezimwa. Tuma ANZA {command} kuziwasha tena.',
+    'alerts.started': 'Arifa za {type} zimewashwa. Tuma ACHA {command} kuzizima.',
+    'alertType.weather': 'hali ya hewa',
+    'alertType.pest': 'wadudu',
+    'alertType.market': 'bei za soko',
+    'alertType.advisory': 'kalenda ya mazao',
+    'alertType.general': 'jumla',
+    'alertType.all': 'aina zote',
+    'diagnosis.likely': '*Tatizo linalowezekana: {name}* (uhakika {level}, {percent}%)',
+    'diagnosis.confidenceHigh': 'wa juu',
+    'diagnosis.confidenceMedium': 'wa wastani',
+    'diagnosis.confidenceLow': 'wa chini',
+    'diagnosis.seen': 'Ninachoona: {symptoms}',
+    'diagnosis.typicalSigns': 'Dalili za kawaida: {symptoms}',
+    'diagnosis.control': '*Njia za kudhibiti:*',
+    'diagnosis.notReviewed': 'Hili halimo kwenye orodha yetu ya wadudu iliyokaguliwa, kwa hivyo tafadhali thibitisha na afisa wa ugani kabla ya kunyunyiza dawa.',
+    'diagnosis.confirm': 'Je, hiki ndicho unachoona kwenye {crop} yako? Jibu NDIYO kuthibitisha, au eleza dalili nami nitaangalia tena.',
+    'diagnosis.unclear': 'Sikuweza kutambua tatizo vizuri kutoka kwa picha hii. Tafadhali tuma picha ya karibu ya majani, shina au tunda lililoathirika mchana, au eleza unachoona.',
+    'diagnosis.failed': 'Samahani, sikuweza kuchambua picha yako. Tafadhali jaribu tena au eleza tatizo kwa ujumbe.',
+    'advisory.longRains': 'mvua za masika',
+    'advisory.shortRains': 'mvua za vuli',
+    'advisory.and': 'na',
+    'advisory.landPreparation.title': '{Season}: andaa shamba lako',
+    'advisory.landPreparation.message': 'Msimu wa kupanda wa {season} katika {county} unaanza {months}. Anza kuandaa shamba la {crops} sasa: ondoa magugu, lima na weka samadi, na nunua mbegu zilizothibitishwa na mbolea mapema.',
+    'advisory.plantingWindow.title': '{Season}: wakati wa kupanda umefika',
+    'advisory.plantingWindow.message': 'Msimu wa kupanda wa {season} katika {county} umeanza ({months}). Panda {crops} udongo ukiwa na unyevu wa kina cha kiganja. Jibu NIMEPANDA ukishapanda ili tupange vikumbusho vyako vijavyo.',
+    'advisory.scouting.title': '{Season}: kagua mazao yako kwa wadudu',
+    'advisory.scouting.message': 'Tembelea {crops} wiki hii na uangalie majani, mashina na vilele kwa {pests}. Kuchukua hatua mapema ni nafuu. Tutumie picha ya chochote kisicho cha kawaida.',
+    'advisory.scouting.anyPests': 'wadudu na magonjwa',
+    'advisory.topDressing.title': '{Season}: wakati wa mbolea ya kukuzia',
+    'advisory.topDressing.message': 'Mimea yako ya {crops} inapaswa kuwa na umri wa wiki {weeks} hivi. Weka mbolea ya kukuzia (CAN au urea) sasa udongo ukiwa na unyevu, umbali wa upana wa kiganja kutoka kila mmea.',
+    'advisory.harvestPreparation.title': '{Season}: jiandae kwa mavuno',
+    'advisory.harvestPreparation.message': 'Mavuno ya {crops} yanakaribia. Andaa ghala safi na kavu na magunia, panga kukausha nafaka vizuri kabla ya kuhifadhi, na tumia magunia ya hermetic au dawa za kuhifadhi zilizoidhinishwa dhidi ya vidudu. Angalia bei za soko kabla ya kuuza.',
+    'advisory.planted': 'Tumepokea: ulipanda tarehe {date}. Tutakukumbusha wakati wa kukagua wadudu, kuweka mbolea ya kukuzia na kujiandaa kwa mavuno.',
+    'advisory.plantedNoSeason': 'Asante. Hatukuweza kulinganisha hili na msimu wa kupanda wa kaunti yako. Tuma PROFILE kuangalia kaunti yako.',
+
+    'outbreak.reported': 'Wakulima {reporters} katika {county} wameripoti {pest} kwenye {crops} zao wiki hii. Kagua {crops} yako sasa.',
+    'outbreak.control': 'Udhibiti: {control}.',
+    'outbreak.sendPhoto': 'Tutumie picha ya uharibifu wowote unaouona upate ushauri.',
+
+    'whatsapp.voiceNotUnderstood': 'Samahani, sikuweza kuelewa ujumbe wako wa sauti. Tafadhali jaribu tena au andika swali lako.',
+    'whatsapp.helpful': 'Je, hii imekusaidia?',
+    'whatsapp.yes': 'Ndiyo',
+    'whatsapp.no': 'Hapana',
+    'whatsapp.feedbackThanks': 'Asante kwa maoni yako!',
+    'whatsapp.feedbackSorry': 'Samahani ushauri haukusaidia. Nieleze zaidi kuhusu tatizo lako, au omba afisa wa ugani.',
+    'whatsapp.choose': 'Chagua',
+    'whatsapp.none': 'Hakuna',
+    'whatsapp.locationSaved': '📍 Mahali pamehifadhiwa: Kaunti ya {county}. Ushauri sasa utalingana na eneo lako.',
+    'whatsapp.locationSavedNoCounty': '📍 Mahali pamehifadhiwa.',
+
+    'sms.more': 'Jibu ZAIDI kwa maelezo',
+    'sms.nothingMore': 'Hilo ndilo jibu lote. Tuma swali jipya wakati wowote.',
+
+    'onboarding.intro': 'Karibu ShambaSmart AI! Tuweke wasifu wa shamba lako ili ushauri ulingane na shamba lako. Jibu RUKA kuruka swali.',
+    'onboarding.name': 'Jina lako ni nani?',
+    'onboarding.county': 'Shamba lako liko kaunti gani?',
+    'onboarding.crops': 'Unalima mazao gani? (mf. mahindi, maharagwe) Jibu HAKUNA kama hakuna.',
+    'onboarding.livestock': 'Unafuga wanyama gani? (mf. ng\'ombe, mbuzi, kuku) Jibu HAKUNA kama hakuna.',
+    'onboarding.language': 'Lugha unayopendelea?',
+    'onboarding.farmSize': 'Shamba lako lina ekari ngapi? (mf. 2.5)',
+    'onboarding.current': 'Sasa',
+    'onboarding.acres': 'ekari',
+    'onboarding.done': 'Asante{name}! Wasifu wako umehifadhiwa: {summary}. Tuma PROFILE wakati wowote kuubadilisha.',
+    'onboarding.invalidName': 'Tafadhali jibu kwa jina lako.',
+    'onboarding.invalidCounty': 'Samahani, sijui kaunti hiyo. Tafadhali andika jina la kaunti yako, mf. Nakuru.',
+    'onboarding.invalidLanguage': 'Tafadhali jibu kwa nambari ya lugha yako.',
+    'onboarding.invalidFarmSize': 'Tafadhali jibu kwa idadi ya ekari, mf. 2.5',
+  },
+};
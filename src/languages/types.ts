@@ -0,0 +1,21 @@
+import { englishMessages } from './en';
+
+// ISO 639 codes: English, Kiswahili, Kikuyu, Dholuo, Kalenjin, Luhya, Kamba
+export const LANGUAGE_CODES = ['en', 'sw', 'ki', 'luo', 'kln', 'luy', 'kam'] as const;
+
+export type LanguageCode = typeof LANGUAGE_CODES[number];
+
+export type MessageKey = keyof typeof englishMessages;
+
+export interface LanguageDefinition {
+  code: LanguageCode;
+  name: string; // English name, used in model prompts
+  nativeName: string; // Shown to farmers when they pick a language
+  // Language used for strings this one does not translate (English is always last)
+  fallback?: LanguageCode;
+  // BCP-47 locale for speech recognition and text-to-speech; voice uses the fallback when absent
+  speechLocale?: string;
+  // English agricultural term -> term farmers use, given to the translation model
+  glossary: Record<string, string>;
+  messages: Partial<Record<MessageKey, string>>;
+}
@@ -0,0 +1,62 @@
+import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { LLMProvider, LLMRequest } from './types';
+import { logger } from '../utils/logger';
+
+export class GoogleAIProvider implements LLMProvider {
+  name = 'googleai';
+  supportsImages = true;
+
+  isConfigured(): boolean {
+    return !!process.env.GOOGLE_AI_API_KEY;
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    const result = await this.createModel().generateContent(this.buildRequest(request));
+    const text = result.response.text();
+
+    if (!text) {
+      throw new Error('No text in Google AI response');
+    }
+    return text;
+  }
+
+  async *generateStream(request: LLMRequest): AsyncIterable<string> {
+    const result = await this.createModel().generateContentStream(this.buildRequest(request));
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) yield text;
+    }
+  }
+
+  private createModel(): GenerativeModel {
+    // Use gemini-2.0-flash which is the current stable model
+    const modelName = process.env.GOOGLE_AI_MODEL || 'gemini-2.0-flash';
+    logger.info(`Using Google Generative AI (API key) with model: ${modelName}`);
+
+    const genAI = new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY || '');
+    return genAI.getGenerativeModel({ model: modelName });
+  }
+
+  private buildRequest(request: LLMRequest): any {
+    // Google Generative AI uses systemInstruction as a string or Part, not Content
+    const generateRequest: any = {
+      contents: [{
+        role: 'user',
+        parts: [
+          ...(request.images || []).map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+          { text: request.prompt },
+        ],
+      }],
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+        topP: 0.95,
+      },
+    };
+
+    if (request.systemInstructions) {
+      generateRequest.systemInstruction = request.systemInstructions;
+    }
+    return generateRequest;
+  }
+}
@@ -0,0 +1,42 @@
+import { LLMProvider } from './types';
+import { VertexAIProvider } from './vertex-provider';
+import { GoogleAIProvider } from './google-ai-provider';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+import { StubProvider } from './stub-provider';
+import { logger } from '../utils/logger';
+
+export { LLMProvider, LLMRequest, LLMImage, TokenHandler } from './types';
+export { StubScriptEntry } from './stub-provider';
+
+export const stubProvider = new StubProvider();
+
+const providers: Record<string, LLMProvider> = {
+  vertex: new VertexAIProvider(),
+  googleai: new GoogleAIProvider(),
+  openai: new OpenAICompatibleProvider(),
+  stub: stubProvider,
+};
+
+// Preferred order when LLM_PROVIDER is not set: Vertex AI, then Google AI API key
+const DEFAULT_CHAIN = ['vertex', 'googleai'];
+
+/**
+ * Resolve the providers to try, in order, from LLM_PROVIDER
+ * (a single name or a comma-separated fallback chain, e.g. "openai,stub").
+ * Providers that are not configured are skipped.
+ */
+export function getProviderChain(): LLMProvider[] {
+  const configured = process.env.LLM_PROVIDER;
+  const names = configured
+    ? configured.split(',').map(name => name.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_CHAIN;
+
+  return names
+    .map(name => {
+      if (!providers[name]) {
+        logger.warn(`Unknown LLM provider "${name}" in LLM_PROVIDER, ignoring`);
+      }
+      return providers[name];
+    })
+    .filter((provider): provider is LLMProvider => !!provider && provider.isConfigured());
+}
@@ -0,0 +1,107 @@
+import axios from 'axios';
+import { LLMProvider, LLMRequest } from './types';
+import { logger } from '../utils/logger';
+
+/**
+ * Provider for any server exposing the OpenAI chat completions API
+ * (Ollama, llama.cpp server, vLLM, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  name = 'openai';
+  // Vision models (e.g. llava, llama3.2-vision) accept images as data URLs
+  supportsImages = true;
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_BASE_URL;
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    const response = await axios.post(this.getUrl(), this.buildBody(request, false), this.getConfig());
+
+    const text = response.data?.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error('No text in OpenAI-compatible response');
+    }
+    return text;
+  }
+
+  async *generateStream(request: LLMRequest): AsyncIterable<string> {
+    const response = await axios.post(this.getUrl(), this.buildBody(request, true), {
+      ...this.getConfig(),
+      responseType: 'stream',
+    });
+
+    // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+    let buffered = '';
+    for await (const chunk of response.data) {
+      buffered += chunk.toString();
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data) continue;
+        if (data === '[DONE]') return;
+
+        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    }
+  }
+
+  private getUrl(): string {
+    const baseUrl = (process.env.OPENAI_BASE_URL || '').replace(/\/+$/, '');
+    return `${baseUrl}/chat/completions`;
+  }
+
+  private buildBody(request: LLMRequest, stream: boolean): Record<string, any> {
+    // Local servers ignore Gemini model names, so the model is configured separately
+    const model = process.env.OPENAI_MODEL || 'llama3.1';
+
+    const messages: Array<{ role: 'system' | 'user'; content: string | Array<Record<string, any>> }> = [];
+    if (request.systemInstructions) {
+      messages.push({ role: 'system', content: request.systemInstructions });
+    }
+    if (request.images && request.images.length > 0) {
+      messages.push({
+        role: 'user',
+        content: [
+          ...request.images.map(image => ({
+            type: 'image_url',
+            image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+          })),
+          { type: 'text', text: request.prompt },
+        ],
+      });
+    } else {
+      messages.push({ role: 'user', content: request.prompt });
+    }
+
+    logger.debug('Calling OpenAI-compatible server', {
+      url: this.getUrl(),
+      model,
+      stream,
+      promptLength: request.prompt.length,
+    });
+
+    return {
+      model,
+      messages,
+      temperature: request.temperature,
+      max_tokens: request.maxOutputTokens,
+      top_p: 0.95,
+      stream,
+    };
+  }
+
+  private getConfig() {
+    const apiKey = process.env.OPENAI_API_KEY;
+    return {
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      timeout: parseInt(process.env.OPENAI_TIMEOUT_MS || '60000'),
+    };
+  }
+}
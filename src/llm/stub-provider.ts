@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { LLMProvider, LLMRequest } from './types';
+import { logger } from '../utils/logger';
+
+export interface StubScriptEntry {
+  /** Case-insensitive regular expression tested against the prompt */
+  match: string;
+  response: string;
+}
+
+/**
+ * Deterministic offline provider for CI and local development.
+ * Answers come from a script of regex -> response entries (first match wins),
+ * otherwise from a reply derived only from the prompt text, so the same
+ * input always produces the same output without any network access.
+ */
+export class StubProvider implements LLMProvider {
+  name = 'stub';
+  // Images are ignored; answers depend on the prompt text only
+  supportsImages = true;
+  private script: StubScriptEntry[] | null = null;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    const entry = this.getScript().find(e => new RegExp(e.match, 'i').test(request.prompt));
+    if (entry) {
+      return entry.response;
+    }
+
+    // Translations echo the source text so multilingual flows stay readable offline
+    const translation = request.prompt.match(/^Translate from \S+ to \S+:\s*\n\n([\s\S]*)$/);
+    if (translation) {
+      return translation[1];
+    }
+
+    const digest = createHash('sha256').update(request.prompt).digest('hex').substring(0, 8);
+    return `Offline stub response ${digest}. Configure a model provider for real advice.`;
+  }
+
+  async *generateStream(request: LLMRequest): AsyncIterable<string> {
+    // Emit word by word so streaming clients can be exercised offline
+    const text = await this.generate(request);
+    for (const token of text.match(/\S+\s*|\s+/g) || []) {
+      yield token;
+    }
+  }
+
+  /**
+   * Replace the script (e.g. from a test harness) instead of loading LLM_STUB_SCRIPT
+   */
+  setScript(script: StubScriptEntry[]): void {
+    this.script = script;
+  }
+
+  private getScript(): StubScriptEntry[] {
+    if (this.script) return this.script;
+
+    this.script = [];
+    const scriptPath = process.env.LLM_STUB_SCRIPT;
+    if (scriptPath) {
+      try {
+        if (fs.existsSync(scriptPath)) {
+          this.script = JSON.parse(fs.readFileSync(scriptPath, 'utf-8'));
+          logger.info(`Loaded ${this.script!.length} stub LLM script entries`);
+        } else {
+          logger.warn(`Stub LLM script not found: ${scriptPath}`);
+        }
+      } catch (error) {
+        logger.error('Error loading stub LLM script:', error);
+      }
+    }
+    return this.script!;
+  }
+}
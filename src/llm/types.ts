@@ -0,0 +1,41 @@
+// Shared types for LLM providers used by generateText
+
+// Inline image sent alongside the prompt to multimodal models
+export interface LLMImage {
+  mimeType: string;
+  data: string; // Base64
+}
+
+export interface LLMRequest {
+  prompt: string;
+  modelName: string;
+  systemInstructions?: string;
+  temperature: number;
+  maxOutputTokens: number;
+  images?: LLMImage[];
+}
+
+// Receives partial text as the model produces it
+export type TokenHandler = (token: string) => void;
+
+export interface LLMProvider {
+  name: string;
+  /**
+   * Whether the provider can read request.images; text-only providers are skipped for image requests
+   */
+  supportsImages: boolean;
+  /**
+   * Whether the provider has the configuration it needs to be tried
+   */
+  isConfigured(): boolean;
+  /**
+   * Generate text for a request. Throws if the provider fails so the
+   * caller can fall through to the next provider in the chain.
+   */
+  generate(request: LLMRequest): Promise<string>;
+  /**
+   * Stream text chunks as they are produced. Providers without streaming
+   * support omit this and are called through generate() instead.
+   */
+  generateStream?(request: LLMRequest): AsyncIterable<string>;
+}
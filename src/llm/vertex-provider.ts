@@ -0,0 +1,144 @@
+import { LLMProvider, LLMRequest } from './types';
+import { logger } from '../utils/logger';
+
+// Map model names to Vertex AI Generative AI model names
+const VERTEX_MODEL_MAP: Record<string, string> = {
+  'gemini-1.5-pro': 'gemini-1.5-pro',
+  'gemini-1.5-flash': 'gemini-1.5-flash',
+  'gemini-2.0-flash': 'gemini-2.0-flash-exp',
+  'gemini-2.0-flash-exp': 'gemini-2.0-flash-exp',
+  'gemini-pro': 'gemini-pro',
+};
+
+export class VertexAIProvider implements LLMProvider {
+  name = 'vertex';
+  supportsImages = true;
+
+  isConfigured(): boolean {
+    return !!(process.env.GOOGLE_CLOUD_PROJECT_ID && process.env.GOOGLE_APPLICATION_CREDENTIALS);
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    const { model, vertexModelName, projectId, location } = this.createModel(request);
+
+    try {
+      logger.debug('Calling Vertex AI Generative AI', {
+        modelName: vertexModelName,
+        projectId,
+        location,
+        promptLength: request.prompt.length,
+      });
+
+      const result = await model.generateContent(this.buildContents(request));
+
+      const text = result.response.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (text) {
+        logger.debug('Vertex AI response received', {
+          responseLength: text.length,
+          model: vertexModelName,
+        });
+        return text;
+      }
+
+      throw new Error('No text in Vertex AI response');
+    } catch (error: any) {
+      this.logError(error, vertexModelName, projectId, location);
+      throw error;
+    }
+  }
+
+  async *generateStream(request: LLMRequest): AsyncIterable<string> {
+    const { model, vertexModelName, projectId, location } = this.createModel(request);
+
+    try {
+      const result = await model.generateContentStream(this.buildContents(request));
+      for await (const chunk of result.stream) {
+        const text = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
+        if (text) yield text;
+      }
+    } catch (error: any) {
+      this.logError(error, vertexModelName, projectId, location);
+      throw error;
+    }
+  }
+
+  private createModel(request: LLMRequest): { model: any; vertexModelName: string; projectId: string; location: string } {
+    const projectId = process.env.GOOGLE_CLOUD_PROJECT_ID || '';
+    // Default to us-central1 (global location doesn't work with Node.js SDK)
+    const location = process.env.VERTEX_AI_LOCATION || 'us-central1';
+    const vertexModelName = VERTEX_MODEL_MAP[request.modelName] || 'gemini-1.5-pro';
+
+    // Use Vertex AI Generative AI API (not Prediction API)
+    // Gemini models must use the Generative AI client
+    const { VertexAI } = require('@google-cloud/vertexai');
+
+    const vertexAI = new VertexAI({
+      project: projectId,
+      location,
+    });
+
+    // Vertex AI uses systemInstruction as Content with parts
+    const modelConfig: any = {
+      model: vertexModelName,
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+        topP: 0.95,
+      },
+    };
+
+    if (request.systemInstructions) {
+      modelConfig.systemInstruction = {
+        parts: [{ text: request.systemInstructions }],
+      };
+    }
+
+    return { model: vertexAI.getGenerativeModel(modelConfig), vertexModelName, projectId, location };
+  }
+
+  private buildContents(request: LLMRequest): any {
+    return {
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            ...(request.images || []).map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+            { text: request.prompt },
+          ],
+        },
+      ],
+    };
+  }
+
+  private logError(error: any, modelName: string, projectId: string, location: string): void {
+    const errorCode = error.code || 'UNKNOWN';
+    const errorMessage = error.message || 'Unknown error';
+
+    // Check for specific error types
+    if (errorCode === 5 || errorMessage.includes('not found') || errorMessage.includes('does not have access')) {
+      logger.warn('Vertex AI model access denied. This usually means:', {
+        issue: 'Model not found or project lacks access',
+        possibleCauses: [
+          'Vertex AI Generative AI API not enabled',
+          'Service account missing Vertex AI User role',
+          'Model not available in region',
+          'Project not whitelisted for Gemini models'
+        ],
+        projectId,
+        location,
+        modelName,
+        errorCode,
+        errorMessage,
+      });
+    } else {
+      logger.error('Vertex AI generation error:', {
+        error: errorMessage,
+        code: errorCode,
+        details: error.details,
+        modelName,
+        projectId,
+        location,
+      });
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { Request, Response } from 'express';
+import { requireAdmin } from './admin-auth';
+
+function call(key?: string) {
+  const req = { get: () => key, ip: '127.0.0.1', path: '/api/admin/queue' } as unknown as Request;
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+  const next = jest.fn();
+  requireAdmin(req, res as unknown as Response, next);
+  return { status: res.status.mock.calls[0]?.[0], next };
+}
+
+describe('requireAdmin', () => {
+  const adminKey = process.env.ADMIN_API_KEY;
+
+  beforeEach(() => {
+    process.env.ADMIN_API_KEY = 'secret-key';
+  });
+
+  afterAll(() => {
+    if (adminKey === undefined) {
+      delete process.env.ADMIN_API_KEY;
+    } else {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+  });
+
+  it('lets the right key through', () => {
+    expect(call('secret-key').next).toHaveBeenCalled();
+  });
+
+  it.each([['wrong-key!'], ['secret'], ['']])('rejects the key "%s"', key => {
+    const { status, next } = call(key);
+    expect(status).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('rejects a missing key', () => {
+    expect(call(undefined).status).toBe(401);
+  });
+
+  it('rejects a multi-byte key with as many characters as the real one', () => {
+    const key = 'sécret-key';
+    expect(key.length).toBe('secret-key'.length);
+    const { status, next } = call(key);
+    expect(status).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('is disabled without ADMIN_API_KEY', () => {
+    delete process.env.ADMIN_API_KEY;
+    expect(call('secret-key').status).toBe(503);
+  });
+});
@@ -0,0 +1,26 @@
+import { timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+
+/**
+ * Protect operator endpoints with the X-Admin-Key header (ADMIN_API_KEY).
+ * The endpoints are disabled entirely when no key is configured.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    res.status(503).json({ error: 'Admin API is disabled (ADMIN_API_KEY not set)' });
+    return;
+  }
+
+  const provided = Buffer.from(req.get('x-admin-key') || '');
+  const expected = Buffer.from(adminKey);
+  // Compare byte lengths: a header with multi-byte characters can match in characters but not in bytes
+  const valid = provided.length === expected.length && timingSafeEqual(provided, expected);
+  if (!valid) {
+    logger.warn(`Rejected admin request from IP: ${req.ip}, Path: ${req.path}`);
+    res.status(401).json({ error: 'Invalid admin key' });
+    return;
+  }
+  next();
+}
@@ -0,0 +1,72 @@
+import { createHmac } from 'crypto';
+import { Response } from 'express';
+import { RawBodyRequest, verifyWhatsAppSignature } from './whatsapp-signature';
+
+const BODY = '{"object":"whatsapp_business_account","entry":[]}';
+
+const sign = (body: string, secret = 'app-secret') => `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+// A null body is a request express.json() kept no raw body for
+function call(signature: string | undefined, body: string | null = BODY) {
+  const req = {
+    get: () => signature,
+    ip: '127.0.0.1',
+    rawBody: body === null ? undefined : Buffer.from(body),
+  } as unknown as RawBodyRequest;
+  const res = { sendStatus: jest.fn().mockReturnThis() };
+  const next = jest.fn();
+  verifyWhatsAppSignature(req, res as unknown as Response, next);
+  return { status: res.sendStatus.mock.calls[0]?.[0], next };
+}
+
+describe('verifyWhatsAppSignature', () => {
+  const appSecret = process.env.WHATSAPP_APP_SECRET;
+
+  beforeEach(() => {
+    process.env.WHATSAPP_APP_SECRET = 'app-secret';
+  });
+
+  afterAll(() => {
+    if (appSecret === undefined) {
+      delete process.env.WHATSAPP_APP_SECRET;
+    } else {
+      process.env.WHATSAPP_APP_SECRET = appSecret;
+    }
+  });
+
+  it('accepts a delivery signed with the app secret', () => {
+    expect(call(sign(BODY)).next).toHaveBeenCalled();
+  });
+
+  it.each([
+    ['another secret', sign(BODY, 'other-secret')],
+    ['another body', sign('{"object":"whatsapp_business_account","entry":[{}]}')],
+    ['no sha256= prefix', sign(BODY).replace('sha256=', '')],
+    ['an empty header', ''],
+  ])('rejects a signature made with %s', (_case, signature) => {
+    const { status, next } = call(signature);
+    expect(status).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('rejects a delivery without a signature', () => {
+    expect(call(undefined).status).toBe(401);
+  });
+
+  it('rejects a multi-byte signature with as many characters as the real one', () => {
+    const signature = `${sign(BODY).slice(0, -1)}é`;
+    expect(signature.length).toBe(sign(BODY).length);
+    const { status, next } = call(signature);
+    expect(status).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('checks deliveries without a raw body against an empty body', () => {
+    expect(call(sign(''), null).next).toHaveBeenCalled();
+  });
+
+  it('lets every delivery through without WHATSAPP_APP_SECRET', () => {
+    delete process.env.WHATSAPP_APP_SECRET;
+    expect(call(undefined).next).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,38 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+
+// express.json() keeps the unparsed body here (see src/index.ts) so signatures can be checked
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+let warnedMissingSecret = false;
+
+/**
+ * Reject WhatsApp webhook deliveries whose X-Hub-Signature-256 header doesn't match
+ * an HMAC-SHA256 of the raw body with the Meta app secret (WHATSAPP_APP_SECRET)
+ */
+export function verifyWhatsAppSignature(req: RawBodyRequest, res: Response, next: NextFunction): void {
+  const appSecret = process.env.WHATSAPP_APP_SECRET;
+  if (!appSecret) {
+    if (!warnedMissingSecret) {
+      logger.warn('WHATSAPP_APP_SECRET is not set - WhatsApp webhook signatures are not verified');
+      warnedMissingSecret = true;
+    }
+    next();
+    return;
+  }
+
+  const signature = Buffer.from(req.get('x-hub-signature-256') || '');
+  const expected = Buffer.from(`sha256=${createHmac('sha256', appSecret).update(req.rawBody || '').digest('hex')}`);
+
+  // Compare byte lengths: a header with multi-byte characters can match in characters but not in bytes
+  const valid = signature.length === expected.length && timingSafeEqual(signature, expected);
+  if (!valid) {
+    logger.warn(`Rejected WhatsApp webhook with invalid signature from IP: ${req.ip}`);
+    res.sendStatus(401);
+    return;
+  }
+  next();
+}
@@ -0,0 +1,18 @@
+export type CitationType =
+  | 'pest'
+  | 'livestock-disease'
+  | 'planting-calendar'
+  | 'soil-tip'
+  | 'soil-grids'
+  | 'faostat'
+  | 'market-prices'
+  | 'weather'
+  | 'scraped-document';
+
+export interface Citation {
+  type: CitationType;
+  source: string; // Publisher or dataset shown to farmers, e.g. 'KALRO', 'FAOSTAT'
+  title: string; // The specific record used, e.g. 'Fall Armyworm (maize)'
+  year?: number;
+  url?: string;
+}
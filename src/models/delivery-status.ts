@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+// Delivery receipt for a message we sent, as reported by the channel provider
+export const DeliveryStatusSchema = z.object({
+  channel: z.enum(['whatsapp', 'sms', 'ussd', 'voice', 'web']),
+  providerMessageId: z.string(), // e.g. the WhatsApp "wamid.*" ID
+  recipient: z.string(),
+  status: z.enum(['sent', 'delivered', 'read', 'failed']),
+  timestamp: z.date(),
+  error: z.string().optional(),
+});
+
+export type DeliveryStatus = z.infer<typeof DeliveryStatusSchema>;
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { findCounty } from '../utils/counties';
+
+// County names are matched like farmers' replies ("nakuru", "Nakuru County") and stored canonically
+const CountySchema = z.string().transform((name, ctx) => {
+  const county = findCounty(name);
+  if (!county) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown county: ${name}` });
+    return z.NEVER;
+  }
+  return county;
+});
+
+// A pest or disease outbreak declared for some counties, e.g. by an extension officer
+export const OutbreakSchema = z.object({
+  id: z.string(),
+  pest: z.string().min(1),
+  crops: z.array(z.string().min(1)).min(1), // Farmers growing any of these are alerted
+  counties: z.array(z.string()).min(1),
+  severity: z.enum(['low', 'medium', 'high']),
+  message: z.string().min(1), // What affected farmers are told to do
+  source: z.string().min(1), // Who declared it, e.g. "Nakuru County Agriculture Office"
+  reporters: z.number().int().positive().optional(), // Farmers whose reports declared it, if it came from reports
+  validFrom: z.date(),
+  validUntil: z.date(), // Alerts stop after this, when the outbreak expires
+  status: z.enum(['active', 'expired']),
+  expiredAt: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+// Admin API input: dates as ISO strings, validFrom defaults to now
+const OutbreakFieldsSchema = z.object({
+  pest: z.string().trim().min(1),
+  crops: z.array(z.string().trim().toLowerCase().min(1)).min(1),
+  counties: z.array(CountySchema).min(1),
+  severity: z.enum(['low', 'medium', 'high']),
+  message: z.string().trim().min(1),
+  source: z.string().trim().min(1),
+  validFrom: z.coerce.date().optional(),
+  validUntil: z.coerce.date(),
+});
+
+const validityWindow = {
+  check: (outbreak: { validFrom?: Date; validUntil?: Date }) =>
+    !outbreak.validFrom || !outbreak.validUntil || outbreak.validFrom < outbreak.validUntil,
+  message: { message: 'validUntil must be after validFrom', path: ['validUntil'] },
+};
+
+export const OutbreakInputSchema = OutbreakFieldsSchema.refine(validityWindow.check, validityWindow.message);
+export const OutbreakUpdateSchema = OutbreakFieldsSchema.partial().refine(validityWindow.check, validityWindow.message);
+
+export type Outbreak = z.infer<typeof OutbreakSchema>;
+export type OutbreakInput = z.infer<typeof OutbreakInputSchema>;
+export type OutbreakUpdate = z.infer<typeof OutbreakUpdateSchema>;
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+// A pest or disease a farmer reported on their own farm, from a photo diagnosis or a described problem
+export const PestSightingSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  pest: z.string().min(1), // Catalogue name when it matched one, e.g. "Fall Armyworm"
+  crop: z.string().optional(),
+  county: z.string().optional(), // Canonical county name; sightings without one are not clustered
+  coordinates: z.object({ lat: z.number(), lon: z.number() }).optional(),
+  confidence: z.number().min(0).max(1), // How sure the diagnosis was
+  source: z.enum(['photo', 'message']),
+  channel: z.string(),
+  reportedAt: z.date(),
+});
+
+export type PestSighting = z.infer<typeof PestSightingSchema>;
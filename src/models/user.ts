@@ -1,4 +1,39 @@
 import { z } from 'zod';
+import { LANGUAGE_CODES } from '../languages/types';
+
+// A dated entry in the conversation memory, e.g. a problem reported or advice given
+export const MemoryNoteSchema = z.object({
+  date: z.string(), // YYYY-MM-DD
+  text: z.string(),
+});
+
+// Rolling summary of everything discussed with a farmer, kept across days and channels
+export const ConversationMemorySchema = z.object({
+  summary: z.string().default(''),
+  topics: z.array(z.string()).default([]), // Crops and animals discussed
+  problems: z.array(MemoryNoteSchema).default([]),
+  advice: z.array(MemoryNoteSchema).default([]),
+  followUps: z.array(MemoryNoteSchema).default([]), // Things we promised to check on
+  pendingMessages: z.number().default(0), // Messages not yet folded into the summary
+  summarizingUntil: z.date().optional(), // Lease held while a summary is being written
+  retryAfter: z.date().optional(), // No summary before this, after failedSummaries failures in a row
+  failedSummaries: z.number().optional(),
+  updatedAt: z.date().optional(),
+});
+
+// Channels alerts can be delivered on
+export const ALERT_CHANNELS = ['whatsapp', 'sms', 'voice'] as const;
+export const ALERT_TYPES = ['weather', 'pest', 'market', 'advisory', 'general'] as const;
+
+// Times of day are HH:MM in Kenya time (EAT)
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+// How a farmer wants to receive alerts, set explicitly (e.g. from the web dashboard)
+export const AlertPreferencesSchema = z.object({
+  channels: z.array(z.enum(ALERT_CHANNELS)).optional(), // Tried in this order; others are fallbacks
+  quietHours: z.object({ start: TimeOfDaySchema, end: TimeOfDaySchema }).optional(),
+  muted: z.array(z.enum(ALERT_TYPES)).optional(), // Alert types turned off with STOP <TYPE>
+});
 
 export const UserSchema = z.object({
   id: z.string(),
@@ -6,20 +41,35 @@ export const UserSchema = z.object({
   name: z.string().optional(),
   county: z.string().optional(),
   region: z.string().optional(),
-  preferredLanguage: z.enum(['en', 'sw']).default('en'),
+  preferredLanguage: z.enum(LANGUAGE_CODES).default('en'),
   crops: z.array(z.string()).default([]),
   livestock: z.array(z.string()).default([]),
+  farmSizeAcres: z.number().optional(),
   soilType: z.string().optional(),
   soilPH: z.number().optional(),
   latitude: z.number().optional(),
   longitude: z.number().optional(),
   locationUpdatedAt: z.date().optional(),
+  // Next profile question to ask; 'complete' once onboarding has finished
+  onboardingStep: z.enum(['name', 'county', 'crops', 'livestock', 'language', 'farmSize', 'complete']).optional(),
+  conversationMemory: ConversationMemorySchema.optional(),
+  // Rest of the last SMS answer, sent when the farmer replies MORE
+  smsContinuation: z.string().optional(),
+  // When the farmer last messaged us on each channel (whatsapp, sms, ...), used to route alerts
+  channelActivity: z.record(z.date()).optional(),
+  alertPreferences: AlertPreferencesSchema.optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
   metadata: z.record(z.any()).optional(),
 });
 
 export type User = z.infer<typeof UserSchema>;
+export type MemoryNote = z.infer<typeof MemoryNoteSchema>;
+export type ConversationMemory = z.infer<typeof ConversationMemorySchema>;
+export type AlertChannel = typeof ALERT_CHANNELS[number];
+export type AlertType = typeof ALERT_TYPES[number];
+export type AlertPreferences = z.infer<typeof AlertPreferencesSchema>;
+export type OnboardingStep = NonNullable<User['onboardingStep']>;
 
 export interface UserContext {
   user: User;
@@ -29,5 +79,6 @@ export interface UserContext {
   farmStage?: 'planning' | 'planting' | 'growing' | 'harvesting' | 'post-harvest';
   intent?: string;
   coordinates?: { lat: number; lon: number };
+  channel?: 'whatsapp' | 'sms' | 'ussd' | 'voice' | 'web'; // Where the answer will be read or heard
 }
 
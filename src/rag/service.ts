@@ -1,5 +1,6 @@
 import { logger } from '../utils/logger';
-import { dataSourceService } from '../services/data-source';
+import { dataSourceService, SourcedText } from '../services/data-source';
+import { Citation } from '../models/citation';
 
 export interface RetrievalContext {
   crop?: string;
@@ -23,11 +24,19 @@ export class RAGService {
   }
 
   async retrieve(query: string, context: RetrievalContext = {}): Promise<string[]> {
+    const documents = await this.retrieveDocuments(query, context);
+    return documents.map(doc => doc.text);
+  }
+
+  /**
+   * Retrieve relevant documents together with the sources they came from (none when nothing matches)
+   */
+  async retrieveDocuments(query: string, context: RetrievalContext = {}): Promise<SourcedText[]> {
     try {
-      const allResults: string[] = [];
+      const allResults: SourcedText[] = [];
       
       // 1. Get results from LOCAL data sources (JSON files) - ALWAYS included
-      const localResults = dataSourceService.searchAll(query, {
+      const localResults = dataSourceService.searchAllWithSources(query, {
         crop: context.crop,
         region: context.region,
         livestock: context.livestock,
@@ -51,7 +60,9 @@ export class RAGService {
             const onlineResults = await this.queryMatchingEngine(embedding, { topK: 5 });
             
             if (onlineResults.length > 0) {
-              const onlineTexts = onlineResults.map(r => r.text || '').filter(Boolean);
+              const onlineTexts = onlineResults
+                .filter(r => r.text)
+                .map(r => ({ text: r.text, citations: this.citeIngestedDocument(r.text, r.metadata) }));
               allResults.push(...onlineTexts);
               logger.info(`Retrieved ${onlineTexts.length} results from ONLINE sources (Matching Engine)`);
             }
@@ -67,11 +78,10 @@ export class RAGService {
         logger.debug('Matching Engine disabled or not configured, using local data sources only');
       }
 
-      // 3. If no results found, return general local data as fallback
+      // 3. Nothing relevant: no context, so unrelated records are neither used nor cited
       if (allResults.length === 0) {
-        logger.info('No specific matches found, returning general local data');
-        const generalData = dataSourceService.getAllDataAsText().slice(0, 3);
-        return generalData;
+        logger.info('No specific matches found, answering without retrieved context');
+        return [];
       }
 
       // 4. Return COMBINED results: Local + Online
@@ -79,12 +89,7 @@ export class RAGService {
       return allResults;
     } catch (error) {
       logger.error('Error in RAG retrieval:', error);
-      // Final fallback: return general local data
-      try {
-        return dataSourceService.getAllDataAsText().slice(0, 2);
-      } catch {
-        return [];
-      }
+      return [];
     }
   }
 
@@ -164,6 +169,25 @@ export class RAGService {
     }
   }
 
+  /**
+   * Cite an ingested document from its index metadata, or from the header
+   * written by webScraper.formatForIngestion ("Title: ...\nSource: ...\nURL: ...")
+   */
+  private citeIngestedDocument(text: string, metadata: Record<string, any> = {}): Citation[] {
+    const source = metadata.source || text.match(/^Source:\s*(.+)$/m)?.[1]?.trim();
+    if (!source) return [];
+    
+    const title = metadata.title || text.match(/^Title:\s*(.+)$/m)?.[1]?.trim();
+    const url = metadata.url || text.match(/^URL:\s*(\S+)$/m)?.[1];
+    
+    return [{
+      type: 'scraped-document',
+      source,
+      title: title || `${source} document`,
+      ...(url && { url }),
+    }];
+  }
+
   private enhanceQueryWithContext(text: string, context: RetrievalContext): string {
     const parts = [text];
     
@@ -178,7 +202,7 @@ export class RAGService {
   private async queryMatchingEngine(
     _embedding: number[],
     _options: { topK: number }
-  ): Promise<Array<{ text: string; score: number }>> {
+  ): Promise<Array<{ text: string; score: number; metadata?: Record<string, any> }>> {
     try {
       // Query Matching Engine index
       // This is a placeholder - actual implementation requires proper Matching Engine client setup
@@ -0,0 +1,101 @@
+import { advisoryService } from './advisories';
+import { databaseService } from './database';
+import { dataSourceService, PlantingCalendarData } from './data-source';
+import { User } from '../models/user';
+
+const user = {
+  id: 'farmer-1',
+  phoneNumber: '+254700000001',
+  county: 'Nakuru',
+  crops: ['maize'],
+  preferredLanguage: 'en',
+} as User;
+
+function withCalendar(longRains: string, shortRains: string): void {
+  const calendar: PlantingCalendarData = { county: 'Nakuru', crops: ['maize'], longRains, shortRains };
+  jest.spyOn(dataSourceService, 'getPlantingCalendar').mockReturnValue(calendar);
+}
+
+// Nudges due at a time given in Kenya time
+async function nudgesAt(eat: string) {
+  const nudges = await advisoryService.dueNudges(user, new Date(`${eat}+03:00`));
+  return nudges.map(nudge => `${nudge.season.season} ${nudge.kind}`);
+}
+
+describe('AdvisoryService.dueNudges', () => {
+  beforeEach(() => {
+    jest.spyOn(databaseService, 'getAdvisorySeason').mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('opens the planting window at midnight Kenya time on the first day of the first month', async () => {
+    withCalendar('March-April', 'October-November');
+    expect(await nudgesAt('2026-02-28T23:59:00')).toEqual([]);
+    expect(await nudgesAt('2026-03-01T00:00:00')).toEqual(['2026-long plantingWindow']);
+  });
+
+  it('asks farmers to prepare land three weeks before the window', async () => {
+    withCalendar('March-April', 'October-November');
+    expect(await nudgesAt('2026-02-08T09:00:00')).toEqual(['2026-long landPreparation']);
+  });
+
+  it('times later nudges from the window until the farmer reports planting', async () => {
+    withCalendar('March-April', 'October-November');
+    expect(await nudgesAt('2026-03-22T09:00:00')).toEqual(['2026-long scouting']);
+    expect(await nudgesAt('2026-04-12T09:00:00')).toEqual(['2026-long topDressing']);
+  });
+
+  it('times later nudges from the reported planting date', async () => {
+    withCalendar('March-April', 'October-November');
+    jest.spyOn(databaseService, 'getAdvisorySeason').mockResolvedValue({
+      id: 'farmer-1:2026-long',
+      userId: 'farmer-1',
+      season: '2026-long',
+      county: 'Nakuru',
+      plantedAt: new Date('2026-03-15T08:00:00+03:00'),
+      nudges: { plantingWindow: new Date('2026-03-01T09:00:00+03:00') },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    expect(await nudgesAt('2026-03-22T09:00:00')).toEqual([]);
+    expect(await nudgesAt('2026-04-05T09:00:00')).toEqual(['2026-long scouting']);
+  });
+
+  it('reads a single month as a one-month window', async () => {
+    withCalendar('April', 'October');
+    expect(await nudgesAt('2026-04-01T09:00:00')).toEqual(['2026-long plantingWindow']);
+  });
+
+  it('reads month names in any case and with spaces around the dash', async () => {
+    withCalendar('march - April', 'OCTOBER-november');
+    expect(await nudgesAt('2026-03-01T09:00:00')).toEqual(['2026-long plantingWindow']);
+    expect(await nudgesAt('2026-10-01T09:00:00')).toEqual(['2026-short plantingWindow']);
+  });
+
+  it('follows a window that runs into the next year', async () => {
+    withCalendar('March-April', 'November-January');
+    // Harvest preparation for the 2026 short rains comes 14 weeks after 1 November 2026
+    expect(await nudgesAt('2027-02-07T09:00:00')).toEqual(['2026-short harvestPreparation']);
+  });
+
+  it('skips a season whose months cannot be read', async () => {
+    withCalendar('Machi-Aprili', 'October-November');
+    expect(await nudgesAt('2026-03-01T09:00:00')).toEqual([]);
+    expect(await nudgesAt('2026-10-01T09:00:00')).toEqual(['2026-short plantingWindow']);
+  });
+
+  it('sends nothing to farmers in a county without a calendar', async () => {
+    jest.spyOn(dataSourceService, 'getPlantingCalendar').mockReturnValue(null);
+    expect(await nudgesAt('2026-03-01T09:00:00')).toEqual([]);
+  });
+
+  it('writes nudges in the farmer\'s language', async () => {
+    withCalendar('March-April', 'October-November');
+    const [nudge] = await advisoryService.dueNudges({ ...user, preferredLanguage: 'sw' }, new Date('2026-03-01T09:00:00+03:00'));
+    expect(nudge.title).not.toContain('planting window open');
+    expect(nudge.message).toContain('Nakuru');
+  });
+});
@@ -0,0 +1,232 @@
+import { databaseService } from './database';
+import { dataSourceService, PlantingCalendarData } from './data-source';
+import { User } from '../models/user';
+import { t } from '../languages';
+import { logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+// Months are counted in Kenya time (UTC+3)
+const EAT_OFFSET_MS = 3 * 60 * 60 * 1000;
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Weeks before the rains window opens to start preparing land
+const LAND_PREPARATION_WEEKS = 3;
+// Weeks after planting for each nudge; planting is assumed when the window opens unless the farmer sends PLANTED
+const SCOUTING_WEEKS = 3;
+const TOP_DRESSING_WEEKS = parseInt(process.env.ADVISORY_TOP_DRESSING_WEEKS || '6');
+const HARVEST_PREPARATION_WEEKS = 14;
+// A nudge not sent within this long of its date is dropped (e.g. the farmer joined mid-season)
+const NUDGE_GRACE_MS = 2 * WEEK_MS;
+// Legumes fix their own nitrogen, so are not top-dressed
+const LEGUMES = ['beans', 'peas', 'cowpeas', 'green grams', 'soybeans', 'groundnuts', 'pigeon peas'];
+
+const PLANTED_COMMAND = /^\s*(planted|nimepanda)[\s.!]*$/i;
+
+export const ADVISORY_KINDS = ['landPreparation', 'plantingWindow', 'scouting', 'topDressing', 'harvestPreparation'] as const;
+export type AdvisoryKind = typeof ADVISORY_KINDS[number];
+
+/**
+ * A farmer's progress through one rains season, in the advisorySeasons collection
+ */
+export interface AdvisorySeason {
+  id: string; // userId:season
+  userId: string;
+  season: string; // e.g. "2026-long"
+  county: string;
+  plantedAt?: Date; // Reported with PLANTED
+  nudges: Partial<Record<AdvisoryKind, Date>>; // When each nudge was sent
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AdvisoryNudge {
+  kind: AdvisoryKind;
+  title: string;
+  message: string;
+  season: AdvisorySeason;
+}
+
+// A long or short rains planting window from the county's planting calendar
+interface RainsWindow {
+  season: string;
+  key: 'long' | 'short';
+  name: string; // "long rains" or "short rains", for logs
+  months: string; // As in the calendar, e.g. "March-April"
+  opens: Date;
+  closes: Date;
+}
+
+/**
+ * Proactive crop calendar advice: nudges timed to the long and short rains windows in
+ * planting-calendars.json for the farmer's county, for the crops they grow. Each nudge is sent once
+ * per farmer per season; AlertService sends them as advisory alerts.
+ */
+export class AdvisoryService {
+  // Counties already reported as having no planting calendar
+  private missingCalendars = new Set<string>();
+
+  /**
+   * Nudges due for a farmer now, not yet sent this season
+   */
+  async dueNudges(user: User, now: Date = new Date()): Promise<AdvisoryNudge[]> {
+    const calendar = user.county ? dataSourceService.getPlantingCalendar(user.county) : null;
+    if (user.county && !calendar) this.reportMissingCalendar(user.county);
+    if (!calendar || user.crops.length === 0) return [];
+
+    const nudges: AdvisoryNudge[] = [];
+    for (const window of this.windows(calendar, now)) {
+      const season = await this.getSeason(user, window, calendar.county);
+      const planted = season.plantedAt || window.opens;
+      const due: Record<AdvisoryKind, Date> = {
+        landPreparation: new Date(window.opens.getTime() - LAND_PREPARATION_WEEKS * WEEK_MS),
+        plantingWindow: window.opens,
+        scouting: new Date(planted.getTime() + SCOUTING_WEEKS * WEEK_MS),
+        topDressing: new Date(planted.getTime() + TOP_DRESSING_WEEKS * WEEK_MS),
+        harvestPreparation: new Date(planted.getTime() + HARVEST_PREPARATION_WEEKS * WEEK_MS),
+      };
+
+      for (const kind of ADVISORY_KINDS) {
+        const dueAt = due[kind].getTime();
+        if (season.nudges[kind] || now.getTime() < dueAt || now.getTime() >= dueAt + NUDGE_GRACE_MS) continue;
+        // Farmers who already planted don't need telling that the window is open
+        if (kind === 'plantingWindow' && season.plantedAt) continue;
+        const nudge = this.compose(kind, user, window, calendar.county);
+        if (nudge) nudges.push({ kind, ...nudge, season });
+      }
+    }
+    return nudges;
+  }
+
+  /**
+   * Remember that a nudge was sent, so it is not sent again this season
+   */
+  async markSent(nudge: AdvisoryNudge, now: Date = new Date()): Promise<void> {
+    nudge.season.nudges = { ...nudge.season.nudges, [nudge.kind]: now };
+    nudge.season.updatedAt = now;
+    await databaseService.saveAdvisorySeason(nudge.season);
+  }
+
+  isPlantedCommand(text: string): boolean {
+    return PLANTED_COMMAND.test(text);
+  }
+
+  /**
+   * PLANTED: date the farmer's planting this season, so later nudges follow it. Returns the reply to send.
+   */
+  async recordPlanting(user: User, now: Date = new Date()): Promise<string> {
+    const language = user.preferredLanguage;
+    const calendar = user.county ? dataSourceService.getPlantingCalendar(user.county) : null;
+    // The season being prepared or planted now
+    const window = calendar && this.windows(calendar, now).find(candidate =>
+      now.getTime() >= candidate.opens.getTime() - LAND_PREPARATION_WEEKS * WEEK_MS && now < candidate.closes
+    );
+    if (!calendar || !window) {
+      return t(language, 'advisory.plantedNoSeason');
+    }
+
+    const season = await this.getSeason(user, window, calendar.county);
+    season.plantedAt = now;
+    season.updatedAt = now;
+    await databaseService.saveAdvisorySeason(season);
+    logger.info(`User ${user.id} planted for the ${window.season} season`);
+
+    const date = new Date(now.getTime() + EAT_OFFSET_MS).toISOString().substring(0, 10);
+    return t(language, 'advisory.planted', { date });
+  }
+
+  private reportMissingCalendar(county: string): void {
+    if (this.missingCalendars.has(county)) return;
+    this.missingCalendars.add(county);
+    logger.warn(`No planting calendar for ${county}: farmers there get no crop calendar advisories`);
+  }
+
+  private async getSeason(user: User, window: RainsWindow, county: string): Promise<AdvisorySeason> {
+    const id = `${user.id}:${window.season}`;
+    const existing = await databaseService.getAdvisorySeason(id);
+    if (existing) return existing;
+
+    const now = new Date();
+    return { id, userId: user.id, season: window.season, county, nudges: {}, createdAt: now, updatedAt: now };
+  }
+
+  /**
+   * The calendar's rains windows whose nudges could fall around `now` (last year's to next year's)
+   */
+  private windows(calendar: PlantingCalendarData, now: Date): RainsWindow[] {
+    const year = new Date(now.getTime() + EAT_OFFSET_MS).getUTCFullYear();
+    const windows: RainsWindow[] = [];
+
+    for (const [key, name, months] of [['long', 'long rains', calendar.longRains], ['short', 'short rains', calendar.shortRains]] as const) {
+      const range = this.parseMonths(months);
+      if (!range) {
+        logger.warn(`Cannot read ${name} months "${months}" in the ${calendar.county} planting calendar`);
+        continue;
+      }
+      for (const windowYear of [year - 1, year, year + 1]) {
+        // Windows such as November-January end in the following year
+        const endYear = range.end < range.start ? windowYear + 1 : windowYear;
+        windows.push({
+          season: `${windowYear}-${key}`,
+          key,
+          name,
+          months,
+          opens: new Date(Date.UTC(windowYear, range.start, 1) - EAT_OFFSET_MS),
+          closes: new Date(Date.UTC(endYear, range.end + 1, 1) - EAT_OFFSET_MS),
+        });
+      }
+    }
+
+    // Only windows with nudges still to come or within their grace period
+    const first = (window: RainsWindow) => window.opens.getTime() - LAND_PREPARATION_WEEKS * WEEK_MS;
+    const last = (window: RainsWindow) => window.closes.getTime() + HARVEST_PREPARATION_WEEKS * WEEK_MS + NUDGE_GRACE_MS;
+    return windows.filter(window => now.getTime() >= first(window) && now.getTime() < last(window));
+  }
+
+  private parseMonths(months: string): { start: number; end: number } | null {
+    const [start, end = start] = months.toLowerCase().split('-').map(month => MONTHS.indexOf(month.trim()));
+    return start >= 0 && end >= 0 ? { start, end } : null;
+  }
+
+  /**
+   * The nudge in the farmer's language (null when it doesn't apply to their crops)
+   */
+  private compose(kind: AdvisoryKind, user: User, window: RainsWindow, county: string): { title: string; message: string } | null {
+    const language = user.preferredLanguage;
+    const season = t(language, window.key === 'long' ? 'advisory.longRains' : 'advisory.shortRains');
+    const params: Record<string, string | number> = {
+      Season: season.charAt(0).toUpperCase() + season.slice(1),
+      season,
+      county,
+      months: window.months,
+      crops: this.list(user.crops, language),
+    };
+
+    if (kind === 'scouting') {
+      const pests = [...new Set(user.crops.flatMap(crop => dataSourceService.searchPests('', crop)
+        .filter(pest => pest.crop !== 'general')
+        .map(pest => pest.name)))].slice(0, 3);
+      params.pests = pests.length > 0 ? this.list(pests, language) : t(language, 'advisory.scouting.anyPests');
+    }
+    if (kind === 'topDressing') {
+      const fertilized = user.crops.filter(crop => !LEGUMES.includes(crop.toLowerCase()));
+      if (fertilized.length === 0) return null;
+      params.crops = this.list(fertilized, language);
+      params.weeks = TOP_DRESSING_WEEKS;
+    }
+
+    return {
+      title: t(language, `advisory.${kind}.title`, params),
+      message: t(language, `advisory.${kind}.message`, params),
+    };
+  }
+
+  private list(items: string[], language: string): string {
+    const lower = items.map(item => item.toLowerCase());
+    return lower.length > 1
+      ? `${lower.slice(0, -1).join(', ')} ${t(language, 'advisory.and')} ${lower[lower.length - 1]}`
+      : lower[0];
+  }
+}
+
+export const advisoryService = new AdvisoryService();
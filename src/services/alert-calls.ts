@@ -0,0 +1,177 @@
+import { Alert, AlertVoiceCall } from './alerts';
+import { databaseService } from './database';
+import { User } from '../models/user';
+import { translationAgent } from '../agents/translation';
+import { getSpeechLanguage, t } from '../languages';
+import { getOutboundVoiceProvider, VoiceAction, VoiceCallOutcome } from '../voice';
+import { Job, jobQueue } from '../utils/job-queue';
+import { quietTimeRemaining } from '../utils/quiet-hours';
+import { logger } from '../utils/logger';
+
+const CALL_JOB = 'alert.call';
+// Minutes to wait before calling again while an alert is unacknowledged; one retry per entry
+const RETRY_MINUTES = (process.env.ALERT_CALL_RETRY_MINUTES || '15,60,180')
+  .split(',')
+  .map(minutes => parseFloat(minutes))
+  .filter(minutes => minutes > 0);
+const ACKNOWLEDGE_DIGIT = '1';
+
+/**
+ * Outbound voice calls for urgent weather and pest alerts. The alert is read in the farmer's language
+ * and they press 1 to acknowledge it; calls that end unacknowledged are retried on a schedule.
+ * Call state lives on the alert document, so any instance can answer the provider's webhooks.
+ */
+export class AlertCallService {
+  constructor() {
+    // Registered on import, before index.ts starts the queue workers
+    jobQueue.register(CALL_JOB, (payload, job) => this.placeCall(payload.alertId, job));
+  }
+
+  shouldCall(alert: Alert): boolean {
+    return alert.severity === 'high' && (alert.type === 'weather' || alert.type === 'pest');
+  }
+
+  /**
+   * Queue the first call for an alert that has been saved and sent as text, after `delay` ms
+   * (e.g. the farmer's quiet hours). Failures are logged: the farmer has already been sent the alert.
+   */
+  async schedule(alert: Alert, user: User, options: { delay?: number } = {}): Promise<void> {
+    try {
+      if (!getOutboundVoiceProvider()) {
+        logger.debug(`No outbound voice provider configured, not calling for alert ${alert.id}`);
+        return;
+      }
+
+      const voiceCall: AlertVoiceCall = {
+        status: 'scheduled',
+        phoneNumber: user.phoneNumber,
+        language: getSpeechLanguage(user.preferredLanguage).code,
+        attempts: [],
+        ...(options.delay && { nextAttemptAt: new Date(Date.now() + options.delay) }),
+      };
+      await databaseService.updateAlert(alert.id, { voiceCall });
+      await jobQueue.enqueue(CALL_JOB, { alertId: alert.id }, { delay: options.delay });
+    } catch (error) {
+      logger.error(`Error scheduling voice call for alert ${alert.id}:`, error);
+    }
+  }
+
+  /**
+   * What to play on an alert call: the alert when answered, thanks once acknowledged.
+   * Null when the call is not for an alert. Calls are placed with the alert ID as their reference.
+   */
+  async handleCall(alertId: string, digits?: string): Promise<{ actions: VoiceAction[]; language: string } | null> {
+    const alert = await databaseService.getAlert(alertId);
+    const voiceCall = alert?.voiceCall;
+    if (!alert || !voiceCall) return null;
+
+    const { language } = voiceCall;
+    if (digits === ACKNOWLEDGE_DIGIT) {
+      await this.acknowledge(alert, voiceCall);
+      return { language, actions: [{ type: 'say', text: t(language, 'alertCall.thanks') }, { type: 'hangup' }] };
+    }
+
+    const script = voiceCall.script || `${alert.title}. ${alert.message}`;
+    const acknowledge: VoiceAction = {
+      type: 'gather',
+      input: 'dtmf',
+      prompt: t(language, 'alertCall.acknowledge'),
+      numDigits: 1,
+      timeout: 8,
+    };
+    return {
+      language,
+      actions: [
+        // Other keys play the alert again, without the introduction
+        ...(digits ? [] : [{ type: 'say', text: t(language, 'alertCall.intro') } as VoiceAction]),
+        { type: 'say', text: script },
+        { type: 'pause', seconds: 1 },
+        acknowledge,
+        // No key pressed - read it once more
+        { type: 'say', text: script },
+        acknowledge,
+        { type: 'say', text: t(language, 'voice.goodbye') },
+        { type: 'hangup' },
+      ],
+    };
+  }
+
+  /**
+   * Record how an alert call ended, and schedule the next attempt if it was not acknowledged
+   */
+  async callEnded(alertId: string, callId: string, outcome: VoiceCallOutcome): Promise<void> {
+    const alert = await databaseService.getAlert(alertId);
+    const voiceCall = alert?.voiceCall;
+    if (!alert || !voiceCall) return;
+
+    const attempt = voiceCall.attempts.find(entry => entry.callId === callId);
+    if (attempt) attempt.outcome = outcome;
+
+    // Acknowledged, or a late notification for an earlier attempt
+    if (voiceCall.status !== 'calling' || voiceCall.callId !== callId) {
+      await databaseService.updateAlert(alert.id, { voiceCall });
+      return;
+    }
+
+    const retry = voiceCall.attempts.length - 1;
+    if (retry >= RETRY_MINUTES.length) {
+      logger.warn(`Alert ${alert.id} was not acknowledged after ${voiceCall.attempts.length} calls (last: ${outcome})`);
+      await databaseService.updateAlert(alert.id, { voiceCall: { ...voiceCall, status: 'unacknowledged' } });
+      return;
+    }
+
+    // Retries that would ring during the farmer's quiet hours wait until they end
+    const user = await databaseService.getUserById(alert.userId);
+    const retryAt = Date.now() + RETRY_MINUTES[retry] * 60 * 1000;
+    const delay = retryAt - Date.now() + quietTimeRemaining(user?.alertPreferences, new Date(retryAt));
+    logger.info(`Alert call ${callId} ended unacknowledged (${outcome}), calling again in ${Math.round(delay / 60000)} minutes`);
+    await databaseService.updateAlert(alert.id, {
+      voiceCall: { ...voiceCall, status: 'scheduled', nextAttemptAt: new Date(Date.now() + delay) },
+    });
+    await jobQueue.enqueue(CALL_JOB, { alertId: alert.id }, { delay });
+  }
+
+  private async placeCall(alertId: string, job: Job): Promise<void> {
+    const alert = await databaseService.getAlert(alertId);
+    const voiceCall = alert?.voiceCall;
+    // Acknowledged meanwhile, or this attempt was already placed
+    if (!alert || !voiceCall || voiceCall.status !== 'scheduled') return;
+
+    const provider = getOutboundVoiceProvider();
+    if (!provider) {
+      throw new Error('No outbound voice provider configured');
+    }
+
+    if (!voiceCall.script) {
+      voiceCall.script = await translationAgent.translate(`${alert.title}. ${alert.message}`, 'en', voiceCall.language);
+      await databaseService.updateAlert(alert.id, { voiceCall });
+    }
+
+    // A retry after the call went out must not ring the farmer again; the webhooks find the
+    // alert by its ID, so they work even before the call ID below is saved
+    const callId = await jobQueue.step(job, 'call', () => provider.placeCall(voiceCall.phoneNumber, alert.id));
+    const { nextAttemptAt: _nextAttemptAt, ...rest } = voiceCall;
+    await databaseService.updateAlert(alert.id, {
+      voiceCall: {
+        ...rest,
+        status: 'calling',
+        provider: provider.name,
+        callId,
+        attempts: [...voiceCall.attempts, { callId, provider: provider.name, placedAt: new Date() }],
+      },
+    });
+    logger.info(`Calling ${voiceCall.phoneNumber} via ${provider.name} for alert ${alert.id} (attempt ${voiceCall.attempts.length + 1})`);
+  }
+
+  private async acknowledge(alert: Alert, voiceCall: AlertVoiceCall): Promise<void> {
+    if (voiceCall.status === 'acknowledged') return;
+
+    await databaseService.updateAlert(alert.id, {
+      voiceCall: { ...voiceCall, status: 'acknowledged' },
+      acknowledgedAt: new Date(),
+    });
+    logger.info(`Alert ${alert.id} acknowledged by ${voiceCall.phoneNumber}`);
+  }
+}
+
+export const alertCallService = new AlertCallService();
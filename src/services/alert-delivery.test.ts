@@ -0,0 +1,174 @@
+import { alertDeliveryRouter } from './alert-delivery';
+import { alertCallService } from './alert-calls';
+import { Alert } from './alerts';
+import { databaseService } from './database';
+import { User } from '../models/user';
+import { jobQueue } from '../utils/job-queue';
+
+const user = {
+  id: 'farmer-1',
+  phoneNumber: '+254700000001',
+  county: 'Nakuru',
+  crops: ['maize'],
+  preferredLanguage: 'en',
+} as unknown as User;
+
+const alert: Alert = {
+  id: 'farmer-1-1',
+  userId: 'farmer-1',
+  type: 'market',
+  severity: 'medium',
+  title: 'maize Price Alert',
+  message: 'maize prices have increased by 25.0% in Nakuru.',
+  timestamp: new Date(),
+  deliveryStatus: 'pending',
+};
+
+// Kenya time
+const at = (time: string) => jest.setSystemTime(new Date(`2026-10-19T${time}+03:00`));
+
+describe('AlertDeliveryRouter', () => {
+  let sent: string[];
+  let failing: Set<string>;
+  let updateAlert: jest.SpyInstance;
+  let enqueue: jest.SpyInstance;
+  let scheduleCall: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setInterval', 'setTimeout', 'setImmediate', 'nextTick'] });
+    at('12:00:00');
+    sent = [];
+    failing = new Set();
+    jest.spyOn(alertDeliveryRouter as any, 'sender').mockImplementation(channel => ({
+      sendMessage: async () => {
+        if (failing.has(channel as string)) throw new Error(`${channel} is down`);
+        sent.push(channel as string);
+      },
+    }));
+    updateAlert = jest.spyOn(databaseService, 'updateAlert').mockResolvedValue();
+    enqueue = jest.spyOn(jobQueue, 'enqueue').mockResolvedValue({} as any);
+    scheduleCall = jest.spyOn(alertCallService, 'schedule').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('channelOrder', () => {
+    it('sends SMS to farmers who have not used WhatsApp', () => {
+      expect(alertDeliveryRouter.channelOrder(user)).toEqual(['sms']);
+    });
+
+    it('tries the channel the farmer used most recently first', () => {
+      const channelActivity = { sms: new Date('2026-10-18T08:00:00Z'), whatsapp: new Date('2026-10-17T08:00:00Z') };
+      expect(alertDeliveryRouter.channelOrder({ ...user, channelActivity })).toEqual(['sms', 'whatsapp']);
+      expect(alertDeliveryRouter.channelOrder({ ...user, channelActivity: { whatsapp: new Date() } })).toEqual(['whatsapp', 'sms']);
+    });
+
+    it('puts the farmer\'s own choice first and keeps SMS as the last resort', () => {
+      expect(alertDeliveryRouter.channelOrder({ ...user, alertPreferences: { channels: ['voice', 'whatsapp'] } }))
+        .toEqual(['whatsapp', 'sms']);
+    });
+  });
+
+  it('falls back to the next channel and records every attempt', async () => {
+    failing.add('whatsapp');
+    const outcome = await alertDeliveryRouter.deliver(alert, { ...user, channelActivity: { whatsapp: new Date() } });
+
+    expect(outcome).toBe('sent');
+    expect(sent).toEqual(['sms']);
+    const [, updates] = updateAlert.mock.calls[updateAlert.mock.calls.length - 1];
+    expect(updates).toMatchObject({ deliveryStatus: 'sent', deliveredVia: 'sms' });
+    expect(updates.deliveries.map((attempt: any) => `${attempt.channel} ${attempt.outcome}`)).toEqual(['whatsapp failed', 'sms sent']);
+  });
+
+  it('fails when no channel takes the alert', async () => {
+    failing.add('sms');
+    expect(await alertDeliveryRouter.deliver(alert, user)).toBe('failed');
+    expect(updateAlert).toHaveBeenLastCalledWith(alert.id, expect.objectContaining({ deliveryStatus: 'failed' }));
+  });
+
+  it('holds routine alerts until the farmer\'s quiet hours end', async () => {
+    at('22:00:00');
+    expect(await alertDeliveryRouter.deliver(alert, user)).toBe('deferred');
+
+    expect(sent).toEqual([]);
+    expect(enqueue).toHaveBeenCalledWith('alert.deliver', { alertId: alert.id }, { delay: 8 * 60 * 60 * 1000 });
+    expect(updateAlert).toHaveBeenCalledWith(alert.id, {
+      deliveryStatus: 'deferred',
+      deferredUntil: new Date('2026-10-20T06:00:00+03:00'),
+    });
+  });
+
+  it('sends urgent alerts at night but calls only once quiet hours end', async () => {
+    at('22:00:00');
+    const urgent: Alert = { ...alert, type: 'weather', severity: 'high', title: 'Heavy rain warning' };
+    expect(await alertDeliveryRouter.deliver(urgent, user)).toBe('sent');
+
+    expect(sent).toEqual(['sms']);
+    expect(scheduleCall).toHaveBeenCalledWith(urgent, user, { delay: 8 * 60 * 60 * 1000 });
+  });
+
+  it('does not call farmers whose channels leave out voice', async () => {
+    const urgent: Alert = { ...alert, type: 'weather', severity: 'high', title: 'Heavy rain warning' };
+    await alertDeliveryRouter.deliver(urgent, { ...user, alertPreferences: { channels: ['sms'] } });
+    expect(scheduleCall).not.toHaveBeenCalled();
+  });
+
+  it('counts a failed urgent text as deferred while a call is coming', async () => {
+    failing.add('sms');
+    const urgent: Alert = { ...alert, type: 'pest', severity: 'high', title: 'Fall Armyworm Alert' };
+    expect(await alertDeliveryRouter.deliver(urgent, user)).toBe('deferred');
+    expect(scheduleCall).toHaveBeenCalledWith(urgent, user, { delay: undefined });
+  });
+});
+
+describe('AlertDeliveryRouter after quiet hours', () => {
+  const deferred: Alert = {
+    id: 'farmer-1-1',
+    userId: user.id,
+    type: 'market',
+    severity: 'medium',
+    title: 'maize Price Alert',
+    message: 'maize prices have increased by 25.0% in Nakuru.',
+    fingerprint: 'abcdef0123456789',
+    budgetDay: '2026-10-19',
+    timestamp: new Date(),
+    deliveryStatus: 'deferred',
+  };
+  let releaseAlert: jest.SpyInstance;
+  let deliver: jest.SpyInstance;
+  // The alert.deliver job handler
+  const deliverDeferred = (alertId: string): Promise<void> => (alertDeliveryRouter as any).deliverDeferred(alertId);
+
+  beforeEach(() => {
+    jest.spyOn(databaseService, 'getAlert').mockResolvedValue(deferred);
+    jest.spyOn(databaseService, 'getUserById').mockResolvedValue(user);
+    releaseAlert = jest.spyOn(databaseService, 'releaseAlert').mockResolvedValue();
+    deliver = jest.spyOn(alertDeliveryRouter, 'deliver').mockResolvedValue('sent');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('releases the reservation when the alert fails once quiet hours are over', async () => {
+    deliver.mockResolvedValue('failed');
+    await deliverDeferred(deferred.id);
+
+    expect(deliver).toHaveBeenCalledWith(deferred, user);
+    expect(releaseAlert).toHaveBeenCalledWith({ userId: user.id, fingerprint: deferred.fingerprint, day: '2026-10-19' });
+  });
+
+  it('keeps the reservation of an alert sent once quiet hours are over', async () => {
+    await deliverDeferred(deferred.id);
+    expect(releaseAlert).not.toHaveBeenCalled();
+  });
+
+  it('skips an alert that was already delivered', async () => {
+    jest.spyOn(databaseService, 'getAlert').mockResolvedValue({ ...deferred, deliveryStatus: 'sent' });
+    await deliverDeferred(deferred.id);
+    expect(deliver).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,125 @@
+import { Alert, AlertDeliveryAttempt } from './alerts';
+import { alertCallService } from './alert-calls';
+import { databaseService } from './database';
+import { AlertChannel, User } from '../models/user';
+import { SMSChannel } from '../channels/sms';
+import { WhatsAppChannel } from '../channels/whatsapp';
+import { toMillis } from '../utils/timestamps';
+import { quietTimeRemaining } from '../utils/quiet-hours';
+import { jobQueue } from '../utils/job-queue';
+import { logger } from '../utils/logger';
+
+type TextChannel = Exclude<AlertChannel, 'voice'>;
+
+const DELIVER_JOB = 'alert.deliver';
+
+/**
+ * Picks how each alert reaches the farmer: text channels in the farmer's order (explicit
+ * preferences first, then the channels they use most recently), falling back channel by channel,
+ * with every attempt recorded on the alert. Alerts wait out quiet hours unless they are urgent.
+ */
+export class AlertDeliveryRouter {
+  // Created once, on first use
+  private senders: Partial<Record<TextChannel, { sendMessage(to: string, text: string): Promise<void> }>> = {};
+
+  constructor() {
+    // Registered on import, before index.ts starts the queue workers
+    jobQueue.register(DELIVER_JOB, payload => this.deliverDeferred(payload.alertId));
+  }
+
+  /**
+   * Deliver a saved alert now, or once the farmer's quiet hours are over. Failed means no channel
+   * took it and no call is coming.
+   */
+  async deliver(alert: Alert, user: User): Promise<'sent' | 'deferred' | 'failed'> {
+    const quietFor = quietTimeRemaining(user.alertPreferences);
+    // Urgent alerts are sent as text at any hour, but nobody is called at night
+    const callDelay = quietFor > 0 ? quietFor : undefined;
+
+    if (quietFor > 0 && alert.severity !== 'high') {
+      const deferredUntil = new Date(Date.now() + quietFor);
+      await databaseService.updateAlert(alert.id, { deliveryStatus: 'deferred', deferredUntil });
+      await jobQueue.enqueue(DELIVER_JOB, { alertId: alert.id }, { delay: quietFor });
+      logger.info(`Alert ${alert.id} deferred until ${deferredUntil.toISOString()} (quiet hours)`);
+      return 'deferred';
+    }
+
+    const sent = await this.sendText(alert, user);
+    const calling = this.shouldCall(alert, user);
+    if (calling) {
+      await alertCallService.schedule(alert, user, { delay: callDelay });
+    }
+    // An alert whose text failed can still reach the farmer by phone
+    return sent ? 'sent' : calling ? 'deferred' : 'failed';
+  }
+
+  /**
+   * Text channels to try, in order. Explicit preferences come first; WhatsApp is only tried for
+   * farmers who have used it, and SMS, which reaches every phone, is always the last resort.
+   */
+  channelOrder(user: User): TextChannel[] {
+    const activity = user.channelActivity || {};
+    const used: TextChannel[] = (['whatsapp', 'sms'] as const)
+      .filter(channel => activity[channel])
+      .sort((a, b) => toMillis(activity[b]) - toMillis(activity[a]));
+    const preferred = (user.alertPreferences?.channels || [])
+      .filter((channel): channel is TextChannel => channel !== 'voice');
+
+    return [...new Set<TextChannel>([...preferred, ...used, 'sms'])];
+  }
+
+  private shouldCall(alert: Alert, user: User): boolean {
+    const preferred = user.alertPreferences?.channels;
+    // Farmers who chose their channels without voice are not called
+    return alertCallService.shouldCall(alert) && (!preferred || preferred.includes('voice'));
+  }
+
+  private async sendText(alert: Alert, user: User): Promise<boolean> {
+    const message = `${alert.title}\n\n${alert.message}`;
+    const deliveries: AlertDeliveryAttempt[] = [...(alert.deliveries || [])];
+
+    for (const channel of this.channelOrder(user)) {
+      try {
+        await this.sender(channel).sendMessage(user.phoneNumber, message);
+        deliveries.push({ channel, attemptedAt: new Date(), outcome: 'sent' });
+        await databaseService.updateAlert(alert.id, { deliveryStatus: 'sent', deliveredVia: channel, deliveries });
+        logger.info(`Alert sent via ${channel} to user ${user.id}: ${alert.title}`);
+        return true;
+      } catch (error: any) {
+        deliveries.push({ channel, attemptedAt: new Date(), outcome: 'failed', error: error?.message || String(error) });
+        logger.warn(`Failed to send alert ${alert.id} via ${channel}, trying the next channel`);
+      }
+    }
+
+    await databaseService.updateAlert(alert.id, { deliveryStatus: 'failed', deliveries });
+    logger.error(`Failed to send alert ${alert.id} to user ${user.id} on any channel`);
+    return false;
+  }
+
+  private async deliverDeferred(alertId: string): Promise<void> {
+    const alert = await databaseService.getAlert(alertId);
+    if (!alert || alert.deliveryStatus !== 'deferred') return;
+
+    const user = await databaseService.getUserById(alert.userId);
+    if (!user?.phoneNumber) {
+      logger.warn(`User ${alert.userId} not found or has no phone number for deferred alert ${alertId}`);
+      return;
+    }
+    const outcome = await this.deliver(alert, user);
+
+    // As when sending right away: an alert that never went out doesn't keep its cooldown or budget
+    if (outcome === 'failed' && alert.fingerprint && alert.budgetDay) {
+      await databaseService.releaseAlert({ userId: alert.userId, fingerprint: alert.fingerprint, day: alert.budgetDay })
+        .catch(error => logger.warn(`Failed to release alert reservation for user ${alert.userId}:`, error));
+    }
+  }
+
+  private sender(channel: TextChannel): { sendMessage(to: string, text: string): Promise<void> } {
+    if (!this.senders[channel]) {
+      this.senders[channel] = channel === 'whatsapp' ? new WhatsAppChannel() : new SMSChannel();
+    }
+    return this.senders[channel]!;
+  }
+}
+
+export const alertDeliveryRouter = new AlertDeliveryRouter();
@@ -0,0 +1,149 @@
+import { hostname } from 'os';
+import { alertService, AlertRunCounts, ScheduledAlertType } from './alerts';
+import { databaseService } from './database';
+import { CronSchedule, cronMatches, parseCron } from '../utils/cron';
+import { distributedLock } from '../utils/distributed-lock';
+import { logger } from '../utils/logger';
+
+// Cron schedules in Kenya time; ALERT_SCHEDULE_<TYPE> overrides them and "off" turns a check off
+const DEFAULT_SCHEDULES: Record<ScheduledAlertType, string> = {
+  weather: '0 * * * *', // Hourly
+  pest: '0 7 * * *', // Daily at 07:00
+  market: '0 8 * * *', // Daily at 08:00
+  advisory: '0 9 * * *', // Daily at 09:00
+};
+export const SCHEDULED_ALERT_TYPES = Object.keys(DEFAULT_SCHEDULES) as ScheduledAlertType[];
+
+// Timers drift, so the clock is checked more often than once a minute; each minute is handled once
+const TICK_INTERVAL = 15 * 1000;
+// A run still holding its lock after this is assumed lost with its instance
+const RUN_LOCK_TTL = 30 * 60 * 1000;
+// Long enough to cover clock differences between instances
+const SLOT_CLAIM_TTL = 10 * 60 * 1000;
+// Run history scanned when filtering by type
+const MAX_RUNS_SCANNED = 200;
+
+/**
+ * One run of an alert check, kept in the alertRuns collection
+ */
+export interface AlertRun extends AlertRunCounts {
+  id: string;
+  type: ScheduledAlertType;
+  trigger: 'schedule' | 'http';
+  status: 'running' | 'completed' | 'failed';
+  instance: string; // Host that ran it
+  startedAt: Date;
+  finishedAt?: Date;
+  error?: string;
+}
+
+/**
+ * Runs each type of alert check on its cron schedule. Every instance keeps the schedule, but each
+ * scheduled minute is claimed through a Redis lock so only one of them runs it, and a check never
+ * runs twice at once (e.g. a schedule and an HTTP trigger). Runs are recorded with their counts.
+ */
+export class AlertScheduler {
+  private schedules = new Map<ScheduledAlertType, CronSchedule>();
+  private lastMinute = 0;
+  private timer?: NodeJS.Timeout;
+
+  constructor() {
+    for (const type of SCHEDULED_ALERT_TYPES) {
+      const expression = process.env[`ALERT_SCHEDULE_${type.toUpperCase()}`] || DEFAULT_SCHEDULES[type];
+      if (expression.trim().toLowerCase() === 'off') continue;
+      try {
+        this.schedules.set(type, parseCron(expression));
+      } catch (error: any) {
+        logger.error(`${error.message}; using the default ${type} alert schedule`);
+        this.schedules.set(type, parseCron(DEFAULT_SCHEDULES[type]));
+      }
+    }
+  }
+
+  /**
+   * Start checking the schedules. Nothing runs on startup unless the current minute is scheduled.
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.lastMinute = Math.floor(Date.now() / 60000) - 1;
+    this.timer = setInterval(() => void this.tick(), TICK_INTERVAL);
+    this.timer.unref();
+    void this.tick();
+
+    const schedules = [...this.schedules].map(([type, schedule]) => `${type} "${schedule.expression}"`);
+    logger.info(`Alert scheduler started: ${schedules.join(', ') || 'no checks scheduled'}`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Run a check now, unless it is already running on some instance (then null)
+   */
+  async run(type: ScheduledAlertType, trigger: AlertRun['trigger']): Promise<AlertRun | null> {
+    const token = await distributedLock.acquire(`alerts:run:${type}`, RUN_LOCK_TTL);
+    if (!token) {
+      logger.info(`Not running ${type} alert check (${trigger}): it is already running`);
+      return null;
+    }
+
+    const run: AlertRun = {
+      id: `${type}-${Date.now()}`,
+      type,
+      trigger,
+      status: 'running',
+      instance: hostname(),
+      startedAt: new Date(),
+      generated: 0,
+      sent: 0,
+    };
+    try {
+      // History is best effort: a failed write must not stop the alerts
+      await databaseService.saveAlertRun(run).catch(() => undefined);
+      Object.assign(run, await alertService.runCheck(type), { status: 'completed' });
+    } catch (error: any) {
+      run.status = 'failed';
+      run.error = error?.message || String(error);
+      logger.error(`${type} alert check failed:`, error);
+    } finally {
+      await distributedLock.release(`alerts:run:${type}`, token);
+    }
+
+    run.finishedAt = new Date();
+    const { id: _id, ...result } = run;
+    await databaseService.updateAlertRun(run.id, result).catch(() => undefined);
+    logger.info(`${type} alert check (${trigger}) ${run.status}: ${run.generated} alerts generated, ${run.sent} sent`);
+    return run;
+  }
+
+  /**
+   * Recent runs, newest first
+   */
+  async listRuns(limit: number, type?: ScheduledAlertType): Promise<AlertRun[]> {
+    if (!type) return databaseService.getAlertRuns(limit);
+    const runs = await databaseService.getAlertRuns(MAX_RUNS_SCANNED);
+    return runs.filter(run => run.type === type).slice(0, limit);
+  }
+
+  private async tick(): Promise<void> {
+    const minute = Math.floor(Date.now() / 60000);
+    if (minute <= this.lastMinute) return;
+    this.lastMinute = minute;
+
+    for (const [type, schedule] of this.schedules) {
+      if (!cronMatches(schedule, new Date(minute * 60000))) continue;
+      try {
+        // Every instance sees the scheduled minute; only the one that claims it runs the check
+        if (!(await distributedLock.acquire(`alerts:slot:${type}:${minute}`, SLOT_CLAIM_TTL))) continue;
+        void this.run(type, 'schedule').catch(error => logger.error(`Error running ${type} alert check:`, error));
+      } catch (error) {
+        logger.error(`Error scheduling ${type} alert check:`, error);
+      }
+    }
+  }
+}
+
+export const alertScheduler = new AlertScheduler();
@@ -0,0 +1,75 @@
+import { ALERT_TYPES, AlertType, User } from '../models/user';
+import { databaseService } from './database';
+import { MessageKey, t } from '../languages';
+import { logger } from '../utils/logger';
+
+// "STOP MARKET", "START WEATHER", "ACHA SOKO", "STOP ALERTS"...
+const COMMAND = /^\s*(stop|start|acha|anza)\s+([a-z]+)[\s.!]*$/i;
+const STOP_WORDS = ['stop', 'acha'];
+
+// Words farmers can use for each alert type; 'all' turns every type on or off
+const TYPE_WORDS: Record<AlertType | 'all', string[]> = {
+  weather: ['weather', 'hewa'],
+  pest: ['pest', 'pests', 'wadudu'],
+  market: ['market', 'prices', 'soko', 'bei'],
+  advisory: ['advice', 'calendar', 'tips', 'ushauri'],
+  general: ['general', 'jumla'],
+  all: ['alerts', 'all', 'arifa', 'zote'],
+};
+
+const TYPE_LABELS: Record<AlertType | 'all', MessageKey> = {
+  weather: 'alertType.weather',
+  pest: 'alertType.pest',
+  market: 'alertType.market',
+  advisory: 'alertType.advisory',
+  general: 'alertType.general',
+  all: 'alertType.all',
+};
+
+interface SubscriptionCommand {
+  action: 'stop' | 'start';
+  type: AlertType | 'all';
+}
+
+/**
+ * Alert subscriptions by text message: STOP <TYPE> mutes a type of alert, START <TYPE> turns it back on.
+ * Muted types are kept in the farmer's alert preferences, which AlertService checks before every alert.
+ */
+export class AlertSubscriptionService {
+  parseCommand(text: string): SubscriptionCommand | null {
+    const match = text.match(COMMAND);
+    if (!match) return null;
+
+    const word = match[2].toLowerCase();
+    const type = (Object.keys(TYPE_WORDS) as Array<AlertType | 'all'>).find(key => TYPE_WORDS[key].includes(word));
+    if (!type) return null;
+
+    return { action: STOP_WORDS.includes(match[1].toLowerCase()) ? 'stop' : 'start', type };
+  }
+
+  /**
+   * Apply a STOP/START command, returning the confirmation to send
+   */
+  async handleCommand(user: User, command: SubscriptionCommand): Promise<string> {
+    const types: readonly AlertType[] = command.type === 'all' ? ALERT_TYPES : [command.type];
+    const current = new Set(user.alertPreferences?.muted || []);
+    types.forEach(type => (command.action === 'stop' ? current.add(type) : current.delete(type)));
+
+    const muted = ALERT_TYPES.filter(type => current.has(type));
+    user.alertPreferences = { ...user.alertPreferences, muted };
+    await databaseService.updateUser(user.id, { alertPreferences: user.alertPreferences });
+    logger.info(`User ${user.id} ${command.action === 'stop' ? 'muted' : 'unmuted'} ${command.type} alerts`);
+
+    const language = user.preferredLanguage;
+    return t(language, command.action === 'stop' ? 'alerts.stopped' : 'alerts.started', {
+      type: t(language, TYPE_LABELS[command.type]),
+      command: TYPE_WORDS[command.type][0].toUpperCase(),
+    });
+  }
+
+  isMuted(user: User, type: AlertType): boolean {
+    return !!user.alertPreferences?.muted?.includes(type);
+  }
+}
+
+export const alertSubscriptionService = new AlertSubscriptionService();
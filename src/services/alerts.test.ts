@@ -0,0 +1,123 @@
+import { AlertRunCounts, alertService } from './alerts';
+import { alertDeliveryRouter } from './alert-delivery';
+import { databaseService } from './database';
+import { User } from '../models/user';
+
+const user = {
+  id: 'farmer-1',
+  phoneNumber: '+254700000001',
+  county: 'Nakuru',
+  crops: ['maize'],
+  preferredLanguage: 'en',
+} as unknown as User;
+
+const priceAlert = (change: string) => ({
+  type: 'market' as const,
+  severity: 'medium' as const,
+  title: 'maize Price Alert',
+  message: `maize prices have increased by ${change}% in Nakuru.`,
+  metadata: { crop: 'maize', region: 'Nakuru', trend: 'up' },
+});
+
+describe('AlertService.sendAlert', () => {
+  let reserveAlert: jest.SpyInstance;
+  let releaseAlert: jest.SpyInstance;
+  let saveAlert: jest.SpyInstance;
+  let deliver: jest.SpyInstance;
+  let counts: AlertRunCounts;
+
+  beforeEach(() => {
+    // 02:00 on 20 October in Kenya, still the 19th in UTC
+    jest.useFakeTimers({ doNotFake: ['setInterval', 'setTimeout', 'setImmediate', 'nextTick'] });
+    jest.setSystemTime(new Date('2026-10-20T02:00:00+03:00'));
+    counts = { generated: 0, sent: 0 };
+    jest.spyOn(databaseService, 'getUserById').mockResolvedValue(user);
+    reserveAlert = jest.spyOn(databaseService, 'reserveAlert').mockResolvedValue('reserved');
+    releaseAlert = jest.spyOn(databaseService, 'releaseAlert').mockResolvedValue();
+    saveAlert = jest.spyOn(databaseService, 'saveAlert').mockResolvedValue();
+    deliver = jest.spyOn(alertDeliveryRouter, 'deliver').mockResolvedValue('sent');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('reserves the alert against its cooldown and the farmer\'s daily budget in Kenya time', async () => {
+    expect(await alertService.sendAlert(user.id, priceAlert('25.0'), counts)).toBe(true);
+
+    expect(reserveAlert).toHaveBeenCalledWith({
+      userId: user.id,
+      fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/),
+      cooldownMs: 24 * 60 * 60 * 1000,
+      day: '2026-10-20',
+      dailyBudget: 3,
+    });
+    const [saved] = saveAlert.mock.calls[0];
+    expect(saved).toMatchObject({ fingerprint: reserveAlert.mock.calls[0][0].fingerprint, budgetDay: '2026-10-20' });
+    expect(counts).toEqual({ generated: 1, sent: 1 });
+  });
+
+  it('gives repeats of an alert the same fingerprint when only the details change', async () => {
+    await alertService.sendAlert(user.id, priceAlert('25.0'));
+    await alertService.sendAlert(user.id, priceAlert('31.5'));
+    await alertService.sendAlert(user.id, { ...priceAlert('25.0'), metadata: { trend: 'down' } });
+
+    const [first, repeat, other] = reserveAlert.mock.calls.map(([reservation]) => reservation.fingerprint);
+    expect(repeat).toBe(first);
+    expect(other).not.toBe(first);
+  });
+
+  it('keeps pest alerts from repeating for a week and sends urgent alerts beyond the budget', async () => {
+    await alertService.sendAlert(user.id, {
+      type: 'pest',
+      severity: 'high',
+      title: 'Fall Armyworm Alert',
+      message: 'Check your maize now.',
+    });
+    expect(reserveAlert).toHaveBeenCalledWith(expect.objectContaining({ cooldownMs: 7 * 24 * 60 * 60 * 1000, dailyBudget: null }));
+  });
+
+  it.each([['cooldown'], ['budget']])('skips an alert held back by its %s', async reservation => {
+    reserveAlert.mockResolvedValue(reservation);
+
+    expect(await alertService.sendAlert(user.id, priceAlert('25.0'), counts)).toBe(false);
+    expect(saveAlert).not.toHaveBeenCalled();
+    expect(deliver).not.toHaveBeenCalled();
+    expect(counts).toEqual({ generated: 1, sent: 0 });
+  });
+
+  it('skips alert types the farmer has muted', async () => {
+    jest.spyOn(databaseService, 'getUserById').mockResolvedValue({ ...user, alertPreferences: { muted: ['market'] } });
+
+    expect(await alertService.sendAlert(user.id, priceAlert('25.0'))).toBe(false);
+    expect(reserveAlert).not.toHaveBeenCalled();
+  });
+
+  it('releases the reservation when no channel took the alert', async () => {
+    deliver.mockResolvedValue('failed');
+
+    expect(await alertService.sendAlert(user.id, priceAlert('25.0'), counts)).toBe(false);
+    expect(releaseAlert).toHaveBeenCalledWith({
+      userId: user.id,
+      fingerprint: reserveAlert.mock.calls[0][0].fingerprint,
+      day: '2026-10-20',
+    });
+    expect(counts.sent).toBe(0);
+  });
+
+  it('releases the reservation when the alert could not be saved', async () => {
+    saveAlert.mockRejectedValue(new Error('Firestore unavailable'));
+
+    expect(await alertService.sendAlert(user.id, priceAlert('25.0'))).toBe(false);
+    expect(deliver).not.toHaveBeenCalled();
+    expect(releaseAlert).toHaveBeenCalled();
+  });
+
+  it('keeps the reservation of an alert held for quiet hours', async () => {
+    deliver.mockResolvedValue('deferred');
+
+    expect(await alertService.sendAlert(user.id, priceAlert('25.0'))).toBe(true);
+    expect(releaseAlert).not.toHaveBeenCalled();
+  });
+});
@@ -1,41 +1,107 @@
 import { databaseService } from './database';
 import { weatherService, WeatherForecast } from './weather';
 import { marketService } from './market';
+import { outbreakService } from './outbreaks';
+import { pestSightingService } from './pest-sightings';
+import { advisoryService } from './advisories';
 import { logger } from '../utils/logger';
-import { SMSChannel } from '../channels/sms';
-import { WhatsAppChannel } from '../channels/whatsapp';
+import { createHash } from 'crypto';
+import { alertDeliveryRouter } from './alert-delivery';
+import { alertSubscriptionService } from './alert-subscriptions';
+import { AlertChannel, AlertType } from '../models/user';
+import { VoiceCallOutcome } from '../voice';
+
+// How long before the same alert is sent to a farmer again
+const ALERT_COOLDOWN_HOURS: Record<AlertType, number> = {
+  weather: 24,
+  pest: 7 * 24,
+  market: 24,
+  advisory: 7 * 24,
+  general: 24,
+};
+// Alerts per farmer per day; high-severity alerts are always sent (but still counted)
+const DAILY_ALERT_BUDGET = parseInt(process.env.ALERT_DAILY_BUDGET || '3');
+// Days are counted in Kenya time (UTC+3)
+const EAT_OFFSET_MS = 3 * 60 * 60 * 1000;
 
 export interface Alert {
   id: string;
   userId: string;
-  type: 'weather' | 'pest' | 'market' | 'general';
+  type: AlertType;
   severity: 'low' | 'medium' | 'high';
   title: string;
   message: string;
   timestamp: Date;
   metadata?: Record<string, any>;
+  fingerprint?: string; // Same for repeats of one alert, which wait out a cooldown
+  budgetDay?: string; // Kenyan date (YYYY-MM-DD) whose daily alert budget the alert counts against
+  // Text delivery: pending until tried, deferred during the farmer's quiet hours
+  deliveryStatus?: 'pending' | 'deferred' | 'sent' | 'failed';
+  deliveries?: AlertDeliveryAttempt[]; // Each channel tried, in order
+  deliveredVia?: AlertChannel;
+  deferredUntil?: Date;
+  voiceCall?: AlertVoiceCall; // Urgent alerts are also read out in a phone call
+  acknowledgedAt?: Date; // When the farmer confirmed receiving the alert
+}
+
+export interface AlertDeliveryAttempt {
+  channel: AlertChannel;
+  attemptedAt: Date;
+  outcome: 'sent' | 'failed';
+  error?: string;
+}
+
+/**
+ * An alert's phone calls: each attempt, and whether the farmer pressed 1 to acknowledge it
+ */
+export interface AlertVoiceCall {
+  // scheduled: the next attempt is queued; calling: waiting for the call to end
+  status: 'scheduled' | 'calling' | 'acknowledged' | 'unacknowledged';
+  phoneNumber: string;
+  language: string; // Spoken language (the farmer's, or its nearest TTS fallback)
+  script?: string; // The alert as read out, translated on the first attempt
+  provider?: string;
+  callId?: string; // The current attempt's call
+  attempts: Array<{ callId: string; provider: string; placedAt: Date; outcome?: VoiceCallOutcome }>;
+  nextAttemptAt?: Date;
+}
+
+/**
+ * Alerts considered in one run of a check, and how many of them were sent or deferred to the end
+ * of the farmer's quiet hours (muted, repeated, over-budget and undeliverable alerts are not)
+ */
+export interface AlertRunCounts {
+  generated: number;
+  sent: number;
 }
 
+// Alert types with a scheduled check
+export type ScheduledAlertType = Exclude<AlertType, 'general'>;
+
 export class AlertService {
-  async checkAndSendAlerts(): Promise<void> {
-    try {
-      // Get all users (in production, would paginate)
-      // For now, we'll check alerts for active users
-      
-      // Weather alerts
-      await this.checkWeatherAlerts();
-      
-      // Pest outbreak alerts
-      await this.checkPestAlerts();
-      
-      // Market price alerts
-      await this.checkMarketAlerts();
-    } catch (error) {
-      logger.error('Error checking alerts:', error);
+  /**
+   * Run one type of check (see AlertScheduler, which decides when and where this runs)
+   */
+  async runCheck(type: ScheduledAlertType): Promise<AlertRunCounts> {
+    const counts: AlertRunCounts = { generated: 0, sent: 0 };
+    switch (type) {
+      case 'weather':
+        await this.checkWeatherAlerts(counts);
+        break;
+      case 'pest':
+        await this.checkPestAlerts(counts);
+        break;
+      case 'market':
+        await this.checkMarketAlerts(counts);
+        break;
+      case 'advisory':
+        await this.checkAdvisories(counts);
+        break;
     }
+    return counts;
   }
 
-  private async checkWeatherAlerts(): Promise<void> {
+  private async checkWeatherAlerts(counts: AlertRunCounts): Promise<void> {
     logger.info('Checking weather alerts...');
     
     try {
@@ -48,7 +114,7 @@ export class AlertService {
           
           if (forecast.alerts && forecast.alerts.length > 0) {
             // Send alerts to users in this region
-            await this.sendWeatherAlertsToRegion(region, forecast.alerts);
+            await this.sendWeatherAlertsToRegion(region, forecast.alerts, counts);
           }
         } catch (error) {
           logger.warn(`Failed to check weather for region ${region}:`, error);
@@ -59,61 +125,45 @@ export class AlertService {
     }
   }
 
-  private async checkPestAlerts(): Promise<void> {
+  private async checkPestAlerts(counts: AlertRunCounts): Promise<void> {
     logger.info('Checking pest alerts...');
     
     try {
-      // Known pest outbreaks (in production, this would come from monitoring systems)
-      const pestOutbreaks: Array<{
-        pest: string;
-        crops: string[];
-        regions: string[];
-        severity: 'high' | 'medium' | 'low';
-        message: string;
-      }> = [
-        {
-          pest: 'Fall Armyworm',
-          crops: ['maize', 'sorghum'],
-          regions: [], // Empty means all regions
-          severity: 'high',
-          message: 'Fall Armyworm outbreak detected. Monitor your maize fields closely and apply control measures immediately.',
-        },
-        {
-          pest: 'Tuta absoluta',
-          crops: ['tomato'],
-          regions: [],
-          severity: 'high',
-          message: 'Tuta absoluta (tomato leaf miner) outbreak detected. Check your tomato plants and apply appropriate pesticides.',
-        },
-      ];
+      // Surges in farmers' pest reports join the registry first
+      await pestSightingService.detectOutbreaks();
       
-      for (const outbreak of pestOutbreaks) {
-        // Get users growing affected crops
-        const users = await databaseService.getUsersByCrops(outbreak.crops);
+      // Outbreaks declared through the admin API or from reports, until they expire
+      const outbreaks = await outbreakService.getActiveOutbreaks();
+      
+      for (const outbreak of outbreaks) {
+        const counties = new Set(outbreak.counties.map(county => county.toLowerCase()));
+        // Only farmers growing an affected crop in an affected county
+        const users = (await databaseService.getUsersByCrops(outbreak.crops))
+          .filter(user => user.county && counties.has(user.county.toLowerCase()));
         
         for (const user of users) {
-          // Check if user's region is affected (or all regions if empty)
-          if (outbreak.regions.length === 0 || 
-              (user.county && outbreak.regions.includes(user.county.toLowerCase()))) {
-            await this.sendAlert(user.id, {
-              type: 'pest',
-              severity: outbreak.severity,
-              title: `${outbreak.pest} Alert`,
-              message: outbreak.message,
-              metadata: {
-                pest: outbreak.pest,
-                crops: outbreak.crops,
-              },
-            });
-          }
+          await this.sendAlert(user.id, {
+            type: 'pest',
+            severity: outbreak.severity,
+            title: `${outbreak.pest} Alert`,
+            message: pestSightingService.outbreakMessage(outbreak, user.preferredLanguage),
+            metadata: {
+              outbreakId: outbreak.id,
+              pest: outbreak.pest,
+              crops: outbreak.crops,
+              county: user.county,
+              source: outbreak.source,
+            },
+          }, counts);
         }
+        logger.info(`Checked ${outbreak.pest} outbreak ${outbreak.id}: ${users.length} affected farmers`);
       }
     } catch (error) {
       logger.error('Error checking pest alerts:', error);
     }
   }
 
-  private async checkMarketAlerts(): Promise<void> {
+  private async checkMarketAlerts(counts: AlertRunCounts): Promise<void> {
     logger.info('Checking market alerts...');
     
     try {
@@ -151,8 +201,9 @@ export class AlertService {
                       currentPrice: currentPrice.price,
                       previousPrice: previousPrice.price,
                       change: priceChange,
+                      trend: currentPrice.trend,
                     },
-                  });
+                  }, counts);
                 }
               }
             }
@@ -166,9 +217,43 @@ export class AlertService {
     }
   }
 
+  private async checkAdvisories(counts: AlertRunCounts): Promise<void> {
+    logger.info('Checking crop calendar advisories...');
+    
+    try {
+      // Nudges from the planting calendar for the farmer's county and crops, once per season
+      const users = await databaseService.getUsersWithCrops();
+      
+      for (const user of users) {
+        try {
+          for (const nudge of await advisoryService.dueNudges(user)) {
+            const sent = await this.sendAlert(user.id, {
+              type: 'advisory',
+              severity: 'low',
+              title: nudge.title,
+              message: nudge.message,
+              metadata: {
+                alertType: nudge.kind,
+                season: nudge.season.season,
+                county: user.county,
+              },
+            }, counts);
+            // Unsent nudges (e.g. over the daily budget) are tried again on the next run
+            if (sent) await advisoryService.markSent(nudge);
+          }
+        } catch (error) {
+          logger.warn(`Failed to check advisories for user ${user.id}:`, error);
+        }
+      }
+    } catch (error) {
+      logger.error('Error checking advisories:', error);
+    }
+  }
+
   private async sendWeatherAlertsToRegion(
     region: string,
-    alerts: WeatherForecast['alerts']
+    alerts: WeatherForecast['alerts'],
+    counts: AlertRunCounts
   ): Promise<void> {
     if (!alerts || alerts.length === 0) return;
     
@@ -187,7 +272,7 @@ export class AlertService {
               region,
               alertType: alert.type,
             },
-          });
+          }, counts);
         }
       }
       
@@ -199,13 +284,36 @@ export class AlertService {
 
   async sendAlert(
     userId: string,
-    alert: Omit<Alert, 'id' | 'userId' | 'timestamp'>
-  ): Promise<void> {
+    alert: Omit<Alert, 'id' | 'userId' | 'timestamp'>,
+    counts?: AlertRunCounts
+  ): Promise<boolean> {
+    if (counts) counts.generated++;
     try {
       const user = await databaseService.getUserById(userId);
       if (!user || !user.phoneNumber) {
         logger.warn(`User ${userId} not found or has no phone number for alert`);
-        return;
+        return false;
+      }
+      
+      // Farmers turn alert types off with STOP <TYPE>
+      if (alertSubscriptionService.isMuted(user, alert.type)) {
+        logger.debug(`User ${userId} has muted ${alert.type} alerts: ${alert.title}`);
+        return false;
+      }
+      
+      // The same alert is not repeated within its cooldown, and routine alerts count against the daily budget
+      const fingerprint = this.fingerprint(alert);
+      const day = new Date(Date.now() + EAT_OFFSET_MS).toISOString().substring(0, 10);
+      const reservation = await databaseService.reserveAlert({
+        userId,
+        fingerprint,
+        cooldownMs: ALERT_COOLDOWN_HOURS[alert.type] * 60 * 60 * 1000,
+        day,
+        dailyBudget: alert.severity === 'high' ? null : DAILY_ALERT_BUDGET,
+      });
+      if (reservation !== 'reserved') {
+        logger.debug(`Skipping alert for user ${userId} (${reservation === 'cooldown' ? 'sent recently' : 'daily budget used'}): ${alert.title}`);
+        return false;
       }
       
       // Save alert to database
@@ -213,45 +321,43 @@ export class AlertService {
         id: `${userId}-${Date.now()}`,
         userId,
         ...alert,
+        fingerprint,
+        budgetDay: day,
         timestamp: new Date(),
+        deliveryStatus: 'pending',
       };
       
-      await databaseService.saveAlert(alertData);
-      
-      // Send via user's preferred channel
-      const message = `${alert.title}\n\n${alert.message}`;
-      
-      // Try WhatsApp first if available, then SMS
+      let outcome: 'sent' | 'deferred' | 'failed' = 'failed';
       try {
-        const whatsappChannel = new WhatsAppChannel();
-        await whatsappChannel.sendMessage(user.phoneNumber, message);
-        logger.info(`Alert sent via WhatsApp to user ${userId}: ${alert.title}`);
-      } catch (whatsappError) {
-        // Fallback to SMS
-        try {
-          const smsChannel = new SMSChannel();
-          await smsChannel.sendMessage(user.phoneNumber, message);
-          logger.info(`Alert sent via SMS to user ${userId}: ${alert.title}`);
-        } catch (smsError) {
-          logger.error(`Failed to send alert to user ${userId} via both channels:`, { whatsappError, smsError });
+        await databaseService.saveAlert(alertData);
+        
+        // Text on the farmer's channels (and a call for urgent alerts), or after their quiet hours
+        outcome = await alertDeliveryRouter.deliver(alertData, user);
+      } finally {
+        // An alert that never went out doesn't start a cooldown or use up the budget, so the next run tries again
+        if (outcome === 'failed') {
+          await databaseService.releaseAlert({ userId, fingerprint, day })
+            .catch(error => logger.warn(`Failed to release alert reservation for user ${userId}:`, error));
         }
       }
+      if (outcome === 'failed') return false;
+      
+      if (counts) counts.sent++;
+      return true;
     } catch (error) {
       logger.error('Error sending alert:', error);
+      return false;
     }
   }
-}
-
-export const alertService = new AlertService();
 
-// Scheduled job to check alerts (would run via Cloud Scheduler or similar)
-export function startAlertScheduler(): void {
-  // Check alerts every hour
-  setInterval(() => {
-    alertService.checkAndSendAlerts();
-  }, 60 * 60 * 1000);
-  
-  // Also check immediately on startup
-  alertService.checkAndSendAlerts();
+  /**
+   * Identifies "the same alert" across runs: type, title and what it is about
+   * (weather alert kind, price direction), but not changing details such as percentages
+   */
+  private fingerprint(alert: Omit<Alert, 'id' | 'userId' | 'timestamp'>): string {
+    const key = [alert.type, alert.title, alert.metadata?.alertType, alert.metadata?.trend].filter(Boolean).join('|');
+    return createHash('sha256').update(key.toLowerCase()).digest('hex').substring(0, 16);
+  }
 }
 
+export const alertService = new AlertService();
@@ -0,0 +1,165 @@
+import { User, ConversationMemory, MemoryNote } from '../models/user';
+import { Message } from '../models/message';
+import { databaseService } from './database';
+import { generateText } from '../utils/genkit-helper';
+import { toMillis } from '../utils/timestamps';
+import { logger } from '../utils/logger';
+
+// Fold messages into the summary once this many are pending (matches the recent history window,
+// so nothing drops out of the agents' view before it has been summarised)
+const SUMMARIZE_AFTER_MESSAGES = 6;
+// Cap on messages per summary run, e.g. after the model returned unusable output several times
+const MAX_MESSAGES_PER_SUMMARY = 20;
+// Keep the memory small enough to include in every agent prompt
+const MAX_TOPICS = 10;
+const MAX_NOTES = 8;
+// A summary still running after this is assumed lost, so another one may start
+const SUMMARY_LEASE_MS = 5 * 60 * 1000;
+// Wait after a failed summary, doubling with each failure in a row
+const SUMMARY_RETRY_MS = 15 * 60 * 1000;
+const MAX_SUMMARY_RETRY_MS = 24 * 60 * 60 * 1000;
+
+const EMPTY_MEMORY: ConversationMemory = {
+  summary: '',
+  topics: [],
+  problems: [],
+  advice: [],
+  followUps: [],
+  pendingMessages: 0,
+};
+
+/**
+ * Durable per-farmer memory: a rolling summary of crops discussed, problems reported, advice given
+ * and follow-ups promised, stored on the user document so agents can pick up conversations days later.
+ */
+export class ConversationMemoryService {
+  /**
+   * Count an answered question and its reply, summarising once enough messages have built up.
+   * Runs after the answer has been sent, so failures are logged rather than thrown.
+   */
+  async recordExchange(user: User): Promise<void> {
+    try {
+      // Counted in a transaction, which also makes sure only one summary runs for concurrent answers
+      const memory = await databaseService.addPendingMessages(user.id, 2, SUMMARIZE_AFTER_MESSAGES, SUMMARY_LEASE_MS);
+      if (memory) {
+        await this.summarize(user, { ...EMPTY_MEMORY, ...memory });
+      }
+    } catch (error) {
+      logger.error(`Error updating conversation memory for user ${user.id}:`, error);
+    }
+  }
+
+  /**
+   * The farmer's memory as a prompt section for the agents, or '' when there is nothing to remember
+   */
+  formatForPrompt(user: User): string {
+    const memory = user.conversationMemory && { ...EMPTY_MEMORY, ...user.conversationMemory };
+    if (!memory || (!memory.summary && memory.problems.length === 0 && memory.advice.length === 0)) {
+      return '';
+    }
+
+    const notes = (title: string, items: MemoryNote[]) =>
+      items.length > 0 ? `${title}:\n${items.map(note => `- ${note.date}: ${note.text}`).join('\n')}\n` : '';
+
+    return `WHAT YOU REMEMBER FROM EARLIER CONVERSATIONS (today is ${this.today()}):
+${memory.summary ? `${memory.summary}\n` : ''}${memory.topics.length > 0 ? `Crops/animals discussed: ${memory.topics.join(', ')}\n` : ''}${notes('Problems reported', memory.problems)}${notes('Advice given', memory.advice)}${notes('Follow-ups promised', memory.followUps)}
+Use this memory when the farmer refers to earlier problems or advice (e.g. "did the spray you recommended work?").
+
+`;
+  }
+
+  /**
+   * Fold the pending messages into the memory with the LLM
+   */
+  private async summarize(user: User, memory: ConversationMemory): Promise<void> {
+    const messages = await databaseService.getMessages(user.id, Math.min(memory.pendingMessages, MAX_MESSAGES_PER_SUMMARY));
+    const transcript = messages
+      .sort((a, b) => toMillis(a.timestamp) - toMillis(b.timestamp))
+      .map(msg => `[${this.formatDate(msg)}] ${msg.direction === 'inbound' ? 'Farmer' : 'Assistant'}: ${msg.content}`)
+      .join('\n');
+
+    const prompt = `You maintain the memory of an agricultural assistant for one Kenyan farmer. Update the memory with the new messages.
+
+CURRENT MEMORY (JSON):
+${JSON.stringify({
+  summary: memory.summary,
+  topics: memory.topics,
+  problems: memory.problems,
+  advice: memory.advice,
+  followUps: memory.followUps,
+})}
+
+NEW MESSAGES:
+${transcript}
+
+Instructions:
+- summary: 2-3 sentences about the farmer's situation and what has been discussed
+- topics: crops and animals the farmer has discussed (lowercase)
+- problems: problems the farmer reported, with the date they were reported
+- advice: specific advice given (products, doses, practices), with the date it was given
+- followUps: things the assistant promised or suggested checking later, with the date
+- Keep older entries that still matter, drop resolved follow-ups, keep at most ${MAX_NOTES} entries per list
+- Write in English even if the messages are in another language
+- Dates are YYYY-MM-DD
+
+Respond with ONLY the updated JSON object with keys summary, topics, problems, advice, followUps. Do not include any other text.`;
+
+    let updated: Omit<ConversationMemory, 'pendingMessages'> | null = null;
+    try {
+      updated = this.parseMemory(await generateText(prompt, 'gemini-2.0-flash-exp', false, undefined, 0.2));
+    } catch (error) {
+      logger.warn(`Conversation memory update for user ${user.id} failed:`, error);
+    }
+    if (!updated) {
+      // Keep the messages pending for a later run, but don't retry on every message
+      const failedSummaries = (memory.failedSummaries || 0) + 1;
+      const retryAfter = new Date(Date.now() + Math.min(SUMMARY_RETRY_MS * 2 ** (failedSummaries - 1), MAX_SUMMARY_RETRY_MS));
+      logger.warn(`Conversation memory update for user ${user.id} was not usable, will retry after ${retryAfter.toISOString()}`);
+      await databaseService.deferMemorySummary(user.id, retryAfter, failedSummaries);
+      return;
+    }
+
+    logger.info(`Updated conversation memory for user ${user.id} from ${messages.length} messages`);
+    await databaseService.saveMemorySummary(user.id, updated, memory.pendingMessages);
+    user.conversationMemory = { ...updated, pendingMessages: 0, updatedAt: new Date() };
+  }
+
+  private parseMemory(output: string): Omit<ConversationMemory, 'pendingMessages'> | null {
+    const jsonMatch = output.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) return null;
+
+    try {
+      const parsed = JSON.parse(jsonMatch[0]);
+      if (typeof parsed?.summary !== 'string') return null;
+
+      const notes = (items: unknown): MemoryNote[] =>
+        (Array.isArray(items) ? items : [])
+          .filter(item => typeof item?.text === 'string' && item.text.trim())
+          .map(item => ({ date: String(item.date || this.today()), text: item.text.trim() }))
+          .slice(-MAX_NOTES);
+
+      return {
+        summary: parsed.summary.trim(),
+        topics: (Array.isArray(parsed.topics) ? parsed.topics : [])
+          .filter((topic: unknown) => typeof topic === 'string')
+          .map((topic: string) => topic.toLowerCase().trim())
+          .slice(0, MAX_TOPICS),
+        problems: notes(parsed.problems),
+        advice: notes(parsed.advice),
+        followUps: notes(parsed.followUps),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private formatDate(message: Message): string {
+    return new Date(toMillis(message.timestamp)).toISOString().substring(0, 10);
+  }
+
+  private today(): string {
+    return new Date().toISOString().substring(0, 10);
+  }
+}
+
+export const conversationMemoryService = new ConversationMemoryService();
@@ -1,12 +1,14 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { logger } from '../utils/logger';
+import { Citation } from '../models/citation';
 
 export interface PestData {
   name: string;
   crop: string;
   symptoms: string;
   control: string;
+  source?: string;
 }
 
 export interface LivestockDiseaseData {
@@ -14,6 +16,7 @@ export interface LivestockDiseaseData {
   livestock: string;
   symptoms: string;
   treatment: string;
+  source?: string;
 }
 
 export interface PlantingCalendarData {
@@ -21,13 +24,24 @@ export interface PlantingCalendarData {
   crops: string[];
   longRains: string;
   shortRains: string;
+  source?: string;
 }
 
 export interface SoilTipData {
   title: string;
   description: string;
+  source?: string;
 }
 
+// Prompt text together with the records it was built from
+export interface SourcedText {
+  text: string;
+  citations: Citation[];
+}
+
+// Records without an explicit source are attributed to the bundled datasets
+const LOCAL_SOURCE = 'ShambaSmart knowledge base';
+
 export class DataSourceService {
   private dataDir: string;
   private pests: PestData[] = [];
@@ -253,29 +267,78 @@ export class DataSourceService {
     ).join('\n\n');
   }
 
+  // Citations for records used in answers
+  citePests(pests: PestData[]): Citation[] {
+    return pests.map(pest => ({
+      type: 'pest' as const,
+      source: pest.source || LOCAL_SOURCE,
+      title: `${pest.name} (${pest.crop})`,
+    }));
+  }
+
+  citeLivestockDiseases(diseases: LivestockDiseaseData[]): Citation[] {
+    return diseases.map(disease => ({
+      type: 'livestock-disease' as const,
+      source: disease.source || LOCAL_SOURCE,
+      title: `${disease.name} (${disease.livestock})`,
+    }));
+  }
+
+  citePlantingCalendars(calendars: PlantingCalendarData[]): Citation[] {
+    return calendars.map(calendar => ({
+      type: 'planting-calendar' as const,
+      source: calendar.source || LOCAL_SOURCE,
+      title: `${calendar.county} planting calendar`,
+    }));
+  }
+
+  citeSoilTips(tips: SoilTipData[]): Citation[] {
+    return tips.map(tip => ({
+      type: 'soil-tip' as const,
+      source: tip.source || LOCAL_SOURCE,
+      title: tip.title,
+    }));
+  }
+
   // Get all data as formatted strings for RAG
   getAllDataAsText(): string[] {
-    const texts: string[] = [];
+    return this.getAllDataWithSources().map(result => result.text);
+  }
+
+  getAllDataWithSources(): SourcedText[] {
+    const texts: SourcedText[] = [];
 
     // Add pest data
     if (this.pests.length > 0) {
-      texts.push('PEST AND DISEASE INFORMATION:\n' + this.formatPestData(this.pests));
+      texts.push({
+        text: 'PEST AND DISEASE INFORMATION:\n' + this.formatPestData(this.pests),
+        citations: this.citePests(this.pests),
+      });
     }
 
     // Add livestock disease data
     if (this.livestockDiseases.length > 0) {
-      texts.push('LIVESTOCK DISEASE INFORMATION:\n' + this.formatLivestockDiseaseData(this.livestockDiseases));
+      texts.push({
+        text: 'LIVESTOCK DISEASE INFORMATION:\n' + this.formatLivestockDiseaseData(this.livestockDiseases),
+        citations: this.citeLivestockDiseases(this.livestockDiseases),
+      });
     }
 
     // Add planting calendar data
     if (this.plantingCalendars.length > 0) {
       const calendars = this.plantingCalendars.map(cal => this.formatPlantingCalendar(cal)).join('\n\n');
-      texts.push('PLANTING CALENDAR INFORMATION:\n' + calendars);
+      texts.push({
+        text: 'PLANTING CALENDAR INFORMATION:\n' + calendars,
+        citations: this.citePlantingCalendars(this.plantingCalendars),
+      });
     }
 
     // Add soil tips
     if (this.soilTips.length > 0) {
-      texts.push('SOIL MANAGEMENT TIPS:\n' + this.formatSoilTips(this.soilTips));
+      texts.push({
+        text: 'SOIL MANAGEMENT TIPS:\n' + this.formatSoilTips(this.soilTips),
+        citations: this.citeSoilTips(this.soilTips),
+      });
     }
 
     return texts;
@@ -283,7 +346,11 @@ export class DataSourceService {
 
   // Search all data sources for relevant information
   searchAll(query: string, context?: { crop?: string; region?: string; livestock?: string }): string[] {
-    const results: string[] = [];
+    return this.searchAllWithSources(query, context).map(result => result.text);
+  }
+
+  searchAllWithSources(query: string, context?: { crop?: string; region?: string; livestock?: string }): SourcedText[] {
+    const results: SourcedText[] = [];
     const lowerQuery = query.toLowerCase();
 
     // Search pests - always try if crop is mentioned or query has pest-related keywords
@@ -293,14 +360,20 @@ export class DataSourceService {
     if (hasPestKeywords || context?.crop) {
       const relevantPests = this.searchPests(query, context?.crop);
       if (relevantPests.length > 0) {
-        results.push('PEST INFORMATION:\n' + this.formatPestData(relevantPests));
+        results.push({
+          text: 'PEST INFORMATION:\n' + this.formatPestData(relevantPests),
+          citations: this.citePests(relevantPests),
+        });
       } else if (context?.crop) {
         // If crop is specified but no match, return all pests for that crop
         const allPestsForCrop = this.pests.filter(p => 
           p.crop === 'general' || (context.crop && p.crop.toLowerCase() === context.crop.toLowerCase())
         );
         if (allPestsForCrop.length > 0) {
-          results.push('PEST INFORMATION:\n' + this.formatPestData(allPestsForCrop));
+          results.push({
+            text: 'PEST INFORMATION:\n' + this.formatPestData(allPestsForCrop),
+            citations: this.citePests(allPestsForCrop),
+          });
         }
       }
     }
@@ -312,14 +385,20 @@ export class DataSourceService {
     if (hasLivestockKeywords || context?.livestock) {
       const relevantDiseases = this.searchLivestockDiseases(query, context?.livestock);
       if (relevantDiseases.length > 0) {
-        results.push('LIVESTOCK DISEASE INFORMATION:\n' + this.formatLivestockDiseaseData(relevantDiseases));
+        results.push({
+          text: 'LIVESTOCK DISEASE INFORMATION:\n' + this.formatLivestockDiseaseData(relevantDiseases),
+          citations: this.citeLivestockDiseases(relevantDiseases),
+        });
       } else if (context?.livestock) {
         // If livestock type specified but no match, return all diseases for that type
         const allDiseasesForLivestock = this.livestockDiseases.filter(d => 
           d.livestock.toLowerCase().includes(context.livestock!.toLowerCase())
         );
         if (allDiseasesForLivestock.length > 0) {
-          results.push('LIVESTOCK DISEASE INFORMATION:\n' + this.formatLivestockDiseaseData(allDiseasesForLivestock));
+          results.push({
+            text: 'LIVESTOCK DISEASE INFORMATION:\n' + this.formatLivestockDiseaseData(allDiseasesForLivestock),
+            citations: this.citeLivestockDiseases(allDiseasesForLivestock),
+          });
         }
       }
     }
@@ -335,7 +414,10 @@ export class DataSourceService {
         lowerQuery.includes('when') ||
         calendar.crops.some(c => lowerQuery.includes(c.toLowerCase()))
       )) {
-        results.push('PLANTING CALENDAR:\n' + this.formatPlantingCalendar(calendar));
+        results.push({
+          text: 'PLANTING CALENDAR:\n' + this.formatPlantingCalendar(calendar),
+          citations: this.citePlantingCalendars([calendar]),
+        });
       }
     }
 
@@ -344,7 +426,10 @@ export class DataSourceService {
     if (soilKeywords.some(keyword => lowerQuery.includes(keyword))) {
       const tips = this.getSoilTips();
       if (tips.length > 0) {
-        results.push('SOIL MANAGEMENT:\n' + this.formatSoilTips(tips));
+        results.push({
+          text: 'SOIL MANAGEMENT:\n' + this.formatSoilTips(tips),
+          citations: this.citeSoilTips(tips),
+        });
       }
     }
 
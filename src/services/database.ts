@@ -1,8 +1,17 @@
-import { Firestore } from '@google-cloud/firestore';
-import { User } from '../models/user';
+import { DocumentData, FieldValue, Firestore } from '@google-cloud/firestore';
+import { ConversationMemory, User } from '../models/user';
 import { Message } from '../models/message';
+import { DeliveryStatus } from '../models/delivery-status';
 import { Alert } from './alerts';
+import { AlertRun } from './alert-scheduler';
+import { AdvisorySeason } from './advisories';
+import { Outbreak } from '../models/outbreak';
+import { PestSighting } from '../models/pest-sighting';
 import { logger } from '../utils/logger';
+import { toMillis } from '../utils/timestamps';
+
+// Later statuses win; a failure is final
+const DELIVERY_STATUS_ORDER: DeliveryStatus['status'][] = ['sent', 'delivered', 'read', 'failed'];
 
 export class DatabaseService {
   private db: Firestore;
@@ -48,6 +57,7 @@ export class DatabaseService {
         preferredLanguage: userData.preferredLanguage || 'en',
         crops: userData.crops || [],
         livestock: userData.livestock || [],
+        farmSizeAcres: userData.farmSizeAcres,
         name: userData.name,
         county: userData.county,
         region: userData.region,
@@ -56,6 +66,7 @@ export class DatabaseService {
         latitude: userData.latitude,
         longitude: userData.longitude,
         locationUpdatedAt: userData.locationUpdatedAt,
+        onboardingStep: userData.onboardingStep,
         ...(userData.metadata && { metadata: userData.metadata }),
         createdAt: now,
         updatedAt: now,
@@ -83,6 +94,80 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Count new messages towards the farmer's conversation memory, in one transaction. Returns the
+   * memory when it is due a summary and this caller took the summary lease (null otherwise), so only
+   * one summary runs at a time and none runs while a failed one is backing off.
+   */
+  async addPendingMessages(userId: string, count: number, summarizeAfter: number, leaseMs: number): Promise<ConversationMemory | null> {
+    try {
+      const userRef = this.db.collection('users').doc(userId);
+      
+      return await this.db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(userRef);
+        const memory: Partial<ConversationMemory> = doc.data()?.conversationMemory || {};
+        const pendingMessages = (memory.pendingMessages || 0) + count;
+        const now = Date.now();
+        const due = pendingMessages >= summarizeAfter
+          && !(memory.summarizingUntil && toMillis(memory.summarizingUntil) > now)
+          && !(memory.retryAfter && toMillis(memory.retryAfter) > now);
+        
+        transaction.update(userRef, {
+          'conversationMemory.pendingMessages': pendingMessages,
+          ...(due && { 'conversationMemory.summarizingUntil': new Date(now + leaseMs) }),
+        });
+        return due ? { ...memory, pendingMessages } as ConversationMemory : null;
+      });
+    } catch (error) {
+      logger.error('Error counting conversation memory messages:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store a new summary and release the lease. Messages counted while it was written stay pending.
+   */
+  async saveMemorySummary(
+    userId: string,
+    summary: Omit<ConversationMemory, 'pendingMessages' | 'summarizingUntil' | 'retryAfter' | 'failedSummaries' | 'updatedAt'>,
+    summarizedMessages: number
+  ): Promise<void> {
+    try {
+      await this.db.collection('users').doc(userId).update({
+        'conversationMemory.summary': summary.summary,
+        'conversationMemory.topics': summary.topics,
+        'conversationMemory.problems': summary.problems,
+        'conversationMemory.advice': summary.advice,
+        'conversationMemory.followUps': summary.followUps,
+        'conversationMemory.pendingMessages': FieldValue.increment(-summarizedMessages),
+        'conversationMemory.summarizingUntil': FieldValue.delete(),
+        'conversationMemory.retryAfter': FieldValue.delete(),
+        'conversationMemory.failedSummaries': FieldValue.delete(),
+        'conversationMemory.updatedAt': new Date(),
+        updatedAt: new Date(),
+      });
+    } catch (error) {
+      logger.error('Error saving conversation memory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Release the summary lease after a failed summary; the next one waits until retryAfter
+   */
+  async deferMemorySummary(userId: string, retryAfter: Date, failedSummaries: number): Promise<void> {
+    try {
+      await this.db.collection('users').doc(userId).update({
+        'conversationMemory.summarizingUntil': FieldValue.delete(),
+        'conversationMemory.retryAfter': retryAfter,
+        'conversationMemory.failedSummaries': failedSummaries,
+      });
+    } catch (error) {
+      logger.error('Error deferring conversation memory summary:', error);
+      throw error;
+    }
+  }
+
   // Message operations
   async saveMessage(message: Partial<Message> & { userId: string; channel: Message['channel']; content: string; direction: Message['direction'] }): Promise<Message> {
     try {
@@ -157,11 +242,65 @@ export class DatabaseService {
     }
   }
 
+  // Webhook deduplication: providers retry deliveries, so each event ID is claimed once
+  async claimWebhookEvent(channel: string, eventId: string): Promise<boolean> {
+    try {
+      // create() fails if the document exists, which makes the claim atomic across instances
+      await this.db.collection('webhookEvents').doc(`${channel}:${eventId}`).create({
+        channel,
+        eventId,
+        receivedAt: new Date(),
+      });
+      return true;
+    } catch (error: any) {
+      if (error.code === 6) { // ALREADY_EXISTS
+        return false;
+      }
+      // Better to risk a duplicate answer than to drop the message
+      logger.error('Error claiming webhook event:', error);
+      return true;
+    }
+  }
+
+  // Let a retry process an event whose handling failed
+  async releaseWebhookEvent(channel: string, eventId: string): Promise<void> {
+    try {
+      await this.db.collection('webhookEvents').doc(`${channel}:${eventId}`).delete();
+    } catch (error) {
+      logger.error('Error releasing webhook event:', error);
+    }
+  }
+
+  // Delivery receipts, one document per sent message with the time of each status
+  async saveDeliveryStatus(status: DeliveryStatus): Promise<void> {
+    try {
+      const statusRef = this.db.collection('deliveryStatuses').doc(`${status.channel}:${status.providerMessageId}`);
+      await this.db.runTransaction(async transaction => {
+        // Receipts can arrive out of order, so never move back from "read" to "delivered"
+        const current = (await transaction.get(statusRef)).data()?.status as DeliveryStatus['status'] | undefined;
+        const isNewer = !current || DELIVERY_STATUS_ORDER.indexOf(status.status) > DELIVERY_STATUS_ORDER.indexOf(current);
+        
+        transaction.set(statusRef, {
+          channel: status.channel,
+          providerMessageId: status.providerMessageId,
+          recipient: status.recipient,
+          ...(isNewer && { status: status.status }),
+          [`${status.status}At`]: status.timestamp,
+          ...(status.error && { error: status.error }),
+          updatedAt: new Date(),
+        }, { merge: true });
+      });
+    } catch (error) {
+      logger.error('Error saving delivery status:', error);
+    }
+  }
+
   // Alert operations
   async saveAlert(alert: Alert): Promise<void> {
     try {
-      const alertsRef = this.db.collection('alerts');
-      await alertsRef.add({
+      // Stored under the alert's own ID so deliveries and acknowledgements can be recorded on it
+      const alertRef = this.db.collection('alerts').doc(alert.id);
+      await alertRef.set({
         ...alert,
         timestamp: alert.timestamp || new Date(),
       });
@@ -171,6 +310,239 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Reserve a slot for an alert to a farmer, in one transaction: refused while the same alert
+   * (by fingerprint) is in its cooldown, or once the farmer's alerts for the day reach the budget
+   * (null for alerts that ignore it). Reserved alerts count against the budget and start the cooldown.
+   */
+  async reserveAlert(reservation: {
+    userId: string;
+    fingerprint: string;
+    cooldownMs: number;
+    day: string; // YYYY-MM-DD
+    dailyBudget: number | null;
+  }): Promise<'reserved' | 'cooldown' | 'budget'> {
+    const { userId, fingerprint, cooldownMs, day, dailyBudget } = reservation;
+    try {
+      const fingerprintRef = this.db.collection('alertFingerprints').doc(`${userId}:${fingerprint}`);
+      const budgetRef = this.db.collection('alertBudgets').doc(`${userId}:${day}`);
+      
+      return await this.db.runTransaction(async (transaction) => {
+        const [previous, budget] = await Promise.all([transaction.get(fingerprintRef), transaction.get(budgetRef)]);
+        if (previous.exists && toMillis(previous.data()?.cooldownUntil) > Date.now()) {
+          return 'cooldown';
+        }
+        const count: number = budget.data()?.count || 0;
+        if (dailyBudget !== null && count >= dailyBudget) {
+          return 'budget';
+        }
+        
+        const now = new Date();
+        transaction.set(fingerprintRef, { userId, fingerprint, lastSentAt: now, cooldownUntil: new Date(now.getTime() + cooldownMs) });
+        transaction.set(budgetRef, { userId, day, count: count + 1, updatedAt: now });
+        return 'reserved';
+      });
+    } catch (error) {
+      // Better to risk a repeated alert than to drop an urgent one
+      logger.error('Error reserving alert:', error);
+      return 'reserved';
+    }
+  }
+
+  /**
+   * Give back a reservation for an alert that was never delivered: its cooldown ends and it no
+   * longer counts against the day's budget
+   */
+  async releaseAlert(reservation: { userId: string; fingerprint: string; day: string }): Promise<void> {
+    const { userId, fingerprint, day } = reservation;
+    try {
+      const batch = this.db.batch();
+      batch.delete(this.db.collection('alertFingerprints').doc(`${userId}:${fingerprint}`));
+      batch.update(this.db.collection('alertBudgets').doc(`${userId}:${day}`), {
+        count: FieldValue.increment(-1),
+        updatedAt: new Date(),
+      });
+      await batch.commit();
+    } catch (error) {
+      logger.error('Error releasing alert reservation:', error);
+      throw error;
+    }
+  }
+
+  async getAlert(alertId: string): Promise<Alert | null> {
+    try {
+      const doc = await this.db.collection('alerts').doc(alertId).get();
+      if (!doc.exists) return null;
+      return { ...doc.data(), id: doc.id } as Alert;
+    } catch (error) {
+      logger.error('Error getting alert:', error);
+      return null;
+    }
+  }
+
+  async updateAlert(alertId: string, updates: Partial<Alert>): Promise<void> {
+    try {
+      await this.db.collection('alerts').doc(alertId).update(updates);
+    } catch (error) {
+      logger.error('Error updating alert:', error);
+      throw error;
+    }
+  }
+
+  // Alert scheduler run history
+  async saveAlertRun(run: AlertRun): Promise<void> {
+    try {
+      await this.db.collection('alertRuns').doc(run.id).set(run);
+    } catch (error) {
+      logger.error('Error saving alert run:', error);
+      throw error;
+    }
+  }
+
+  async updateAlertRun(runId: string, updates: Partial<AlertRun>): Promise<void> {
+    try {
+      await this.db.collection('alertRuns').doc(runId).update(updates);
+    } catch (error) {
+      logger.error('Error updating alert run:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The most recent runs, newest first
+   */
+  async getAlertRuns(limit: number): Promise<AlertRun[]> {
+    try {
+      const snapshot = await this.db.collection('alertRuns').orderBy('startedAt', 'desc').limit(limit).get();
+      return snapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          ...data,
+          id: doc.id,
+          startedAt: new Date(toMillis(data.startedAt)),
+          ...(data.finishedAt && { finishedAt: new Date(toMillis(data.finishedAt)) }),
+        } as AlertRun;
+      });
+    } catch (error) {
+      logger.error('Error getting alert runs:', error);
+      return [];
+    }
+  }
+
+  // Outbreak operations
+  async saveOutbreak(outbreak: Outbreak): Promise<void> {
+    try {
+      await this.db.collection('outbreaks').doc(outbreak.id).set(outbreak);
+    } catch (error) {
+      logger.error('Error saving outbreak:', error);
+      throw error;
+    }
+  }
+
+  async getOutbreak(outbreakId: string): Promise<Outbreak | null> {
+    try {
+      const doc = await this.db.collection('outbreaks').doc(outbreakId).get();
+      return doc.exists ? this.toOutbreak(doc.id, doc.data()!) : null;
+    } catch (error) {
+      logger.error('Error getting outbreak:', error);
+      return null;
+    }
+  }
+
+  async updateOutbreak(outbreakId: string, updates: Partial<Outbreak>): Promise<void> {
+    try {
+      await this.db.collection('outbreaks').doc(outbreakId).update({
+        ...updates,
+        updatedAt: new Date(),
+      });
+    } catch (error) {
+      logger.error('Error updating outbreak:', error);
+      throw error;
+    }
+  }
+
+  async getOutbreaks(status?: Outbreak['status']): Promise<Outbreak[]> {
+    try {
+      const outbreaksRef = this.db.collection('outbreaks');
+      const snapshot = await (status ? outbreaksRef.where('status', '==', status) : outbreaksRef).get();
+      return snapshot.docs
+        .map(doc => this.toOutbreak(doc.id, doc.data()))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      logger.error('Error getting outbreaks:', error);
+      return [];
+    }
+  }
+
+  private toOutbreak(id: string, data: DocumentData): Outbreak {
+    const date = (value: any) => (value ? new Date(toMillis(value)) : undefined);
+    return {
+      ...data,
+      id,
+      validFrom: date(data.validFrom)!,
+      validUntil: date(data.validUntil)!,
+      expiredAt: date(data.expiredAt),
+      createdAt: date(data.createdAt)!,
+      updatedAt: date(data.updatedAt)!,
+    } as Outbreak;
+  }
+
+  // Pest sightings reported by farmers
+  async savePestSighting(sighting: PestSighting): Promise<void> {
+    try {
+      await this.db.collection('pestSightings').doc(sighting.id).set(sighting);
+    } catch (error) {
+      logger.error('Error saving pest sighting:', error);
+      throw error;
+    }
+  }
+
+  async getPestSightingsSince(since: Date): Promise<PestSighting[]> {
+    try {
+      const snapshot = await this.db.collection('pestSightings').where('reportedAt', '>=', since).get();
+      return snapshot.docs.map(doc => ({
+        ...doc.data(),
+        id: doc.id,
+        reportedAt: new Date(toMillis(doc.data().reportedAt)),
+      } as PestSighting));
+    } catch (error) {
+      logger.error('Error getting pest sightings:', error);
+      return [];
+    }
+  }
+
+  // Crop calendar advisories, one document per farmer per season
+  async getAdvisorySeason(seasonId: string): Promise<AdvisorySeason | null> {
+    try {
+      const doc = await this.db.collection('advisorySeasons').doc(seasonId).get();
+      if (!doc.exists) return null;
+
+      const data = doc.data()!;
+      const date = (value: any) => (value ? new Date(toMillis(value)) : undefined);
+      const nudges = Object.fromEntries(Object.entries(data.nudges || {}).map(([kind, sentAt]) => [kind, date(sentAt)]));
+      return {
+        ...data,
+        id: doc.id,
+        plantedAt: date(data.plantedAt),
+        nudges,
+        createdAt: date(data.createdAt)!,
+        updatedAt: date(data.updatedAt)!,
+      } as AdvisorySeason;
+    } catch (error) {
+      logger.error('Error getting advisory season:', error);
+      return null;
+    }
+  }
+
+  async saveAdvisorySeason(season: AdvisorySeason): Promise<void> {
+    try {
+      await this.db.collection('advisorySeasons').doc(season.id).set(season);
+    } catch (error) {
+      logger.error('Error saving advisory season:', error);
+      throw error;
+    }
+  }
+
   // User query operations for alerts
   async getUserById(userId: string): Promise<User | null> {
     try {
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { logger } from '../utils/logger';
+import { Citation } from '../models/citation';
 
 export interface FAOSTATData {
   domain: string;
@@ -152,6 +153,24 @@ export class FAOSTATService {
     return text;
   }
 
+  /**
+   * Cite FAOSTAT rows, one citation per item, element and year
+   */
+  citeData(data: FAOSTATData[]): Citation[] {
+    const citations = new Map<string, Citation>();
+    data.forEach(d => {
+      const title = `${d.item || 'Kenya'} - ${d.element || d.domain}`;
+      citations.set(`${title}|${d.year}`, {
+        type: 'faostat',
+        source: 'FAOSTAT',
+        title,
+        year: d.year,
+        url: 'https://www.fao.org/faostat',
+      });
+    });
+    return Array.from(citations.values());
+  }
+
   /**
    * Get common crops for Kenya
    */
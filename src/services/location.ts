@@ -1,5 +1,6 @@
 import { logger } from '../utils/logger';
 import axios from 'axios';
+import { databaseService } from './database';
 
 export interface LocationData {
   latitude: number;
@@ -13,6 +14,21 @@ export interface LocationData {
  * Reverse geocoding service to get county/region from coordinates
  */
 export class LocationService {
+  /**
+   * Save a farmer's coordinates and the county they fall in (shared by web and WhatsApp)
+   */
+  async updateUserLocation(userId: string, latitude: number, longitude: number): Promise<string | null> {
+    const county = await this.getCountyFromCoordinates(latitude, longitude);
+
+    await databaseService.updateUser(userId, {
+      latitude,
+      longitude,
+      county: county || undefined,
+      locationUpdatedAt: new Date(),
+    });
+    return county;
+  }
+
   /**
    * Get county name from coordinates using reverse geocoding
    */
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { logger } from '../utils/logger';
+import { Citation } from '../models/citation';
 
 export interface MarketPrice {
   crop: string;
@@ -9,6 +10,7 @@ export interface MarketPrice {
   date: string;
   market?: string;
   trend?: 'up' | 'down' | 'stable';
+  source?: string; // Where the price came from, e.g. 'KNBS'
 }
 
 export class MarketService {
@@ -47,6 +49,7 @@ export class MarketService {
         date: item.date,
         market: item.market,
         trend: this.calculateTrend(item.historical),
+        source: 'KNBS',
       }));
     } catch (error) {
       logger.warn('KNBS API not available, using fallback');
@@ -71,6 +74,7 @@ export class MarketService {
         unit: item.unit || 'kg',
         date: item.date,
         market: item.market,
+        source: 'HCD',
       }));
     } catch (error) {
       logger.warn('HCD API not available, using fallback');
@@ -114,8 +118,24 @@ export class MarketService {
       unit: 'kg',
       date: new Date().toISOString(),
       trend: 'stable',
+      source: 'ShambaSmart indicative prices',
     }];
   }
+
+  citePrices(prices: MarketPrice[]): Citation[] {
+    const citations = new Map<string, Citation>();
+    prices.forEach(price => {
+      const source = price.source || 'ShambaSmart indicative prices';
+      const year = new Date(price.date).getFullYear();
+      citations.set(`${source}|${price.crop}|${price.region}`, {
+        type: 'market-prices',
+        source,
+        title: `${price.crop} prices in ${price.region}`,
+        ...(!isNaN(year) && { year }),
+      });
+    });
+    return Array.from(citations.values());
+  }
 }
 
 export const marketService = new MarketService();
@@ -0,0 +1,266 @@
+import { User, OnboardingStep } from '../models/user';
+import { databaseService } from './database';
+import { findCounty } from '../utils/counties';
+import { logger } from '../utils/logger';
+import { getEnabledLanguages, getLanguage, MessageKey, t } from '../languages';
+
+type ProfileQuestion = Exclude<OnboardingStep, 'complete'>;
+
+const STEPS: ProfileQuestion[] = ['name', 'county', 'crops', 'livestock', 'language', 'farmSize'];
+
+const PROFILE_COMMAND = /^\s*profile\s*$/i;
+const SKIP_REPLIES = ['skip', 'ruka'];
+const NONE_REPLIES = ['none', 'no', 'hakuna', 'sina', 'hapana'];
+const ACRES_PER_HECTARE = 2.471;
+// Words that open a question rather than a name (English and Kiswahili)
+const QUESTION_WORDS = [
+  'what', 'how', 'when', 'where', 'which', 'why', 'who', 'can', 'could', 'should', 'is', 'are', 'do', 'does', 'will',
+  'nini', 'vipi', 'jinsi', 'lini', 'wapi', 'gani', 'je', 'naomba', 'nisaidie', 'bei',
+];
+const MAX_NAME_WORDS = 4;
+const MAX_ITEM_WORDS = 2;
+// Crops and livestock a profile answer is recognised by (English and Kiswahili); other items may follow them
+const KNOWN_CROPS = [
+  'maize', 'corn', 'beans', 'potato', 'tomato', 'kale', 'sukuma', 'cabbage', 'onion', 'coffee', 'tea', 'banana',
+  'sorghum', 'millet', 'wheat', 'rice', 'cassava', 'sweet potato', 'peas', 'cowpea', 'green gram', 'groundnut',
+  'soybean', 'sugarcane', 'avocado', 'mango', 'macadamia', 'pyrethrum', 'cotton', 'sunflower', 'spinach', 'carrot',
+  'mahindi', 'maharag', 'viazi', 'nyanya', 'kabichi', 'vitunguu', 'kahawa', 'chai', 'ndizi', 'mtama', 'wimbi',
+  'ngano', 'mchele', 'mpunga', 'mihogo', 'muhogo', 'njegere', 'kunde', 'ndengu', 'njugu', 'miwa', 'parachichi', 'embe',
+];
+const KNOWN_LIVESTOCK = [
+  'cow', 'cattle', 'dairy', 'goat', 'sheep', 'chicken', 'poultry', 'pig', 'rabbit', 'donkey', 'camel', 'bees', 'fish',
+  "ng'ombe", 'ngombe', 'mbuzi', 'kondoo', 'kuku', 'nguruwe', 'sungura', 'punda', 'ngamia', 'nyuki', 'samaki',
+];
+
+const PROMPT_KEYS: Record<ProfileQuestion, MessageKey> = {
+  name: 'onboarding.name',
+  county: 'onboarding.county',
+  crops: 'onboarding.crops',
+  livestock: 'onboarding.livestock',
+  language: 'onboarding.language',
+  farmSize: 'onboarding.farmSize',
+};
+
+const INVALID_REPLY_KEYS: Partial<Record<ProfileQuestion, MessageKey>> = {
+  name: 'onboarding.invalidName',
+  county: 'onboarding.invalidCounty',
+  language: 'onboarding.invalidLanguage',
+  farmSize: 'onboarding.invalidFarmSize',
+};
+
+export interface OnboardingResult {
+  // Onboarding handled the message - send this instead of an answer
+  reply?: string;
+  // Answer the message as usual, then send this profile question
+  followUp?: string;
+}
+
+/**
+ * Conversational farmer profile setup: one question per message, saved after every answer
+ * so a farmer can stop and pick up where they left off. Works on any text channel.
+ */
+export class OnboardingService {
+  isProfileCommand(text: string): boolean {
+    return PROFILE_COMMAND.test(text);
+  }
+
+  isOnboarding(user: User): boolean {
+    return !!user.onboardingStep && user.onboardingStep !== 'complete';
+  }
+
+  /**
+   * Decide how a text message interacts with onboarding for channels that answer free text
+   */
+  async handleMessage(user: User, text: string, isNewUser: boolean): Promise<OnboardingResult> {
+    if (this.isProfileCommand(text)) {
+      return { reply: await this.start(user) };
+    }
+    if (!this.isOnboarding(user)) {
+      return {};
+    }
+
+    // Anything that doesn't answer the current question is a question of the farmer's own: they get
+    // their answer first, then the profile question again. New farmers haven't been asked anything yet,
+    // so a greeting or a name just starts the questions.
+    const step = isNewUser ? 'name' : user.onboardingStep as ProfileQuestion;
+    if (!this.isAnswer(step, text)) {
+      const prompt = this.currentPrompt(user);
+      return { followUp: isNewUser ? `${t(user.preferredLanguage, 'onboarding.intro')}\n\n${prompt}` : prompt };
+    }
+    if (isNewUser) {
+      return { reply: `${t(user.preferredLanguage, 'onboarding.intro')}\n\n${this.currentPrompt(user)}` };
+    }
+    return { reply: await this.handleReply(user, text) };
+  }
+
+  /**
+   * Start (or restart, to edit) the profile from the first question
+   */
+  async start(user: User): Promise<string> {
+    await this.saveProgress(user, { onboardingStep: STEPS[0] });
+    return `${t(user.preferredLanguage, 'onboarding.intro')}\n\n${this.currentPrompt(user)}`;
+  }
+
+  /**
+   * The question for the farmer's current step, with the saved value when editing
+   */
+  currentPrompt(user: User): string {
+    const step = user.onboardingStep as ProfileQuestion;
+    const current = this.describeValue(user, step);
+    const question = current
+      ? `${t(user.preferredLanguage, PROMPT_KEYS[step])} (${t(user.preferredLanguage, 'onboarding.current')}: ${current})`
+      : t(user.preferredLanguage, PROMPT_KEYS[step]);
+
+    // Languages are picked by number from the ones this deployment offers
+    if (step === 'language') {
+      const options = getEnabledLanguages().map((language, i) => `${i + 1}. ${language.nativeName}`);
+      return [question, ...options].join('\n');
+    }
+    return question;
+  }
+
+  /**
+   * Save the answer to the current question and return the next question or the summary
+   */
+  async handleReply(user: User, text: string): Promise<string> {
+    const step = user.onboardingStep as ProfileQuestion;
+    const reply = text.trim();
+
+    if (!SKIP_REPLIES.includes(reply.toLowerCase())) {
+      const updates = this.parseAnswer(step, reply);
+      if (!updates) {
+        const invalidKey = INVALID_REPLY_KEYS[step];
+        return invalidKey
+          ? `${t(user.preferredLanguage, invalidKey)}\n\n${this.currentPrompt(user)}`
+          : this.currentPrompt(user);
+      }
+      Object.assign(user, updates);
+    }
+
+    const stepIndex = STEPS.indexOf(step);
+    const nextStep: OnboardingStep = stepIndex < STEPS.length - 1 ? STEPS[stepIndex + 1] : 'complete';
+    await this.saveProgress(user, {
+      name: user.name,
+      county: user.county,
+      crops: user.crops,
+      livestock: user.livestock,
+      preferredLanguage: user.preferredLanguage,
+      farmSizeAcres: user.farmSizeAcres,
+      onboardingStep: nextStep,
+    });
+
+    if (nextStep === 'complete') {
+      logger.info(`Completed farmer profile for user ${user.id}`);
+      return this.summarize(user);
+    }
+    return this.currentPrompt(user);
+  }
+
+  /**
+   * Whether a message reads as an answer to the question: a county we know, crops or livestock,
+   * a listed language, a number, or a short name that isn't a question
+   */
+  private isAnswer(step: ProfileQuestion, text: string): boolean {
+    const reply = text.trim().toLowerCase();
+    if (SKIP_REPLIES.includes(reply)) return true;
+    const words = reply.split(/\s+/);
+    if (reply.includes('?') || QUESTION_WORDS.includes(words[0])) return false;
+
+    switch (step) {
+      case 'name':
+        return words.length <= MAX_NAME_WORDS && this.parseAnswer(step, text.trim()) !== null;
+      case 'crops':
+        return NONE_REPLIES.includes(reply) || this.isListOf(reply, KNOWN_CROPS);
+      case 'livestock':
+        return NONE_REPLIES.includes(reply) || this.isListOf(reply, KNOWN_LIVESTOCK);
+      default:
+        return this.parseAnswer(step, text.trim()) !== null;
+    }
+  }
+
+  private parseAnswer(step: ProfileQuestion, reply: string): Partial<User> | null {
+    switch (step) {
+      case 'name': {
+        const name = reply.replace(/^(my name is|i am|i'm|jina langu ni|naitwa|mimi ni)\s+/i, '').trim();
+        return name.length >= 2 && name.length <= 50 ? { name } : null;
+      }
+      case 'county': {
+        const county = findCounty(reply);
+        return county ? { county } : null;
+      }
+      case 'crops':
+        return { crops: this.parseList(reply) };
+      case 'livestock':
+        return { livestock: this.parseList(reply) };
+      case 'language': {
+        // Accept the option number, the language code or its name
+        const choice = reply.toLowerCase();
+        const languages = getEnabledLanguages();
+        const language = /^\d+$/.test(choice)
+          ? languages[parseInt(choice, 10) - 1]
+          : languages.find(l => [l.code, l.name.toLowerCase(), l.nativeName.toLowerCase()].includes(choice)
+            || (l.code === 'sw' && choice === 'swahili'));
+        return language ? { preferredLanguage: language.code } : null;
+      }
+      case 'farmSize': {
+        const match = reply.replace(',', '.').match(/(\d+(?:\.\d+)?)/);
+        if (!match) return null;
+        const size = parseFloat(match[1]);
+        const isHectares = /\b(ha|hectares?|hekta)\b/i.test(reply);
+        return size > 0 ? { farmSizeAcres: Math.round((isHectares ? size * ACRES_PER_HECTARE : size) * 10) / 10 } : null;
+      }
+    }
+  }
+
+  // Short items, at least one of them a known name
+  private isListOf(reply: string, known: string[]): boolean {
+    const items = this.parseList(reply);
+    return items.every(item => item.split(/\s+/).length <= MAX_ITEM_WORDS)
+      && items.some(item => known.some(name => item.includes(name)));
+  }
+
+  private parseList(reply: string): string[] {
+    if (NONE_REPLIES.includes(reply.toLowerCase())) return [];
+
+    return [...new Set(
+      reply
+        .toLowerCase()
+        .split(/,|\band\b|\bna\b|\n/)
+        .map(item => item.trim())
+        .filter(item => item.length > 1)
+    )];
+  }
+
+  private describeValue(user: User, step: ProfileQuestion): string | undefined {
+    switch (step) {
+      case 'name': return user.name;
+      case 'county': return user.county;
+      case 'crops': return user.crops.length > 0 ? user.crops.join(', ') : undefined;
+      case 'livestock': return user.livestock.length > 0 ? user.livestock.join(', ') : undefined;
+      // Language is always set, so only show it once the farmer has a profile to edit
+      case 'language': return user.name ? getLanguage(user.preferredLanguage).nativeName : undefined;
+      case 'farmSize': return user.farmSizeAcres !== undefined ? `${user.farmSizeAcres}` : undefined;
+    }
+  }
+
+  private summarize(user: User): string {
+    const summary = [
+      user.county,
+      user.crops.join(', '),
+      user.livestock.join(', '),
+      user.farmSizeAcres !== undefined ? `${user.farmSizeAcres} ${t(user.preferredLanguage, 'onboarding.acres')}` : '',
+    ].filter(Boolean).join(' | ');
+
+    return t(user.preferredLanguage, 'onboarding.done', {
+      name: user.name ? ` ${user.name}` : '',
+      summary: summary || '-',
+    });
+  }
+
+  private async saveProgress(user: User, updates: Partial<User>): Promise<void> {
+    user.onboardingStep = updates.onboardingStep;
+    await databaseService.updateUser(user.id, updates);
+  }
+}
+
+export const onboardingService = new OnboardingService();
@@ -0,0 +1,94 @@
+import { randomUUID } from 'crypto';
+import { databaseService } from './database';
+import { Outbreak, OutbreakInput, OutbreakUpdate } from '../models/outbreak';
+import { logger } from '../utils/logger';
+
+/**
+ * Registry of declared pest and disease outbreaks. The alert engine alerts farmers growing an
+ * outbreak's crops in its counties while it is valid; outbreaks expire at validUntil or when
+ * an officer ends them early.
+ */
+export class OutbreakService {
+  async create(input: OutbreakInput & Pick<Outbreak, 'reporters'>): Promise<Outbreak> {
+    const now = new Date();
+    const outbreak: Outbreak = {
+      ...input,
+      id: randomUUID(),
+      validFrom: input.validFrom || now,
+      status: input.validUntil > now ? 'active' : 'expired',
+      createdAt: now,
+      updatedAt: now,
+    };
+    await databaseService.saveOutbreak(outbreak);
+    logger.info(`Outbreak ${outbreak.id} declared: ${outbreak.pest} in ${outbreak.counties.join(', ')} (${outbreak.source})`);
+    return outbreak;
+  }
+
+  /**
+   * Change an outbreak (e.g. add counties, extend validUntil). Returns null if it does not exist.
+   */
+  async update(outbreakId: string, updates: OutbreakUpdate): Promise<Outbreak | null> {
+    const outbreak = await databaseService.getOutbreak(outbreakId);
+    if (!outbreak) return null;
+
+    const updated: Outbreak = { ...outbreak, ...updates, updatedAt: new Date() };
+    // Extending an outbreak that lapsed brings it back
+    if (updates.validUntil && updates.validUntil > new Date() && !outbreak.expiredAt) {
+      updated.status = 'active';
+    }
+    await databaseService.updateOutbreak(outbreakId, { ...updates, status: updated.status });
+    logger.info(`Outbreak ${outbreakId} updated: ${Object.keys(updates).join(', ')}`);
+    return updated;
+  }
+
+  /**
+   * End an outbreak now, e.g. once it is under control
+   */
+  async expire(outbreakId: string): Promise<Outbreak | null> {
+    const outbreak = await databaseService.getOutbreak(outbreakId);
+    if (!outbreak) return null;
+    if (outbreak.expiredAt) return outbreak;
+
+    const expiredAt = new Date();
+    await databaseService.updateOutbreak(outbreakId, { status: 'expired', expiredAt });
+    logger.info(`Outbreak ${outbreakId} (${outbreak.pest}) expired`);
+    return { ...outbreak, status: 'expired', expiredAt, updatedAt: expiredAt };
+  }
+
+  async list(status?: Outbreak['status']): Promise<Outbreak[]> {
+    await this.expireLapsed();
+    return databaseService.getOutbreaks(status);
+  }
+
+  /**
+   * Outbreaks to alert farmers about now
+   */
+  async getActiveOutbreaks(now: Date = new Date()): Promise<Outbreak[]> {
+    const outbreaks = await this.expireLapsed(now);
+    return outbreaks.filter(outbreak => outbreak.validFrom <= now);
+  }
+
+  /**
+   * Mark active outbreaks past validUntil as expired, returning the ones still active
+   */
+  private async expireLapsed(now: Date = new Date()): Promise<Outbreak[]> {
+    const outbreaks = await databaseService.getOutbreaks('active');
+    const active: Outbreak[] = [];
+
+    for (const outbreak of outbreaks) {
+      if (outbreak.validUntil > now) {
+        active.push(outbreak);
+        continue;
+      }
+      try {
+        await databaseService.updateOutbreak(outbreak.id, { status: 'expired' });
+        logger.info(`Outbreak ${outbreak.id} (${outbreak.pest}) reached its end date`);
+      } catch (error) {
+        logger.warn(`Failed to mark outbreak ${outbreak.id} as expired:`, error);
+      }
+    }
+    return active;
+  }
+}
+
+export const outbreakService = new OutbreakService();
@@ -0,0 +1,239 @@
+import { randomUUID } from 'crypto';
+import { databaseService } from './database';
+import { dataSourceService, PestData } from './data-source';
+import { outbreakService } from './outbreaks';
+import { ImageDiagnosis } from '../agents/pest-detection';
+import { Outbreak } from '../models/outbreak';
+import { PestSighting } from '../models/pest-sighting';
+import { User, UserContext } from '../models/user';
+import { t } from '../languages';
+import { findCounty } from '../utils/counties';
+import { generateText } from '../utils/genkit-helper';
+import { logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Sightings in the last week are compared with the weekly average of the four weeks before
+const RECENT_DAYS = 7;
+const BASELINE_WEEKS = 4;
+// Farmers in one county reporting the same pest in a week before it counts as an outbreak
+const MIN_REPORTS = parseInt(process.env.OUTBREAK_MIN_REPORTS || '3');
+// ...and how many times the baseline that has to be
+const SURGE_FACTOR = 2;
+// Less certain diagnoses are kept, but not counted
+const MIN_CLUSTER_CONFIDENCE = 0.5;
+// Outbreaks flagged from reports run this long unless an officer changes them
+const OUTBREAK_DAYS = 14;
+const OUTBREAK_SOURCE = 'Farmer reports';
+
+type SightingDetails = Pick<PestSighting, 'pest' | 'crop' | 'confidence' | 'source'>;
+
+/**
+ * Pest sightings extracted from the Pest & Disease agent's diagnoses, and the job that turns a
+ * surge of sightings in a county into an outbreak in the registry, which AlertService then alerts on.
+ */
+export class PestSightingService {
+  /**
+   * Record a crop photo diagnosis. Failures are only logged: the farmer already has their answer.
+   */
+  async recordDiagnosis(user: User, context: UserContext, diagnosis: ImageDiagnosis, channel: string): Promise<void> {
+    if (!diagnosis.name) return;
+    try {
+      await this.save(user, context, channel, {
+        pest: diagnosis.name,
+        crop: diagnosis.crop || context.crop,
+        confidence: diagnosis.confidence,
+        source: 'photo',
+      });
+    } catch (error) {
+      logger.error(`Error recording pest sighting for user ${user.id}:`, error);
+    }
+  }
+
+  /**
+   * Record a pest problem the farmer described in a message, if they reported one on their farm
+   * (rather than asking in general). Runs in the background, so failures are only logged.
+   */
+  async recordReport(user: User, context: UserContext, question: string, answer: string, channel: string): Promise<void> {
+    try {
+      const details = await this.extractReport(question, answer, context);
+      if (details) {
+        await this.save(user, context, channel, details);
+      }
+    } catch (error) {
+      logger.error(`Error recording pest report for user ${user.id}:`, error);
+    }
+  }
+
+  /**
+   * Sightings from the last `days` days, newest first, optionally for one county
+   */
+  async list(days: number, county?: string): Promise<PestSighting[]> {
+    const sightings = await databaseService.getPestSightingsSince(new Date(Date.now() - days * DAY_MS));
+    return sightings
+      .filter(sighting => !county || sighting.county === county)
+      .sort((a, b) => b.reportedAt.getTime() - a.reportedAt.getTime());
+  }
+
+  /**
+   * Flag counties where more farmers reported a pest this week than usual, declaring an outbreak
+   * for each one not already in the registry. Returns the outbreaks declared.
+   */
+  async detectOutbreaks(now: Date = new Date()): Promise<Outbreak[]> {
+    try {
+      const windowStart = now.getTime() - RECENT_DAYS * DAY_MS;
+      const sightings = (await databaseService.getPestSightingsSince(new Date(windowStart - BASELINE_WEEKS * 7 * DAY_MS)))
+        .filter(sighting => sighting.county && sighting.confidence >= MIN_CLUSTER_CONFIDENCE);
+
+      const clusters = new Map<string, PestSighting[]>();
+      for (const sighting of sightings) {
+        const key = `${sighting.county}|${sighting.pest.toLowerCase()}`;
+        clusters.set(key, [...(clusters.get(key) || []), sighting]);
+      }
+
+      const active = await outbreakService.getActiveOutbreaks(now);
+      const declared: Outbreak[] = [];
+      for (const cluster of clusters.values()) {
+        const recent = cluster.filter(sighting => sighting.reportedAt.getTime() >= windowStart);
+        // Farmers are counted once per week, however often they report
+        const reporters = new Set(recent.map(sighting => sighting.userId)).size;
+        const baseline = new Set(
+          cluster
+            .filter(sighting => sighting.reportedAt.getTime() < windowStart)
+            .map(sighting => `${sighting.userId}|${Math.floor((windowStart - sighting.reportedAt.getTime()) / (7 * DAY_MS))}`)
+        ).size / BASELINE_WEEKS;
+        if (reporters < MIN_REPORTS || reporters <= baseline * SURGE_FACTOR) continue;
+
+        const { pest, county } = recent[0];
+        const known = active.some(outbreak =>
+          outbreak.pest.toLowerCase() === pest.toLowerCase() && outbreak.counties.includes(county!)
+        );
+        if (known) {
+          logger.debug(`${pest} sightings in ${county} are already covered by an active outbreak`);
+          continue;
+        }
+
+        const outbreak = await this.declare(recent, reporters, now);
+        if (outbreak) declared.push(outbreak);
+      }
+      return declared;
+    } catch (error) {
+      logger.error('Error detecting outbreaks from pest sightings:', error);
+      return [];
+    }
+  }
+
+  /**
+   * An outbreak's message in the farmer's language. Messages written for outbreaks declared from
+   * reports are rebuilt in each language; officers' messages are sent as they wrote them.
+   */
+  outbreakMessage(outbreak: Outbreak, language: string): string {
+    // Also when an officer has since rewritten the message
+    if (!outbreak.reporters || outbreak.message !== this.reportedMessage(outbreak, 'en')) {
+      return outbreak.message;
+    }
+    return this.reportedMessage(outbreak, language);
+  }
+
+  private async declare(sightings: PestSighting[], reporters: number, now: Date): Promise<Outbreak | null> {
+    const { pest, county } = sightings[0];
+    const record = this.findPest(pest);
+    const crops = [...new Set(sightings.map(sighting => sighting.crop).filter((crop): crop is string => !!crop))];
+    if (crops.length === 0 && record && record.crop !== 'general') {
+      crops.push(record.crop.toLowerCase());
+    }
+    if (crops.length === 0) {
+      logger.warn(`${reporters} farmers reported ${pest} in ${county}, but not on which crop; not declaring an outbreak`);
+      return null;
+    }
+
+    logger.info(`Emerging outbreak: ${reporters} farmers reported ${pest} in ${county} in the last ${RECENT_DAYS} days`);
+    const outbreak = { pest, crops, counties: [county!], reporters };
+    return outbreakService.create({
+      ...outbreak,
+      severity: 'medium',
+      // Kept in English in the registry; farmers get it in their language (see outbreakMessage)
+      message: this.reportedMessage(outbreak, 'en'),
+      source: OUTBREAK_SOURCE,
+      validFrom: now,
+      validUntil: new Date(now.getTime() + OUTBREAK_DAYS * DAY_MS),
+    });
+  }
+
+  private reportedMessage(outbreak: Pick<Outbreak, 'pest' | 'crops' | 'counties' | 'reporters'>, language: string): string {
+    const { pest, crops, counties, reporters } = outbreak;
+    const record = this.findPest(pest);
+    const reported = t(language, 'outbreak.reported', { reporters: reporters!, county: counties[0], pest, crops: crops.join(', ') });
+    const advice = record ? t(language, 'outbreak.control', { control: record.control }) : t(language, 'outbreak.sendPhoto');
+    return `${reported} ${advice}`;
+  }
+
+  private findPest(name: string): PestData | undefined {
+    return dataSourceService.searchPests('').find(entry => entry.name.toLowerCase() === name.toLowerCase());
+  }
+
+  private async save(user: User, context: UserContext, channel: string, details: SightingDetails): Promise<void> {
+    const latitude = context.coordinates?.lat ?? user.latitude;
+    const longitude = context.coordinates?.lon ?? user.longitude;
+    const county = findCounty(user.county || context.region || '');
+
+    const sighting: PestSighting = {
+      id: randomUUID(),
+      userId: user.id,
+      ...details,
+      ...(details.crop && { crop: details.crop.toLowerCase() }),
+      ...(county && { county }),
+      ...(latitude !== undefined && longitude !== undefined && { coordinates: { lat: latitude, lon: longitude } }),
+      channel,
+      reportedAt: new Date(),
+    };
+    await databaseService.savePestSighting(sighting);
+    logger.info(`Pest sighting: ${sighting.pest} (${Math.round(sighting.confidence * 100)}%) reported by user ${user.id} in ${county || 'unknown county'}`);
+  }
+
+  private async extractReport(question: string, answer: string, context: UserContext): Promise<SightingDetails | null> {
+    const catalogue = dataSourceService.searchPests('');
+    const prompt = `A Kenyan farmer asked an agricultural assistant about a pest or disease. Decide whether the farmer is reporting a problem on their own crops now, and if so which one.
+
+FARMER'S MESSAGE: "${question}"
+
+ASSISTANT'S DIAGNOSIS:
+${answer}
+
+FARMER'S CROPS: ${context.crop || context.user.crops.join(', ') || 'unknown'}
+
+KNOWN PESTS AND DISEASES: ${catalogue.map(pest => pest.name).join(', ')}
+
+Instructions:
+- reported is false for general questions (e.g. how to prevent armyworm) and for problems the farmer only fears
+- pest is the most likely pest or disease, in English; use the exact known name when it is one of them
+- crop is the affected crop in lowercase, or null if it is not clear
+- confidence is 0 to 1: how sure the diagnosis is from what the farmer described
+
+Respond with ONLY a JSON object, for example:
+{"reported": true, "pest": "Fall Armyworm", "crop": "maize", "confidence": 0.7}
+Do not include any other text.`;
+
+    const output = await generateText(prompt, 'gemini-2.0-flash-exp', false, undefined, 0.1);
+    const jsonMatch = output.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) return null;
+
+    try {
+      const parsed = JSON.parse(jsonMatch[0]);
+      if (parsed.reported !== true || typeof parsed.pest !== 'string' || !parsed.pest.trim()) return null;
+
+      const confidence = Number(parsed.confidence);
+      const record = catalogue.find(pest => pest.name.toLowerCase() === parsed.pest.trim().toLowerCase());
+      return {
+        pest: record?.name || parsed.pest.trim(),
+        crop: typeof parsed.crop === 'string' && parsed.crop.trim() ? parsed.crop.trim() : context.crop,
+        confidence: isNaN(confidence) ? 0 : Math.min(Math.max(confidence, 0), 1),
+        source: 'message',
+      };
+    } catch {
+      logger.debug('Pest report extraction was not valid JSON');
+      return null;
+    }
+  }
+}
+
+export const pestSightingService = new PestSightingService();
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { logger } from '../utils/logger';
+import { Citation } from '../models/citation';
 
 export interface SoilProperties {
   location: string;
@@ -14,6 +15,7 @@ export interface SoilProperties {
   phosphorus?: number;
   potassium?: number;
   depth?: string;
+  isDefault?: boolean; // True when the API failed and generic values were used
 }
 
 export interface SoilRecommendation {
@@ -240,9 +242,25 @@ export class SoilService {
       ph: 6.5, // Default neutral pH
       organicCarbon: 20, // Default 2% organic carbon
       bulkDensity: 1.3, // Default optimal bulk density
+      isDefault: true,
     };
   }
 
+  /**
+   * Cite SoilGrids readings (nothing to cite when defaults were used)
+   */
+  citeSoilProperties(soil: SoilProperties): Citation[] {
+    const hasReadings = soil.ph !== undefined || soil.organicCarbon !== undefined || soil.bulkDensity !== undefined;
+    if (soil.isDefault || !hasReadings) return [];
+
+    return [{
+      type: 'soil-grids',
+      source: 'ISRIC SoilGrids',
+      title: `Soil properties for ${soil.location} (${soil.depth || '0-5cm'})`,
+      url: 'https://soilgrids.org',
+    }];
+  }
+
   /**
    * Format soil properties for use in AI prompts
    */
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { logger } from '../utils/logger';
+import { Citation } from '../models/citation';
 
 export interface WeatherForecast {
   location: string;
@@ -84,6 +85,20 @@ export class WeatherService {
     }
   }
 
+  /**
+   * Cite the Open-Meteo forecast (the offline default forecast has no daily data)
+   */
+  citeForecast(forecast: WeatherForecast): Citation[] {
+    if (forecast.forecast.length === 0) return [];
+
+    return [{
+      type: 'weather',
+      source: 'Open-Meteo',
+      title: `${forecast.location} ${forecast.forecast.length}-day forecast`,
+      url: 'https://open-meteo.com',
+    }];
+  }
+
   private getCoordinates(location: string): { lat: number; lon: number } {
     // Try to find in mapping
     const county = Object.keys(COUNTY_COORDINATES).find(
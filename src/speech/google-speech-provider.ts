@@ -0,0 +1,79 @@
+import axios from 'axios';
+import { SpeechToTextProvider, TextToSpeechProvider, Transcript, SynthesizedAudio } from './types';
+import { logger } from '../utils/logger';
+
+// Google recognises Kenyan English and Kiswahili; other languages fall back to these
+const RECOGNITION_LOCALES: Record<string, string> = {
+  en: 'en-KE',
+  sw: 'sw-KE',
+};
+
+/**
+ * Google Cloud Speech-to-Text (synchronous recognition, up to 1 minute of audio)
+ */
+export class GoogleSpeechProvider implements SpeechToTextProvider {
+  name = 'google';
+
+  isConfigured(): boolean {
+    return !!process.env.GOOGLE_SPEECH_API_KEY;
+  }
+
+  async transcribe(audio: Buffer, mimeType: string, languages: string[]): Promise<Transcript> {
+    const locales = [...new Set(languages.map(code => RECOGNITION_LOCALES[code]).filter(Boolean))];
+    if (locales.length === 0) locales.push(RECOGNITION_LOCALES.en);
+
+    const response = await axios.post(
+      'https://speech.googleapis.com/v1p1beta1/speech:recognize',
+      {
+        config: {
+          // WhatsApp voice notes are Ogg/Opus at 16 kHz; call recordings (Africa's Talking) are MP3
+          ...(mimeType.includes('ogg')
+            ? { encoding: 'OGG_OPUS', sampleRateHertz: 16000 }
+            : { encoding: /mpeg|mp3/.test(mimeType) ? 'MP3' : 'ENCODING_UNSPECIFIED' }),
+          languageCode: locales[0],
+          alternativeLanguageCodes: locales.slice(1),
+          enableAutomaticPunctuation: true,
+          model: 'latest_short',
+        },
+        audio: { content: audio.toString('base64') },
+      },
+      { params: { key: process.env.GOOGLE_SPEECH_API_KEY }, timeout: 30000 }
+    );
+
+    const results: any[] = response.data?.results || [];
+    const text = results.map(result => result.alternatives?.[0]?.transcript || '').join(' ').trim();
+    const locale: string | undefined = results[0]?.languageCode;
+    logger.debug('Google Speech-to-Text result', { length: text.length, locale });
+
+    return { text, language: locale?.substring(0, 2).toLowerCase() };
+  }
+}
+
+/**
+ * Google Cloud Text-to-Speech
+ */
+export class GoogleTextToSpeechProvider implements TextToSpeechProvider {
+  name = 'google';
+
+  isConfigured(): boolean {
+    return !!process.env.GOOGLE_SPEECH_API_KEY;
+  }
+
+  async synthesize(text: string, locale: string, ssml?: string): Promise<SynthesizedAudio> {
+    const response = await axios.post(
+      'https://texttospeech.googleapis.com/v1/text:synthesize',
+      {
+        input: ssml ? { ssml } : { text },
+        voice: { languageCode: locale },
+        audioConfig: { audioEncoding: 'OGG_OPUS' },
+      },
+      { params: { key: process.env.GOOGLE_SPEECH_API_KEY }, timeout: 30000 }
+    );
+
+    const content = response.data?.audioContent;
+    if (!content) {
+      throw new Error('No audio in Google Text-to-Speech response');
+    }
+    return { data: Buffer.from(content, 'base64'), mimeType: 'audio/ogg' };
+  }
+}
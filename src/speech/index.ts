@@ -0,0 +1,73 @@
+import { SpeechToTextProvider, TextToSpeechProvider, Transcript, SynthesizedAudio } from './types';
+import { GoogleSpeechProvider, GoogleTextToSpeechProvider } from './google-speech-provider';
+import { WhisperProvider } from './whisper-provider';
+import { StubSpeechProvider } from './stub-speech-provider';
+import { logger } from '../utils/logger';
+
+export { SpeechToTextProvider, TextToSpeechProvider, Transcript, SynthesizedAudio } from './types';
+
+const speechToTextProviders: Record<string, SpeechToTextProvider> = {
+  google: new GoogleSpeechProvider(),
+  whisper: new WhisperProvider(),
+  stub: new StubSpeechProvider(),
+};
+
+const textToSpeechProviders: Record<string, TextToSpeechProvider> = {
+  google: new GoogleTextToSpeechProvider(),
+};
+
+/**
+ * Resolve configured backends, in order, from a comma-separated env value (e.g. "whisper,google")
+ */
+function resolveChain<T extends { isConfigured(): boolean }>(
+  envName: string,
+  providers: Record<string, T>,
+  defaults: string[]
+): T[] {
+  const configured = process.env[envName];
+  const names = configured
+    ? configured.split(',').map(name => name.trim().toLowerCase()).filter(Boolean)
+    : defaults;
+
+  return names
+    .map(name => {
+      if (!providers[name]) {
+        logger.warn(`Unknown speech provider "${name}" in ${envName}, ignoring`);
+      }
+      return providers[name];
+    })
+    .filter((provider): provider is T => !!provider && provider.isConfigured());
+}
+
+/**
+ * Transcribe a recording with the STT_PROVIDER chain (Google by default).
+ * Returns null when no backend is configured or all of them fail.
+ */
+export async function transcribe(audio: Buffer, mimeType: string, languages: string[]): Promise<Transcript | null> {
+  for (const provider of resolveChain('STT_PROVIDER', speechToTextProviders, ['google'])) {
+    try {
+      const transcript = await provider.transcribe(audio, mimeType, languages);
+      logger.info(`Transcribed ${audio.length} bytes of audio with ${provider.name}`);
+      return transcript;
+    } catch (error: any) {
+      logger.warn(`${provider.name} speech-to-text failed, trying next provider:`, { error: error.message });
+    }
+  }
+  logger.error('No speech-to-text provider could transcribe the recording');
+  return null;
+}
+
+/**
+ * Synthesize a voice reply with the TTS_PROVIDER chain. Spoken replies are opt-in,
+ * so this returns null unless TTS_PROVIDER is set (or every backend fails).
+ */
+export async function synthesize(text: string, locale: string, ssml?: string): Promise<SynthesizedAudio | null> {
+  for (const provider of resolveChain('TTS_PROVIDER', textToSpeechProviders, [])) {
+    try {
+      return await provider.synthesize(text, locale, ssml);
+    } catch (error: any) {
+      logger.warn(`${provider.name} text-to-speech failed, trying next provider:`, { error: error.message });
+    }
+  }
+  return null;
+}
@@ -0,0 +1,19 @@
+import { SpeechToTextProvider, Transcript } from './types';
+
+/**
+ * Offline backend for local development: every recording "says" STT_STUB_TEXT
+ */
+export class StubSpeechProvider implements SpeechToTextProvider {
+  name = 'stub';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async transcribe(_audio: Buffer, _mimeType: string, languages: string[]): Promise<Transcript> {
+    return {
+      text: process.env.STT_STUB_TEXT || 'How do I control fall armyworm in maize?',
+      language: languages[0],
+    };
+  }
+}
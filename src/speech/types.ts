@@ -0,0 +1,34 @@
+// Shared types for speech-to-text and text-to-speech backends
+
+export interface Transcript {
+  text: string;
+  language?: string; // Language code the backend detected, e.g. 'sw' or 'en'
+}
+
+export interface SynthesizedAudio {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface SpeechToTextProvider {
+  name: string;
+  /**
+   * Whether the backend has the configuration it needs to be tried
+   */
+  isConfigured(): boolean;
+  /**
+   * Transcribe a recording. languages lists the codes to expect, most likely first.
+   * Throws if the backend fails so the caller can fall through to the next one.
+   */
+  transcribe(audio: Buffer, mimeType: string, languages: string[]): Promise<Transcript>;
+}
+
+export interface TextToSpeechProvider {
+  name: string;
+  isConfigured(): boolean;
+  /**
+   * Synthesize speech as an Ogg/Opus recording (the format WhatsApp plays as a voice note).
+   * Backends that understand SSML read ssml (the same words, with pauses) instead of text.
+   */
+  synthesize(text: string, locale: string, ssml?: string): Promise<SynthesizedAudio>;
+}
@@ -0,0 +1,48 @@
+import axios from 'axios';
+import { SpeechToTextProvider, Transcript } from './types';
+import { logger } from '../utils/logger';
+
+// Whisper reports the language by name
+const WHISPER_LANGUAGES: Record<string, string> = {
+  english: 'en',
+  swahili: 'sw',
+};
+
+/**
+ * Any server exposing the OpenAI audio transcription API
+ * (OpenAI Whisper, faster-whisper-server, LocalAI, ...)
+ */
+export class WhisperProvider implements SpeechToTextProvider {
+  name = 'whisper';
+
+  isConfigured(): boolean {
+    return !!(process.env.STT_BASE_URL || process.env.OPENAI_BASE_URL);
+  }
+
+  async transcribe(audio: Buffer, mimeType: string, languages: string[]): Promise<Transcript> {
+    const baseUrl = (process.env.STT_BASE_URL || process.env.OPENAI_BASE_URL || '').replace(/\/+$/, '');
+    const apiKey = process.env.STT_API_KEY || process.env.OPENAI_API_KEY;
+
+    const form = new FormData();
+    // Whisper servers go by the file extension
+    form.append('file', new Blob([audio], { type: mimeType }), /mpeg|mp3/.test(mimeType) ? 'recording.mp3' : 'voice-note.ogg');
+    form.append('model', process.env.STT_MODEL || 'whisper-1');
+    form.append('response_format', 'verbose_json');
+    // A single expected language improves accuracy; otherwise let Whisper detect it
+    if (languages.length === 1) {
+      form.append('language', languages[0]);
+    }
+
+    logger.debug('Calling Whisper-compatible server', { url: baseUrl, bytes: audio.length });
+    const response = await axios.post(`${baseUrl}/audio/transcriptions`, form, {
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      timeout: parseInt(process.env.STT_TIMEOUT_MS || '60000'),
+    });
+
+    const language = String(response.data?.language || '').toLowerCase();
+    return {
+      text: String(response.data?.text || '').trim(),
+      language: WHISPER_LANGUAGES[language] || (language.length === 2 ? language : undefined),
+    };
+  }
+}
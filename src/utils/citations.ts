@@ -0,0 +1,31 @@
+// Helpers for de-duplicating and rendering the knowledge sources behind an answer
+import { Citation } from '../models/citation';
+import { t } from '../languages';
+
+export function dedupeCitations(citations: Citation[]): Citation[] {
+  const seen = new Set<string>();
+  return citations.filter(citation => {
+    const key = `${citation.type}|${citation.source}|${citation.title}|${citation.year || ''}`.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Render a one-line footer such as "Source: KALRO / FAOSTAT 2023"
+ */
+export function formatSourceFooter(citations: Citation[], language: string = 'en'): string {
+  const labels: string[] = [];
+  for (const citation of citations) {
+    // Show each source once, with the most recent year cited for it
+    const years = citations
+      .filter(c => c.source === citation.source && c.year)
+      .map(c => c.year as number);
+    const label = years.length > 0 ? `${citation.source} ${Math.max(...years)}` : citation.source;
+    if (!labels.includes(label)) labels.push(label);
+  }
+
+  if (labels.length === 0) return '';
+  return `${t(language, 'sources.label')}: ${labels.join(' / ')}`;
+}
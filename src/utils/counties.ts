@@ -0,0 +1,46 @@
+// The 47 counties of Kenya, used wherever farmers pick or type their county
+
+export const KENYAN_COUNTIES = [
+  'Baringo', 'Bomet', 'Bungoma', 'Busia', 'Elgeyo Marakwet', 'Embu', 'Garissa', 'Homa Bay',
+  'Isiolo', 'Kajiado', 'Kakamega', 'Kericho', 'Kiambu', 'Kilifi', 'Kirinyaga', 'Kisii',
+  'Kisumu', 'Kitui', 'Kwale', 'Laikipia', 'Lamu', 'Machakos', 'Makueni', 'Mandera',
+  'Marsabit', 'Meru', 'Migori', 'Mombasa', "Murang'a", 'Nairobi', 'Nakuru', 'Nandi',
+  'Narok', 'Nyamira', 'Nyandarua', 'Nyeri', 'Samburu', 'Siaya', 'Taita Taveta', 'Tana River',
+  'Tharaka Nithi', 'Trans Nzoia', 'Turkana', 'Uasin Gishu', 'Vihiga', 'Wajir', 'West Pokot',
+];
+
+/**
+ * Match free text ("nakuru", "Nakuru County", "uasin") to a county name.
+ * Prefixes need at least 3 letters so short replies don't match by accident.
+ */
+export function findCounty(input: string): string | null {
+  const normalized = input
+    .toLowerCase()
+    .replace(/\bcounty\b/g, '')
+    .replace(/[^a-z' ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (normalized.length < 3) return null;
+
+  return KENYAN_COUNTIES.find(county => county.toLowerCase() === normalized)
+    || KENYAN_COUNTIES.find(county => county.toLowerCase().startsWith(normalized))
+    || null;
+}
+
+// Official county codes: 1 Mombasa ... 47 Nairobi
+const COUNTIES_BY_CODE = [
+  'Mombasa', 'Kwale', 'Kilifi', 'Tana River', 'Lamu', 'Taita Taveta', 'Garissa', 'Wajir',
+  'Mandera', 'Marsabit', 'Isiolo', 'Meru', 'Tharaka Nithi', 'Embu', 'Kitui', 'Machakos',
+  'Makueni', 'Nyandarua', 'Nyeri', 'Kirinyaga', "Murang'a", 'Kiambu', 'Turkana', 'West Pokot',
+  'Samburu', 'Trans Nzoia', 'Uasin Gishu', 'Elgeyo Marakwet', 'Nandi', 'Baringo', 'Laikipia', 'Nakuru',
+  'Narok', 'Kajiado', 'Kericho', 'Bomet', 'Kakamega', 'Vihiga', 'Bungoma', 'Busia',
+  'Siaya', 'Kisumu', 'Homa Bay', 'Migori', 'Kisii', 'Nyamira', 'Nairobi',
+];
+
+/**
+ * Look up a county by its official code ("32" or "032" -> Nakuru), e.g. keyed in on a phone
+ */
+export function findCountyByCode(code: string): string | null {
+  if (!/^\d{1,3}$/.test(code.trim())) return null;
+  return COUNTIES_BY_CODE[parseInt(code, 10) - 1] || null;
+}
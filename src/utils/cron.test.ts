@@ -0,0 +1,70 @@
+import { cronMatches, parseCron } from './cron';
+
+describe('parseCron', () => {
+  it('expands steps over the whole field', () => {
+    expect([...parseCron('*/15 * * * *').fields[0]]).toEqual([0, 15, 30, 45]);
+  });
+
+  it('expands stepped ranges', () => {
+    expect([...parseCron('0 6-18/3 * * *').fields[1]]).toEqual([6, 9, 12, 15, 18]);
+  });
+
+  it('runs a stepped start value to the end of the field', () => {
+    expect([...parseCron('5/20 * * * *').fields[0]]).toEqual([5, 25, 45]);
+  });
+
+  it('expands lists and ranges', () => {
+    expect([...parseCron('0 7 * * 1-3,5').fields[4]]).toEqual([1, 2, 3, 5]);
+  });
+
+  it('reads 7 as Sunday', () => {
+    expect([...parseCron('0 7 * * 7').fields[4]]).toEqual([0]);
+  });
+
+  it.each([
+    ['* * * *'],
+    ['60 * * * *'],
+    ['0 24 * * *'],
+    ['0 7 0 * *'],
+    ['0 18-6 * * *'],
+    ['*/0 * * * *'],
+    ['0 seven * * *'],
+  ])('rejects "%s"', expression => {
+    expect(() => parseCron(expression)).toThrow(/Invalid/);
+  });
+});
+
+describe('cronMatches', () => {
+  it('evaluates schedules in Kenya time (UTC+3)', () => {
+    const schedule = parseCron('0 7 * * *');
+    expect(cronMatches(schedule, new Date('2026-10-19T04:00:00Z'))).toBe(true);
+    expect(cronMatches(schedule, new Date('2026-10-19T07:00:00Z'))).toBe(false);
+  });
+
+  it('matches any second of the scheduled minute', () => {
+    expect(cronMatches(parseCron('30 8 * * *'), new Date('2026-10-19T05:30:59Z'))).toBe(true);
+  });
+
+  it('uses the Kenyan date and weekday across midnight UTC', () => {
+    // 21:00 UTC on Sunday 18 October is midnight on Monday 19 October in Nairobi
+    const monday = parseCron('0 0 * * 1');
+    expect(cronMatches(monday, new Date('2026-10-18T21:00:00Z'))).toBe(true);
+    expect(cronMatches(monday, new Date('2026-10-19T00:00:00Z'))).toBe(false);
+
+    const firstOfMonth = parseCron('0 0 1 * *');
+    expect(cronMatches(firstOfMonth, new Date('2026-10-31T21:00:00Z'))).toBe(true);
+  });
+
+  it('runs on either day field when both are restricted', () => {
+    const schedule = parseCron('0 9 1 * 5');
+    expect(cronMatches(schedule, new Date('2026-10-01T06:00:00Z'))).toBe(true); // Thursday the 1st
+    expect(cronMatches(schedule, new Date('2026-10-23T06:00:00Z'))).toBe(true); // Friday the 23rd
+    expect(cronMatches(schedule, new Date('2026-10-22T06:00:00Z'))).toBe(false); // Thursday the 22nd
+  });
+
+  it('needs both day fields when only one is restricted', () => {
+    const weekdays = parseCron('0 9 * * 1-5');
+    expect(cronMatches(weekdays, new Date('2026-10-19T06:00:00Z'))).toBe(true); // Monday
+    expect(cronMatches(weekdays, new Date('2026-10-18T06:00:00Z'))).toBe(false); // Sunday
+  });
+});
@@ -0,0 +1,71 @@
+// Five-field cron expressions ("minute hour day-of-month month day-of-week"), evaluated in Kenya time
+// East Africa Time is UTC+3 all year
+const EAT_OFFSET_MS = 3 * 60 * 60 * 1000;
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }, // 0 and 7 are both Sunday
+] as const;
+
+export interface CronSchedule {
+  expression: string;
+  fields: Array<Set<number>>; // Allowed values, in FIELDS order
+  // Like cron, when both day fields are restricted a day matching either one runs
+  anyDay: boolean;
+}
+
+/**
+ * Parse an expression such as "0 7 * * 1-5" or "0 6-18/3 * * *". Supports *, lists, ranges and steps.
+ * Throws on invalid expressions.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Invalid cron expression "${expression}": expected ${FIELDS.length} fields`);
+  }
+
+  const fields = parts.map((part, i) => parseField(part, FIELDS[i], expression));
+  // Sunday can be written as 7
+  if (fields[4].delete(7)) fields[4].add(0);
+
+  return { expression, fields, anyDay: !parts[2].startsWith('*') && !parts[4].startsWith('*') };
+}
+
+/**
+ * Whether the schedule runs in the minute containing `date`
+ */
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  const local = new Date(date.getTime() + EAT_OFFSET_MS);
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = schedule.fields;
+  if (!minutes.has(local.getUTCMinutes()) || !hours.has(local.getUTCHours()) || !months.has(local.getUTCMonth() + 1)) {
+    return false;
+  }
+
+  const dayOfMonth = daysOfMonth.has(local.getUTCDate());
+  const dayOfWeek = daysOfWeek.has(local.getUTCDay());
+  return schedule.anyDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+function parseField(part: string, field: typeof FIELDS[number], expression: string): Set<number> {
+  const values = new Set<number>();
+  const invalid = () => new Error(`Invalid ${field.name} "${part}" in cron expression "${expression}"`);
+
+  for (const item of part.split(',')) {
+    const match = item.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) throw invalid();
+
+    const start = match[1] === '*' ? field.min : parseInt(match[2], 10);
+    // "5/10" runs from 5 to the end of the range
+    const end = match[1] === '*' || (match[4] && !match[3]) ? field.max : parseInt(match[3] ?? match[2], 10);
+    const step = match[4] ? parseInt(match[4], 10) : 1;
+    if (start < field.min || end > field.max || start > end || step < 1) throw invalid();
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
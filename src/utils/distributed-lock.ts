@@ -0,0 +1,97 @@
+// Locks shared by every instance through Redis when configured, held in memory otherwise
+import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+import { logger } from './logger';
+import { createRedisConnection } from './redis-connection';
+
+const KEY_PREFIX = 'shambasmart:lock';
+
+// Delete the key only if it still holds our token, so a lock that expired and was taken over is left alone
+const RELEASE_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end`;
+
+interface LockBackend {
+  readonly name: 'redis' | 'memory';
+  // Set the lock if nobody holds it, for ttl ms
+  acquire(key: string, token: string, ttl: number): Promise<boolean>;
+  release(key: string, token: string): Promise<void>;
+}
+
+class MemoryLockBackend implements LockBackend {
+  readonly name = 'memory' as const;
+  private locks = new Map<string, { token: string; expiresAt: number }>();
+
+  async acquire(key: string, token: string, ttl: number): Promise<boolean> {
+    const lock = this.locks.get(key);
+    if (lock && lock.expiresAt > Date.now()) return false;
+    this.locks.set(key, { token, expiresAt: Date.now() + ttl });
+    return true;
+  }
+
+  async release(key: string, token: string): Promise<void> {
+    if (this.locks.get(key)?.token === token) {
+      this.locks.delete(key);
+    }
+  }
+}
+
+class RedisLockBackend implements LockBackend {
+  readonly name = 'redis' as const;
+
+  constructor(private redis: Redis) {}
+
+  async acquire(key: string, token: string, ttl: number): Promise<boolean> {
+    return (await this.redis.set(key, token, 'PX', ttl, 'NX')) === 'OK';
+  }
+
+  async release(key: string, token: string): Promise<void> {
+    await this.redis.eval(RELEASE_SCRIPT, 1, key, token);
+  }
+}
+
+export class DistributedLock {
+  private backend: Promise<LockBackend>;
+
+  constructor() {
+    this.backend = this.initializeBackend();
+  }
+
+  private async initializeBackend(): Promise<LockBackend> {
+    const redis = createRedisConnection();
+    if (redis) {
+      try {
+        await redis.ping();
+        return new RedisLockBackend(redis);
+      } catch (error) {
+        logger.warn('Failed to connect to Redis, locks only hold within this instance:', error);
+        redis.disconnect();
+      }
+    }
+    return new MemoryLockBackend();
+  }
+
+  /**
+   * Take the lock for up to ttl ms. Returns a token to release it with, or null if it is held elsewhere.
+   * A lock that is never released (e.g. its instance died) frees itself after ttl.
+   */
+  async acquire(name: string, ttl: number): Promise<string | null> {
+    const token = randomUUID();
+    const acquired = await (await this.backend).acquire(`${KEY_PREFIX}:${name}`, token, ttl);
+    return acquired ? token : null;
+  }
+
+  async release(name: string, token: string): Promise<void> {
+    try {
+      await (await this.backend).release(`${KEY_PREFIX}:${name}`, token);
+    } catch (error) {
+      // It expires on its own
+      logger.warn(`Failed to release lock ${name}:`, error);
+    }
+  }
+
+  async getBackend(): Promise<LockBackend['name']> {
+    return (await this.backend).name;
+  }
+}
+
+// Singleton instance
+export const distributedLock = new DistributedLock();
@@ -0,0 +1,111 @@
+import { Job, JobQueue } from './job-queue';
+
+const job = (id: string): Job => ({ id, type: 'test', payload: {}, attempts: 1, maxAttempts: 3, enqueuedAt: Date.now() });
+
+describe('JobQueue.step', () => {
+  it('runs a step once and returns its result again on a retry', async () => {
+    const queue = new JobQueue();
+    const send = jest.fn().mockResolvedValue('message-1');
+
+    expect(await queue.step(job('a'), 'send', send)).toBe('message-1');
+    expect(await queue.step(job('a'), 'send', send)).toBe('message-1');
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps results per job and per step', async () => {
+    const queue = new JobQueue();
+    const send = jest.fn().mockResolvedValue('sent');
+
+    await queue.step(job('a'), 'send', send);
+    await queue.step(job('b'), 'send', send);
+    await queue.step(job('a'), 'buttons', send);
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('runs a step that failed again', async () => {
+    const queue = new JobQueue();
+    const send = jest.fn().mockRejectedValueOnce(new Error('timeout')).mockResolvedValue('sent');
+
+    await expect(queue.step(job('a'), 'send', send)).rejects.toThrow('timeout');
+    expect(await queue.step(job('a'), 'send', send)).toBe('sent');
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('remembers steps that return nothing', async () => {
+    const queue = new JobQueue();
+    const send = jest.fn().mockResolvedValue(undefined);
+
+    await queue.step(job('a'), 'send', send);
+    await queue.step(job('a'), 'send', send);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('always runs the step without a job', async () => {
+    const queue = new JobQueue();
+    const send = jest.fn().mockResolvedValue('sent');
+
+    await queue.step(undefined, 'send', send);
+    await queue.step(undefined, 'send', send);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('JobQueue workers', () => {
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    queue = new JobQueue();
+  });
+
+  afterEach(() => {
+    queue.stop();
+    jest.useRealTimers();
+  });
+
+  it('retries a failed job without repeating its completed steps', async () => {
+    const answer = jest.fn().mockResolvedValue('Plant after the first rains.');
+    const send = jest.fn().mockRejectedValueOnce(new Error('timeout')).mockResolvedValue(undefined);
+    queue.register('reply', async (payload, job) => {
+      const reply = await queue.step(job, 'answer', answer);
+      await queue.step(job, 'send', () => send(payload.to, reply));
+    });
+
+    await queue.enqueue('reply', { to: '+254700000001' });
+    queue.start();
+    // First attempt, then the retry 2 seconds later
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(answer).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send).toHaveBeenLastCalledWith('+254700000001', 'Plant after the first rains.');
+    expect(await queue.getStats()).toMatchObject({ waiting: 0, delayed: 0, active: 0, dead: 0 });
+  });
+
+  it('moves a job to the dead letters after its last attempt', async () => {
+    queue.register('reply', async () => {
+      throw new Error('provider down');
+    });
+
+    await queue.enqueue('reply', {}, { maxAttempts: 2 });
+    queue.start();
+    await jest.advanceTimersByTimeAsync(5000);
+
+    const [dead] = await queue.getDeadLetters();
+    expect(dead).toMatchObject({ type: 'reply', attempts: 2, lastError: 'provider down' });
+    expect(await queue.getStats()).toMatchObject({ delayed: 0, active: 0, dead: 1 });
+  });
+
+  it('runs a delayed job once its delay has passed', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    queue.register('call', handler);
+
+    await queue.enqueue('call', { alertId: 'alert-1' }, { delay: 60_000 });
+    queue.start();
+    await jest.advanceTimersByTimeAsync(59_000);
+    expect(handler).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(handler).toHaveBeenCalledWith({ alertId: 'alert-1' }, expect.objectContaining({ attempts: 1 }));
+  });
+});
@@ -0,0 +1,388 @@
+// Background job queue for webhook work: Redis-backed when configured, in-memory otherwise
+import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+import { logger } from './logger';
+import { createRedisConnection } from './redis-connection';
+
+export interface Job {
+  id: string;
+  type: string;
+  payload: any;
+  attempts: number; // Attempts made so far
+  maxAttempts: number;
+  enqueuedAt: number;
+  lastError?: string;
+  failedAt?: number; // Set when the job is moved to the dead-letter list
+}
+
+export type JobHandler = (payload: any, job: Job) => Promise<void>;
+
+export interface QueueStats {
+  backend: 'redis' | 'memory';
+  waiting: number;
+  delayed: number;
+  active: number;
+  dead: number;
+}
+
+// Retry delays double from 2s up to 5 minutes
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+// Idle workers check for new jobs this often
+const POLL_INTERVAL = 500;
+// Jobs running longer than this are assumed lost with their instance and run again
+const STALLED_JOB_TIMEOUT = 10 * 60 * 1000;
+// Dead letters kept for inspection
+const MAX_DEAD_LETTERS = 1000;
+// Completed job steps are remembered long enough to cover every retry
+const STEP_RESULT_TTL = 24 * 60 * 60 * 1000;
+
+const KEY_PREFIX = 'shambasmart:queue';
+
+interface QueueBackend {
+  readonly name: QueueStats['backend'];
+  push(job: Job): Promise<void>;
+  // Take the next job and mark it active in one step, so a crash in between cannot lose it
+  pop(): Promise<Job | null>;
+  schedule(job: Job, runAt: number): Promise<void>;
+  // Move due retries to the waiting list and requeue stalled jobs
+  promoteDue(): Promise<void>;
+  markDone(jobId: string): Promise<void>;
+  // Results of completed job steps (undefined when the step has not completed)
+  getStep(jobId: string, step: string): Promise<{ value: any } | undefined>;
+  saveStep(jobId: string, step: string, value: any): Promise<void>;
+  pushDead(job: Job): Promise<void>;
+  listDead(limit: number): Promise<Job[]>;
+  stats(): Promise<Omit<QueueStats, 'backend'>>;
+}
+
+class MemoryQueueBackend implements QueueBackend {
+  readonly name = 'memory' as const;
+  private waiting: Job[] = [];
+  private delayed: Array<{ job: Job; runAt: number }> = [];
+  private active = new Map<string, Job>();
+  private dead: Job[] = [];
+  private steps = new Map<string, { value: any; expiresAt: number }>();
+
+  async push(job: Job): Promise<void> {
+    this.waiting.push(job);
+  }
+
+  async pop(): Promise<Job | null> {
+    const job = this.waiting.shift();
+    if (!job) return null;
+    this.active.set(job.id, job);
+    return job;
+  }
+
+  async schedule(job: Job, runAt: number): Promise<void> {
+    this.delayed.push({ job, runAt });
+  }
+
+  async promoteDue(): Promise<void> {
+    const now = Date.now();
+    const due = this.delayed.filter(entry => entry.runAt <= now);
+    this.delayed = this.delayed.filter(entry => entry.runAt > now);
+    this.waiting.push(...due.map(entry => entry.job));
+  }
+
+  async markDone(jobId: string): Promise<void> {
+    this.active.delete(jobId);
+  }
+
+  async getStep(jobId: string, step: string): Promise<{ value: any } | undefined> {
+    const result = this.steps.get(`${jobId}:${step}`);
+    return result && result.expiresAt > Date.now() ? { value: result.value } : undefined;
+  }
+
+  async saveStep(jobId: string, step: string, value: any): Promise<void> {
+    const now = Date.now();
+    for (const [key, result] of this.steps) {
+      if (result.expiresAt <= now) this.steps.delete(key);
+    }
+    this.steps.set(`${jobId}:${step}`, { value, expiresAt: now + STEP_RESULT_TTL });
+  }
+
+  async pushDead(job: Job): Promise<void> {
+    this.dead.unshift(job);
+    this.dead.length = Math.min(this.dead.length, MAX_DEAD_LETTERS);
+  }
+
+  async listDead(limit: number): Promise<Job[]> {
+    return this.dead.slice(0, limit);
+  }
+
+  async stats(): Promise<Omit<QueueStats, 'backend'>> {
+    return {
+      waiting: this.waiting.length,
+      delayed: this.delayed.length,
+      active: this.active.size,
+      dead: this.dead.length,
+    };
+  }
+}
+
+// Move the next waiting job into the running set, scored by its start time
+const POP_SCRIPT = `local value = redis.call('rpop', KEYS[1])
+if value then redis.call('zadd', KEYS[2], ARGV[1], value) end
+return value`;
+
+/**
+ * Jobs are JSON in a waiting list, a sorted set of retries by due time, a sorted set of running jobs
+ * by start time (so jobs from a crashed instance can be recovered) and a dead-letter list. Completed
+ * job steps are kept as expiring keys.
+ */
+class RedisQueueBackend implements QueueBackend {
+  readonly name = 'redis' as const;
+  private keys = {
+    waiting: `${KEY_PREFIX}:waiting`,
+    delayed: `${KEY_PREFIX}:delayed`,
+    running: `${KEY_PREFIX}:running`,
+    dead: `${KEY_PREFIX}:dead`,
+  };
+  // Running jobs' JSON as stored in the running set, to remove them once done
+  private runningValues = new Map<string, string>();
+
+  constructor(private redis: Redis) {}
+
+  async push(job: Job): Promise<void> {
+    await this.redis.lpush(this.keys.waiting, JSON.stringify(job));
+  }
+
+  async pop(): Promise<Job | null> {
+    const value = await this.redis.eval(POP_SCRIPT, 2, this.keys.waiting, this.keys.running, Date.now()) as string | null;
+    if (!value) return null;
+    const job: Job = JSON.parse(value);
+    this.runningValues.set(job.id, value);
+    return job;
+  }
+
+  async schedule(job: Job, runAt: number): Promise<void> {
+    await this.redis.zadd(this.keys.delayed, runAt, JSON.stringify(job));
+  }
+
+  async promoteDue(): Promise<void> {
+    const now = Date.now();
+    const due = await this.redis.zrangebyscore(this.keys.delayed, 0, now, 'LIMIT', 0, 100);
+    for (const value of due) {
+      // Only the instance that removes the entry requeues it
+      if (await this.redis.zrem(this.keys.delayed, value)) {
+        await this.redis.lpush(this.keys.waiting, value);
+      }
+    }
+
+    const stalled = await this.redis.zrangebyscore(this.keys.running, 0, now - STALLED_JOB_TIMEOUT, 'LIMIT', 0, 100);
+    for (const value of stalled) {
+      if (!(await this.redis.zrem(this.keys.running, value))) continue;
+      // The lost run counts as an attempt
+      const job: Job = JSON.parse(value);
+      job.attempts++;
+      job.lastError = 'Stalled';
+      if (job.attempts >= job.maxAttempts) {
+        logger.error(`Job ${job.id} (${job.type}) stalled after ${job.attempts} attempts, moving to dead letters`);
+        await this.pushDead({ ...job, failedAt: now });
+      } else {
+        logger.warn(`Requeueing stalled job ${job.id} (${job.type})`);
+        await this.redis.lpush(this.keys.waiting, JSON.stringify(job));
+      }
+    }
+  }
+
+  async markDone(jobId: string): Promise<void> {
+    const value = this.runningValues.get(jobId);
+    if (!value) return;
+    this.runningValues.delete(jobId);
+    await this.redis.zrem(this.keys.running, value);
+  }
+
+  async getStep(jobId: string, step: string): Promise<{ value: any } | undefined> {
+    const value = await this.redis.get(`${KEY_PREFIX}:step:${jobId}:${step}`);
+    return value ? JSON.parse(value) : undefined;
+  }
+
+  async saveStep(jobId: string, step: string, value: any): Promise<void> {
+    await this.redis.set(`${KEY_PREFIX}:step:${jobId}:${step}`, JSON.stringify({ value }), 'PX', STEP_RESULT_TTL);
+  }
+
+  async pushDead(job: Job): Promise<void> {
+    await this.redis.lpush(this.keys.dead, JSON.stringify(job));
+    await this.redis.ltrim(this.keys.dead, 0, MAX_DEAD_LETTERS - 1);
+  }
+
+  async listDead(limit: number): Promise<Job[]> {
+    const values = await this.redis.lrange(this.keys.dead, 0, limit - 1);
+    return values.map(value => JSON.parse(value));
+  }
+
+  async stats(): Promise<Omit<QueueStats, 'backend'>> {
+    const [waiting, delayed, active, dead] = await Promise.all([
+      this.redis.llen(this.keys.waiting),
+      this.redis.zcard(this.keys.delayed),
+      this.redis.zcard(this.keys.running),
+      this.redis.llen(this.keys.dead),
+    ]);
+    return { waiting, delayed, active, dead };
+  }
+}
+
+export class JobQueue {
+  private handlers = new Map<string, JobHandler>();
+  private backend: Promise<QueueBackend>;
+  private concurrency: number;
+  private maxAttempts: number;
+  private running = false;
+
+  constructor() {
+    this.concurrency = parseInt(process.env.JOB_QUEUE_CONCURRENCY || '4');
+    this.maxAttempts = parseInt(process.env.JOB_MAX_ATTEMPTS || '5');
+    this.backend = this.initializeBackend();
+  }
+
+  private async initializeBackend(): Promise<QueueBackend> {
+    const redis = createRedisConnection();
+    if (redis) {
+      try {
+        await redis.ping();
+        logger.info('Job queue using Redis');
+        return new RedisQueueBackend(redis);
+      } catch (error) {
+        logger.warn('Failed to connect to Redis, using in-memory job queue:', error);
+        redis.disconnect();
+      }
+    }
+    return new MemoryQueueBackend();
+  }
+
+  /**
+   * Register the function that runs jobs of a type (e.g. 'whatsapp.message')
+   */
+  register(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Add a job, run as soon as a worker is free or after `delay` milliseconds
+   */
+  async enqueue(type: string, payload: any, options: { maxAttempts?: number; delay?: number } = {}): Promise<Job> {
+    const job: Job = {
+      id: randomUUID(),
+      type,
+      payload,
+      attempts: 0,
+      maxAttempts: options.maxAttempts || this.maxAttempts,
+      enqueuedAt: Date.now(),
+    };
+    const backend = await this.backend;
+    if (options.delay) {
+      await backend.schedule(job, Date.now() + options.delay);
+    } else {
+      await backend.push(job);
+    }
+    logger.debug(`Enqueued job ${job.id} (${type})`);
+    return job;
+  }
+
+  /**
+   * Start the workers (JOB_QUEUE_CONCURRENCY, default 4) and the retry scheduler
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    for (let i = 0; i < this.concurrency; i++) {
+      void this.work();
+    }
+    const timer = setInterval(async () => {
+      try {
+        await (await this.backend).promoteDue();
+      } catch (error) {
+        logger.error('Error promoting delayed jobs:', error);
+      }
+    }, 1000);
+    timer.unref();
+    logger.info(`Job queue started with ${this.concurrency} workers`);
+  }
+
+  stop(): void {
+    this.running = false;
+  }
+
+  /**
+   * Run one step of a job at most once. On a retry, a step that already completed is skipped and its
+   * result (which must be JSON) returned again, so e.g. a failed send doesn't re-save the message,
+   * call the model again or repeat the parts that went out. Without a job the step just runs.
+   */
+  async step<T>(job: Job | undefined, name: string, fn: () => Promise<T>): Promise<T> {
+    if (!job) return fn();
+    const backend = await this.backend;
+    const done = await backend.getStep(job.id, name);
+    if (done) {
+      logger.debug(`Skipping completed step ${name} of job ${job.id} (${job.type})`);
+      return done.value;
+    }
+    const value = await fn();
+    await backend.saveStep(job.id, name, value);
+    return value;
+  }
+
+  async getStats(): Promise<QueueStats> {
+    const backend = await this.backend;
+    return { backend: backend.name, ...(await backend.stats()) };
+  }
+
+  async getDeadLetters(limit: number = 50): Promise<Job[]> {
+    return (await this.backend).listDead(limit);
+  }
+
+  private async work(): Promise<void> {
+    while (this.running) {
+      let job: Job | null = null;
+      try {
+        job = await (await this.backend).pop();
+      } catch (error) {
+        logger.error('Error taking job from queue:', error);
+      }
+
+      if (job) {
+        try {
+          await this.run(job);
+        } catch (error) {
+          // Only reached if the backend itself fails; the job is requeued once it counts as stalled
+          logger.error(`Error running job ${job.id} (${job.type}):`, error);
+        }
+      } else {
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+      }
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    const backend = await this.backend;
+    const handler = this.handlers.get(job.type);
+    job.attempts++;
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type "${job.type}"`);
+      }
+      await handler(job.payload, job);
+      await backend.markDone(job.id);
+    } catch (error: any) {
+      await backend.markDone(job.id);
+      job.lastError = error?.message || String(error);
+
+      if (job.attempts >= job.maxAttempts || !handler) {
+        logger.error(`Job ${job.id} (${job.type}) failed after ${job.attempts} attempts, moving to dead letters:`, job.lastError);
+        await backend.pushDead({ ...job, failedAt: Date.now() });
+        return;
+      }
+
+      const delay = Math.min(BASE_RETRY_DELAY * 2 ** (job.attempts - 1), MAX_RETRY_DELAY);
+      logger.warn(`Job ${job.id} (${job.type}) failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delay}ms:`, job.lastError);
+      await backend.schedule(job, Date.now() + delay);
+    }
+  }
+}
+
+// Singleton instance
+export const jobQueue = new JobQueue();
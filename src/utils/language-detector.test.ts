@@ -0,0 +1,52 @@
+import { LanguageDetector } from './language-detector';
+
+describe('LanguageDetector.detect', () => {
+  it('detects English', () => {
+    expect(LanguageDetector.detect('What fertilizer should I use for my maize?')).toMatchObject({
+      language: 'en',
+      responseLanguage: 'en',
+    });
+  });
+
+  it('detects Kiswahili', () => {
+    expect(LanguageDetector.detect('Nataka kujua bei ya mahindi leo')).toMatchObject({
+      language: 'sw',
+      responseLanguage: 'sw',
+    });
+  });
+
+  it('answers Sheng in Kiswahili', () => {
+    expect(LanguageDetector.detect('Niaje msee, bei ya maize iko aje')).toMatchObject({
+      language: 'sheng',
+      responseLanguage: 'sw',
+    });
+  });
+
+  it('treats a strong mix of Kiswahili and English as Sheng', () => {
+    expect(LanguageDetector.detect('Nina shida na the maize crop yangu')).toMatchObject({ language: 'sheng' });
+  });
+
+  it('ignores a single English word in a Kiswahili message', () => {
+    expect(LanguageDetector.detect('Mahindi yangu yana wadudu wengi sana shambani, nifanye nini na spray')).toMatchObject({
+      language: 'sw',
+    });
+  });
+
+  it('reports the share of words it recognised', () => {
+    expect(LanguageDetector.detect('how much maize')!.confidence).toBe(1);
+    expect(LanguageDetector.detect('maize xyzzy plugh')!.confidence).toBe(0.33);
+  });
+
+  it.each([['maize?'], ['12345'], ['1'], [''], ['xyzzy plugh']])('cannot tell the language of "%s"', text => {
+    expect(LanguageDetector.detect(text)).toBeNull();
+  });
+});
+
+describe('LanguageDetector.isDetectable', () => {
+  it('knows English and Kiswahili only', () => {
+    expect(LanguageDetector.isDetectable('en')).toBe(true);
+    expect(LanguageDetector.isDetectable('sw')).toBe(true);
+    expect(LanguageDetector.isDetectable('ki')).toBe(false);
+    expect(LanguageDetector.isDetectable('luo')).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+// Lightweight language detection for farmer messages (English, Kiswahili and Sheng)
+
+export type DetectedLanguage = 'en' | 'sw' | 'sheng';
+
+export interface LanguageDetection {
+  language: DetectedLanguage;
+  responseLanguage: 'en' | 'sw'; // Sheng speakers are answered in Kiswahili
+  confidence: number; // Share of words that matched a lexicon (0-1)
+}
+
+const SWAHILI_WORDS = new Set([
+  // Function words and common verbs
+  'na', 'ya', 'wa', 'za', 'la', 'kwa', 'ni', 'je', 'nini', 'gani', 'vipi', 'jinsi', 'namna', 'lini', 'wapi',
+  'nina', 'una', 'ana', 'tuna', 'ina', 'yangu', 'wangu', 'zangu', 'langu', 'changu', 'yako', 'wako', 'yake',
+  'mimi', 'wewe', 'sisi', 'hii', 'hiyo', 'huu', 'hizi', 'kuna', 'iko', 'ziko', 'sana', 'pia', 'lakini', 'au',
+  'ama', 'kama', 'bado', 'tu', 'ndio', 'ndiyo', 'hapana', 'sijui', 'nataka', 'naomba', 'nisaidie', 'naweza',
+  'nifanye', 'ngapi', 'kiasi', 'leo', 'kesho', 'jana', 'wiki', 'mwezi', 'mwaka', 'habari', 'asante',
+  'tafadhali', 'karibu', 'sawa', 'shida', 'tatizo', 'msaada', 'kufanya', 'kutumia', 'kununua', 'kuuza',
+  // Farming vocabulary
+  'shamba', 'mkulima', 'wakulima', 'kilimo', 'mazao', 'zao', 'mahindi', 'maharagwe', 'maharage', 'viazi',
+  'nyanya', 'sukuma', 'mboga', 'kabichi', 'ndizi', 'kahawa', 'chai', 'ngano', 'mtama', 'mihogo', 'muhogo',
+  'mbegu', 'mbolea', 'samadi', 'udongo', 'mvua', 'ukame', 'jua', 'hewa', 'hali', 'bei', 'soko', 'wadudu',
+  'mdudu', 'dawa', 'ugonjwa', 'magonjwa', 'majani', 'mizizi', 'matunda', 'kupanda', 'panda', 'kuvuna',
+  'mavuno', 'kumwagilia', 'maji', 'mifugo', "ng'ombe", 'ngombe', 'mbuzi', 'kondoo', 'kuku', 'nguruwe',
+  'maziwa', 'mayai', 'chakula', 'lishe', 'chanjo', 'daktari', 'mnyama', 'wanyama', 'kaunti', 'mimea', 'mmea',
+]);
+
+const ENGLISH_WORDS = new Set([
+  // Function words and common verbs
+  'the', 'a', 'an', 'is', 'are', 'was', 'what', 'how', 'when', 'where', 'which', 'why', 'who', 'my', 'i',
+  'me', 'you', 'your', 'it', 'this', 'that', 'these', 'to', 'of', 'and', 'or', 'for', 'in', 'on', 'at',
+  'with', 'do', 'does', 'can', 'should', 'will', 'would', 'have', 'has', 'need', 'want', 'please', 'help',
+  'best', 'much', 'many', 'about', 'today', 'tomorrow', 'week', 'good', 'not', 'there', 'some', 'any',
+  // Farming vocabulary
+  'farm', 'farmer', 'crop', 'crops', 'plant', 'planting', 'seed', 'seeds', 'fertilizer', 'soil', 'rain',
+  'weather', 'price', 'prices', 'market', 'sell', 'buy', 'harvest', 'pest', 'pests', 'disease', 'leaves',
+  'maize', 'beans', 'potatoes', 'tomatoes', 'cabbage', 'cow', 'cows', 'goat', 'goats', 'chicken', 'milk',
+  'spray', 'water', 'grow', 'growing', 'yield', 'livestock', 'animal', 'animals', 'sick', 'feed',
+]);
+
+// Common Sheng (Nairobi street slang) words that neither lexicon covers
+const SHENG_WORDS = new Set([
+  'niaje', 'poa', 'fiti', 'manze', 'maze', 'msee', 'wasee', 'buda', 'mathe', 'mzae', 'mboch', 'ganji',
+  'doh', 'doo', 'mbao', 'ngiri', 'thao', 'noma', 'rada', 'kuchapa', 'mbogi', 'mresh', 'chali', 'kudu', 'bazu',
+]);
+
+// Minimum share of the minority language for a message to count as code-mixed
+const MIXED_RATIO = 0.3;
+
+export class LanguageDetector {
+  /**
+   * Whether detection can tell this language apart. Only English and Kiswahili are known, so
+   * messages in e.g. Kikuyu or Dholuo would read as Kiswahili and must not switch the farmer's language.
+   */
+  static isDetectable(language: string): boolean {
+    return language === 'en' || language === 'sw';
+  }
+
+  /**
+   * Detect the language of a message, or null when there is too little text to tell
+   * (e.g. "maize?", a number or a menu choice)
+   */
+  static detect(text: string): LanguageDetection | null {
+    const words = text.toLowerCase().match(/[a-z']+/g) || [];
+    if (words.length < 2) return null;
+
+    let swahili = 0;
+    let english = 0;
+    let sheng = 0;
+    for (const word of words) {
+      if (SHENG_WORDS.has(word)) sheng++;
+      else if (SWAHILI_WORDS.has(word)) swahili++;
+      else if (ENGLISH_WORDS.has(word)) english++;
+    }
+
+    const matched = swahili + english + sheng;
+    if (matched === 0) return null;
+    const confidence = Math.round((matched / words.length) * 100) / 100;
+
+    // Sheng mixes Kiswahili grammar with English words, so a strong mix counts as Sheng too
+    const minority = Math.min(swahili, english) / (swahili + english || 1);
+    if (sheng >= 2 || (sheng > 0 && swahili > 0) || (swahili > 0 && english > 0 && minority >= MIXED_RATIO)) {
+      return { language: 'sheng', responseLanguage: 'sw', confidence };
+    }
+
+    return swahili > english
+      ? { language: 'sw', responseLanguage: 'sw', confidence }
+      : { language: 'en', responseLanguage: 'en', confidence };
+  }
+}
@@ -0,0 +1,27 @@
+import { quietTimeRemaining } from './quiet-hours';
+
+const MINUTE = 60 * 1000;
+
+// A time given in Kenya time
+const eat = (time: string) => new Date(`2026-10-19T${time}+03:00`);
+
+describe('quietTimeRemaining', () => {
+  it('is zero outside the default quiet hours (21:00-06:00)', () => {
+    expect(quietTimeRemaining(undefined, eat('06:00:00'))).toBe(0);
+    expect(quietTimeRemaining(undefined, eat('12:00:00'))).toBe(0);
+    expect(quietTimeRemaining(undefined, eat('20:59:00'))).toBe(0);
+  });
+
+  it('runs to the end of quiet hours across midnight, in Kenya time', () => {
+    expect(quietTimeRemaining(undefined, eat('21:00:00'))).toBe(9 * 60 * MINUTE);
+    expect(quietTimeRemaining(undefined, eat('23:30:00'))).toBe(6.5 * 60 * MINUTE);
+    expect(quietTimeRemaining(undefined, eat('05:59:30'))).toBe(30 * 1000);
+  });
+
+  it('follows the farmer\'s own quiet hours', () => {
+    const preferences = { quietHours: { start: '13:00', end: '14:30' } };
+    expect(quietTimeRemaining(preferences, eat('13:00:00'))).toBe(90 * MINUTE);
+    expect(quietTimeRemaining(preferences, eat('14:30:00'))).toBe(0);
+    expect(quietTimeRemaining(preferences, eat('22:00:00'))).toBe(0);
+  });
+});
@@ -0,0 +1,38 @@
+// Quiet hours: times of day when farmers are not sent routine alerts or called
+import { AlertPreferences } from '../models/user';
+
+// For farmers who have not set their own, "HH:MM-HH:MM" in Kenya time
+const DEFAULT_QUIET_HOURS = process.env.ALERT_QUIET_HOURS || '21:00-06:00';
+// East Africa Time is UTC+3 all year
+const EAT_OFFSET_MINUTES = 3 * 60;
+const MINUTES_PER_DAY = 24 * 60;
+
+type QuietHours = NonNullable<AlertPreferences['quietHours']>;
+
+/**
+ * Milliseconds until the quiet hours end (the farmer's own, or ALERT_QUIET_HOURS), or 0 outside them
+ */
+export function quietTimeRemaining(preferences?: AlertPreferences, now: Date = new Date()): number {
+  const quietHours = preferences?.quietHours || parseQuietHours(DEFAULT_QUIET_HOURS);
+  if (!quietHours) return 0;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const current = (now.getUTCHours() * 60 + now.getUTCMinutes() + EAT_OFFSET_MINUTES) % MINUTES_PER_DAY;
+  // Quiet hours usually run over midnight (e.g. 21:00-06:00)
+  const isQuiet = start <= end ? current >= start && current < end : current >= start || current < end;
+  if (!isQuiet) return 0;
+
+  const minutesLeft = (end - current + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return (minutesLeft * 60 - now.getUTCSeconds()) * 1000;
+}
+
+function parseQuietHours(value: string): QuietHours | null {
+  const match = value.match(/^(\d{2}:\d{2})-(\d{2}:\d{2})$/);
+  return match ? { start: match[1], end: match[2] } : null;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
@@ -2,6 +2,7 @@
 import Redis from 'ioredis';
 import { logger } from './logger';
 import { ResponseCache } from './response-cache';
+import { createRedisConnection } from './redis-connection';
 
 export interface CacheEntry {
   response: string;
@@ -22,33 +23,10 @@ export class RedisCache {
   }
 
   private async initializeRedis(): Promise<void> {
-    const redisUrl = process.env.REDIS_URL;
-    const redisHost = process.env.REDIS_HOST;
-    const redisPort = process.env.REDIS_PORT ? parseInt(process.env.REDIS_PORT) : 6379;
-    const redisPassword = process.env.REDIS_PASSWORD;
-
     // Try to connect to Redis if configured
-    if (redisUrl || redisHost) {
+    this.redis = createRedisConnection();
+    if (this.redis) {
       try {
-        this.redis = redisUrl
-          ? new Redis(redisUrl, {
-              retryStrategy: (times) => {
-                const delay = Math.min(times * 50, 2000);
-                return delay;
-              },
-              maxRetriesPerRequest: 3,
-            })
-          : new Redis({
-              host: redisHost,
-              port: redisPort,
-              password: redisPassword,
-              retryStrategy: (times) => {
-                const delay = Math.min(times * 50, 2000);
-                return delay;
-              },
-              maxRetriesPerRequest: 3,
-            });
-
         // Test connection
         await this.redis.ping();
         this.useRedis = true;
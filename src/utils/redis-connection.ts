@@ -0,0 +1,31 @@
+// Shared Redis connection settings (REDIS_URL, or REDIS_HOST/REDIS_PORT/REDIS_PASSWORD)
+import Redis from 'ioredis';
+
+/**
+ * Open a new Redis connection, or return null when Redis is not configured.
+ * Callers should ping() before relying on it and fall back to memory if that fails.
+ */
+export function createRedisConnection(): Redis | null {
+  const redisUrl = process.env.REDIS_URL;
+  const redisHost = process.env.REDIS_HOST;
+  if (!redisUrl && !redisHost) {
+    return null;
+  }
+
+  const options = {
+    retryStrategy: (times: number) => {
+      const delay = Math.min(times * 50, 2000);
+      return delay;
+    },
+    maxRetriesPerRequest: 3,
+  };
+
+  return redisUrl
+    ? new Redis(redisUrl, options)
+    : new Redis({
+        host: redisHost,
+        port: process.env.REDIS_PORT ? parseInt(process.env.REDIS_PORT) : 6379,
+        password: process.env.REDIS_PASSWORD,
+        ...options,
+      });
+}
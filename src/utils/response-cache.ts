@@ -107,10 +107,10 @@ export class ResponseCache {
 // Singleton instance
 export const responseCache = new ResponseCache(100, 3600000); // 100 entries, 1 hour TTL
 
-// Periodically clear expired entries (every 30 minutes)
+// Periodically clear expired entries (every 30 minutes); unref so the timer never keeps the process alive
 if (typeof setInterval !== 'undefined') {
   setInterval(() => {
     responseCache.clearExpired();
-  }, 1800000); // 30 minutes
+  }, 1800000).unref(); // 30 minutes
 }
 
@@ -0,0 +1,102 @@
+// Simple in-memory store for short-lived channel sessions (e.g. USSD menus)
+import Redis from 'ioredis';
+import { logger } from './logger';
+import { createRedisConnection } from './redis-connection';
+
+interface SessionEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export class SessionStore<T> {
+  private sessions: Map<string, SessionEntry<T>>;
+  private ttl: number; // Time to live in milliseconds, refreshed on every write
+
+  constructor(ttl: number = 300000) {
+    this.sessions = new Map();
+    this.ttl = ttl;
+
+    // Periodically drop abandoned sessions; unref so the timer never keeps the process alive
+    setInterval(() => this.clearExpired(), ttl).unref();
+  }
+
+  get(sessionId: string): T | null {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) {
+      return null;
+    }
+
+    if (Date.now() > entry.expiresAt) {
+      this.sessions.delete(sessionId);
+      return null;
+    }
+    return entry.value;
+  }
+
+  set(sessionId: string, value: T): void {
+    this.sessions.set(sessionId, { value, expiresAt: Date.now() + this.ttl });
+  }
+
+  delete(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  clearExpired(): void {
+    const now = Date.now();
+    let removed = 0;
+    for (const [sessionId, entry] of this.sessions.entries()) {
+      if (now > entry.expiresAt) {
+        this.sessions.delete(sessionId);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      logger.debug(`Cleared ${removed} expired sessions`);
+    }
+  }
+}
+
+/**
+ * Like SessionStore, but shared by every instance through Redis when configured (values are
+ * stored as JSON, so get() returns a copy). Falls back to memory on this instance otherwise.
+ */
+export class SharedSessionStore<T> {
+  private redis: Promise<Redis | null>;
+  private fallback: SessionStore<string>;
+
+  constructor(private prefix: string, private ttl: number = 300000) {
+    this.fallback = new SessionStore<string>(ttl);
+    this.redis = this.initializeRedis();
+  }
+
+  private async initializeRedis(): Promise<Redis | null> {
+    const redis = createRedisConnection();
+    if (redis) {
+      try {
+        await redis.ping();
+        return redis;
+      } catch (error) {
+        logger.warn(`Failed to connect to Redis, ${this.prefix} sessions only hold within this instance:`, error);
+        redis.disconnect();
+      }
+    }
+    return null;
+  }
+
+  async get(sessionId: string): Promise<T | null> {
+    const redis = await this.redis;
+    const value = redis
+      ? await redis.get(`${this.prefix}:${sessionId}`)
+      : this.fallback.get(sessionId);
+    return value ? JSON.parse(value) : null;
+  }
+
+  async set(sessionId: string, value: T): Promise<void> {
+    const redis = await this.redis;
+    if (redis) {
+      await redis.set(`${this.prefix}:${sessionId}`, JSON.stringify(value), 'PX', this.ttl);
+    } else {
+      this.fallback.set(sessionId, JSON.stringify(value));
+    }
+  }
+}
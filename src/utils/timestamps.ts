@@ -0,0 +1,12 @@
+// Firestore returns dates as Timestamps ({ seconds }), older documents as strings or numbers
+
+export function toMillis(ts: any): number {
+  if (ts instanceof Date) return ts.getTime();
+  if (typeof ts === 'object' && ts !== null) {
+    const seconds = ts.seconds || ts._seconds;
+    if (seconds) return seconds * 1000;
+  }
+  if (typeof ts === 'string') return new Date(ts).getTime();
+  if (typeof ts === 'number') return ts > 1000000000000 ? ts : ts * 1000;
+  return Date.now();
+}
@@ -0,0 +1,11 @@
+/**
+ * Escape text for XML element content and attribute values (TwiML, Voice XML, SSML)
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
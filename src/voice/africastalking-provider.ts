@@ -0,0 +1,104 @@
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const AfricasTalking = require('africastalking');
+import { VoiceAction, VoiceCallOutcome, VoiceCallRequest, VoiceProvider, VoiceResponseOptions } from './types';
+import { escapeXml } from '../utils/xml';
+
+// Longest spoken question recorded, in seconds
+const MAX_RECORDING_LENGTH = 30;
+
+/**
+ * Africa's Talking Voice: Voice XML responses. AT has no speech recognition, so spoken
+ * questions are recorded and the recording is transcribed with the speech-to-text chain.
+ */
+export class AfricasTalkingVoiceProvider implements VoiceProvider {
+  name = 'africastalking';
+
+  recognizes(body: Record<string, any>): boolean {
+    return !!body.sessionId && body.isActive !== undefined;
+  }
+
+  parseRequest(body: Record<string, any>): VoiceCallRequest {
+    const { sessionId, isActive, direction, callerNumber, destinationNumber, dtmfDigits, recordingUrl, clientRequestId } = body;
+    // On calls we place, the caller is our number
+    const isOutbound = direction === 'Outbound';
+    const isEnded = isActive === '0';
+    return {
+      callId: sessionId,
+      from: isOutbound ? destinationNumber : callerNumber,
+      to: isOutbound ? callerNumber : destinationNumber,
+      isNewCall: isActive === '1' && !dtmfDigits && !recordingUrl,
+      isEnded,
+      recordingUrl: recordingUrl || undefined,
+      digits: dtmfDigits || undefined,
+      isOutbound,
+      reference: isOutbound ? clientRequestId || undefined : undefined,
+      outcome: isEnded ? this.outcome(body) : undefined,
+    };
+  }
+
+  render(actions: VoiceAction[], _options: VoiceResponseOptions): { contentType: string; body: string } {
+    const elements: string[] = [];
+
+    for (const action of actions) {
+      // The call ends after the last action
+      if (action.type === 'hangup') break;
+
+      switch (action.type) {
+        case 'say':
+          // Separate <Say> elements give a short pause between sections and list items
+          elements.push(...(typeof action.text === 'string'
+            ? [action.text]
+            : action.text.segments.map(segment => segment.text)
+          ).map(text => this.say(text)));
+          break;
+        case 'pause':
+          // Voice XML has no pause; the gap between actions is enough
+          break;
+        case 'gather':
+          elements.push(action.input === 'speech'
+            ? `<Record finishOnKey="#" maxLength="${MAX_RECORDING_LENGTH}" trimSilence="true" playBeep="true">${this.say(action.prompt)}</Record>`
+            : `<GetDigits timeout="${action.timeout || 10}"${action.numDigits ? ` numDigits="${action.numDigits}"` : ''} finishOnKey="#">${this.say(action.prompt)}</GetDigits>`);
+          break;
+      }
+    }
+
+    return {
+      contentType: 'application/xml',
+      body: `<?xml version="1.0" encoding="UTF-8"?><Response>${elements.join('')}</Response>`,
+    };
+  }
+
+  canPlaceCalls(): boolean {
+    return !!(process.env.AT_API_KEY && process.env.AT_USERNAME && process.env.AT_VOICE_NUMBER);
+  }
+
+  async placeCall(to: string, reference: string): Promise<string> {
+    const client = new AfricasTalking({ apiKey: process.env.AT_API_KEY, username: process.env.AT_USERNAME });
+    // AT calls the number's callback URL (/webhook/voice) when the farmer answers, and sends
+    // clientRequestId back in each notification for the call
+    const result = await client.VOICE.call({
+      callFrom: process.env.AT_VOICE_NUMBER,
+      callTo: [to],
+      clientRequestId: reference,
+    });
+    const entry = result?.entries?.[0];
+    if (!entry?.sessionId || entry.status !== 'Queued') {
+      throw new Error(`Africa's Talking could not place the call: ${entry?.status || result?.errorMessage || 'no response'}`);
+    }
+    return entry.sessionId;
+  }
+
+  /**
+   * How an ended call went, from the final notification's hangup cause
+   */
+  private outcome(body: Record<string, any>): VoiceCallOutcome {
+    const { hangupCause, durationInSeconds } = body;
+    if (hangupCause === 'NO_ANSWER' || hangupCause === 'NO_USER_RESPONSE') return 'no-answer';
+    if (hangupCause === 'USER_BUSY' || hangupCause === 'CALL_REJECTED') return 'busy';
+    return parseInt(durationInSeconds || '0', 10) > 0 ? 'completed' : 'failed';
+  }
+
+  private say(text: string): string {
+    return `<Say voice="${process.env.AT_VOICE || 'woman'}">${escapeXml(text)}</Say>`;
+  }
+}
@@ -0,0 +1,28 @@
+import { VoiceProvider } from './types';
+import { TwilioVoiceProvider } from './twilio-provider';
+import { AfricasTalkingVoiceProvider } from './africastalking-provider';
+
+export { VoiceAction, VoiceCallOutcome, VoiceCallRequest, VoiceProvider, VoiceResponseOptions } from './types';
+
+const voiceProviders: VoiceProvider[] = [
+  new TwilioVoiceProvider(),
+  new AfricasTalkingVoiceProvider(),
+];
+
+/**
+ * The provider that sent a voice webhook. Each of our numbers is hosted by one provider, which
+ * calls /webhook/voice in its own format, so the call is answered in the same format.
+ */
+export function detectVoiceProvider(body: Record<string, any>): VoiceProvider | null {
+  return voiceProviders.find(provider => provider.recognizes(body)) || null;
+}
+
+/**
+ * The provider that places outbound calls: VOICE_CALL_PROVIDER (twilio or africastalking) when set,
+ * otherwise the first one configured for outbound calls
+ */
+export function getOutboundVoiceProvider(): VoiceProvider | null {
+  const configured = voiceProviders.filter(provider => provider.canPlaceCalls());
+  const preferred = process.env.VOICE_CALL_PROVIDER;
+  return (preferred ? configured.find(provider => provider.name === preferred) : configured[0]) || null;
+}
@@ -0,0 +1,129 @@
+import twilio from 'twilio';
+import VoiceResponse from 'twilio/lib/twiml/VoiceResponse';
+import { VoiceAction, VoiceCallRequest, VoiceProvider, VoiceResponseOptions } from './types';
+
+type SayLanguage = NonNullable<VoiceResponse.SayAttributes['language']>;
+type GatherLanguage = NonNullable<VoiceResponse.GatherAttributes['language']>;
+
+const VOICE = 'alice' as const;
+// Speech locales (LanguageDefinition.speechLocale) as Twilio names them. <Say> has no Kiswahili, so
+// Kiswahili prompts are read in Twilio's default voice language; <Gather> recognises Kiswahili speech.
+const SAY_LANGUAGES: Record<string, SayLanguage | undefined> = {
+  'en-US': 'en-US',
+};
+const GATHER_LANGUAGES: Record<string, GatherLanguage | undefined> = {
+  'en-US': 'en-US',
+  'sw-KE': 'sw-KE',
+};
+const WEBHOOK_PATH = '/webhook/voice';
+// Seconds an outbound call rings before it counts as unanswered
+const RING_TIMEOUT = 30;
+
+/**
+ * Twilio Programmable Voice: TwiML responses, speech recognised by Twilio's <Gather>
+ */
+export class TwilioVoiceProvider implements VoiceProvider {
+  name = 'twilio';
+
+  recognizes(body: Record<string, any>): boolean {
+    return !!body.CallSid;
+  }
+
+  parseRequest(body: Record<string, any>, query: Record<string, any> = {}): VoiceCallRequest {
+    const { CallSid, From, To, CallStatus, Direction, SpeechResult, Digits } = body;
+    // On calls we place, the caller is our number
+    const isOutbound = String(Direction || '').startsWith('outbound');
+    const isEnded = ['completed', 'busy', 'failed', 'no-answer', 'canceled'].includes(CallStatus);
+    return {
+      callId: CallSid,
+      from: isOutbound ? To : From,
+      to: isOutbound ? From : To,
+      // Outbound calls first reach the webhook once answered
+      isNewCall: isOutbound
+        ? CallStatus === 'in-progress' && !SpeechResult && !Digits
+        : CallStatus === 'ringing' || CallStatus === 'initiated',
+      isEnded,
+      speech: SpeechResult || undefined,
+      digits: Digits || undefined,
+      isOutbound,
+      // Set in the webhook URLs of the calls we place
+      reference: isOutbound ? query.reference || undefined : undefined,
+      outcome: isEnded ? (CallStatus === 'canceled' ? 'failed' : CallStatus) : undefined,
+    };
+  }
+
+  render(actions: VoiceAction[], options: VoiceResponseOptions): { contentType: string; body: string } {
+    const twiml = new twilio.twiml.VoiceResponse();
+    const sayAttributes = { voice: VOICE, language: SAY_LANGUAGES[options.locale] };
+
+    for (const action of actions) {
+      switch (action.type) {
+        case 'say': {
+          if (typeof action.text === 'string') {
+            twiml.say(sayAttributes, action.text);
+            break;
+          }
+          // Pauses between sections and list items as SSML breaks
+          const say = twiml.say(sayAttributes, '');
+          const { segments } = action.text;
+          segments.forEach((segment, i) => {
+            say.addText(segment.text);
+            if (segment.pause && i < segments.length - 1) {
+              say.break({ time: `${segment.pause}ms` });
+            }
+          });
+          break;
+        }
+        case 'pause':
+          twiml.pause({ length: action.seconds });
+          break;
+        case 'gather': {
+          const gather: Parameters<typeof twiml.gather>[0] = {
+            input: [action.input],
+            language: GATHER_LANGUAGES[options.locale],
+            action: options.reference
+              ? `${WEBHOOK_PATH}?reference=${encodeURIComponent(options.reference)}`
+              : WEBHOOK_PATH,
+            method: 'POST',
+          };
+          if (action.input === 'speech') {
+            Object.assign(gather, { speechTimeout: 'auto', enhanced: true, speechModel: 'phone_call' });
+          }
+          if (action.hints) gather.hints = action.hints;
+          if (action.numDigits) gather.numDigits = action.numDigits;
+          if (action.timeout) gather.timeout = action.timeout;
+          twiml.gather(gather).say(sayAttributes, action.prompt);
+          break;
+        }
+        case 'hangup':
+          twiml.hangup();
+          break;
+      }
+    }
+
+    return { contentType: 'text/xml', body: twiml.toString() };
+  }
+
+  canPlaceCalls(): boolean {
+    return !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_PHONE_NUMBER
+      && process.env.VOICE_WEBHOOK_URL);
+  }
+
+  async placeCall(to: string, reference: string): Promise<string> {
+    const client = twilio(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN);
+    // Unlike inbound numbers, outbound calls are told where the webhook is
+    const webhook = new URL(process.env.VOICE_WEBHOOK_URL!);
+    webhook.searchParams.set('reference', reference);
+    const url = webhook.toString();
+    const call = await client.calls.create({
+      to,
+      from: process.env.TWILIO_PHONE_NUMBER!,
+      url,
+      method: 'POST',
+      statusCallback: url,
+      statusCallbackMethod: 'POST',
+      timeout: RING_TIMEOUT,
+    });
+    return call.sid;
+  }
+}
@@ -0,0 +1,59 @@
+// Shared types for voice call providers (Twilio, Africa's Talking)
+import { SpokenAnswer } from '../formatting';
+
+/**
+ * A provider's webhook call, normalised
+ */
+export interface VoiceCallRequest {
+  callId: string;
+  from: string; // The farmer's number
+  to: string; // Our number
+  isNewCall: boolean; // First request of the call: play the greeting
+  isEnded: boolean; // The call is over; nothing will be played
+  speech?: string; // What the caller said, when the provider recognised it
+  recordingUrl?: string; // What the caller said, as a recording to transcribe
+  digits?: string; // Keys the caller pressed
+  isOutbound: boolean; // A call we placed (e.g. an alert), rather than a farmer calling us
+  reference?: string; // On calls we placed, the reference given to placeCall
+  outcome?: VoiceCallOutcome; // How the call ended, when isEnded
+}
+
+export type VoiceCallOutcome = 'completed' | 'no-answer' | 'busy' | 'failed';
+
+/**
+ * One step of the call, rendered by each provider into its own markup
+ */
+export type VoiceAction =
+  | { type: 'say'; text: string | SpokenAnswer }
+  | { type: 'pause'; seconds: number }
+  // Play the prompt and send what the caller says or presses to the next webhook call
+  | { type: 'gather'; input: 'speech' | 'dtmf'; prompt: string; numDigits?: number; timeout?: number; hints?: string }
+  | { type: 'hangup' };
+
+export interface VoiceResponseOptions {
+  language: string; // Language code of the prompts
+  locale: string; // BCP-47 locale for speech recognition and text-to-speech
+  reference?: string; // The call's reference, kept on the webhook call that follows a gather
+}
+
+export interface VoiceProvider {
+  name: string;
+  /**
+   * Whether a webhook payload was sent by this provider
+   */
+  recognizes(body: Record<string, any>): boolean;
+  parseRequest(body: Record<string, any>, query?: Record<string, any>): VoiceCallRequest;
+  /**
+   * Render the call steps as the provider's response document
+   */
+  render(actions: VoiceAction[], options: VoiceResponseOptions): { contentType: string; body: string };
+  /**
+   * Whether outbound calls are configured for this provider
+   */
+  canPlaceCalls(): boolean;
+  /**
+   * Call a farmer from our number. The provider calls /webhook/voice when the call is answered
+   * and when it ends, with `reference` (e.g. the alert ID) in every webhook call. Resolves to the call ID.
+   */
+  placeCall(to: string, reference: string): Promise<string>;
+}